@@ -0,0 +1,118 @@
+import { expect, test, type Page } from '@playwright/test'
+import type { LNAExplorerAutomation } from '../src/types/lna'
+
+const TEST_SERVER_URL = 'http://localhost:8080'
+
+type AutomationWindow = Window & { __lnaExplorer: LNAExplorerAutomation }
+
+async function openAutomation(page: Page) {
+  await page.goto('automation')
+  await page.waitForFunction(() => !!(window as unknown as AutomationWindow).__lnaExplorer)
+}
+
+test.beforeEach(async ({ page }) => {
+  await openAutomation(page)
+})
+
+test('exposes the permission status and browser info', async ({ page }) => {
+  const status = await page.evaluate(() =>
+    (window as unknown as AutomationWindow).__lnaExplorer.getPermissionStatus()
+  )
+  // localhost counts as a secure context even over plain HTTP
+  expect(status.isSecureContext).toBe(true)
+  expect(['granted', 'prompt', 'denied']).toContain(status.state)
+
+  const browser = await page.evaluate(() =>
+    (window as unknown as AutomationWindow).__lnaExplorer.getBrowserInfo()
+  )
+  expect(browser.engine).toBe('Blink')
+  expect(browser.features?.map((f) => f.feature)).toEqual([
+    'permission-query',
+    'target-address-space',
+    'iframe-allow',
+  ])
+})
+
+test('sends a request and records a structured result', async ({ page }) => {
+  const result = await page.evaluate(
+    (url) =>
+      (window as unknown as AutomationWindow).__lnaExplorer.sendRequest({
+        url,
+        targetAddressSpace: 'loopback',
+      }),
+    `${TEST_SERVER_URL}/scenario/ok/e2e`
+  )
+
+  expect(result.response.status).toBe('success')
+  expect(result.response.meta?.status).toBe(200)
+  expect(result.response.headers?.['private-network-access-id']).toBe('00:11:22:33:44:55')
+  expect((result.response.data as { path: string }).path).toBe('/scenario/ok/e2e')
+
+  const results = await page.evaluate(() =>
+    (window as unknown as AutomationWindow).__lnaExplorer.getResults()
+  )
+  expect(results.map((r) => r.id)).toEqual([result.id])
+  await expect(page.getByTestId('automation-results')).toContainText('/scenario/ok/e2e')
+})
+
+test('classifies failures instead of throwing', async ({ page }) => {
+  const result = await page.evaluate(
+    (url) =>
+      (window as unknown as AutomationWindow).__lnaExplorer.sendRequest({
+        url,
+        targetAddressSpace: 'loopback',
+      }),
+    `${TEST_SERVER_URL}/scenario/ok/?status=503`
+  )
+
+  expect(result.response.status).toBe('error')
+  expect(result.response.error?.category).toBe('http-error')
+  expect(result.response.error?.status).toBe(503)
+})
+
+test('runs a YAML suite and reports per-case assertions', async ({ page }) => {
+  const suite = `
+name: e2e
+baseUrl: ${TEST_SERVER_URL}
+cases:
+  - name: echo
+    url: /scenario/ok/echo
+    targetAddressSpace: loopback
+    method: POST
+    body: hello
+    expect:
+      status: 200
+      headers:
+        access-control-allow-private-network: "true"
+      json:
+        - path: $.body
+          equals: hello
+  - name: expected failure
+    url: /scenario/ok/?status=404
+    targetAddressSpace: loopback
+    expect:
+      status: 200
+`
+  const run = await page.evaluate(
+    (text) => (window as unknown as AutomationWindow).__lnaExplorer.runSuite(text),
+    suite
+  )
+
+  expect(run.ok).toBe(true)
+  const results = run.ok ? run.value : []
+  expect(results.map((r) => r.status)).toEqual(['passed', 'failed'])
+  const failed = results[1].assertions.filter((a) => !a.passed)
+  expect(failed.map((a) => [a.label, a.expected, a.actual])).toEqual([
+    ['outcome', 'success', 'http-error'],
+    ['status', '200', '404'],
+  ])
+})
+
+test('answers an unparseable suite with an error result', async ({ page }) => {
+  const run = await page.evaluate(
+    (text) => (window as unknown as AutomationWindow).__lnaExplorer.runSuite(text),
+    'cases: ['
+  )
+
+  expect(run).toMatchObject({ ok: false, error: { kind: 'invalid-suite' } })
+})
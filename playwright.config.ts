@@ -0,0 +1,35 @@
+import { defineConfig, devices } from '@playwright/test'
+
+const APP_URL = 'http://localhost:5173/exp-lna-permissions/'
+const TEST_SERVER_URL = 'http://localhost:8080'
+
+// Starts the explorer and the local test server, then drives the /automation route in Chromium
+export default defineConfig({
+  testDir: './e2e',
+  fullyParallel: false,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? 'list' : 'html',
+  use: {
+    baseURL: APP_URL,
+    trace: 'retain-on-failure',
+  },
+  projects: [
+    {
+      name: 'chromium',
+      use: { ...devices['Desktop Chrome'] },
+    },
+  ],
+  webServer: [
+    {
+      command: 'npm run dev -- --port 5173 --strictPort',
+      url: APP_URL,
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: 'npm run test-server',
+      url: `${TEST_SERVER_URL}/__scenarios`,
+      reuseExistingServer: !process.env.CI,
+    },
+  ],
+})
@@ -2,6 +2,12 @@ import { Routes, Route } from 'react-router-dom'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import Home from './pages/Home'
 import About from './pages/About'
+import Scanner from './pages/Scanner'
+import EmbedHarness from './pages/EmbedHarness'
+import ProbeFrame from './pages/ProbeFrame'
+import ReportViewer from './pages/ReportViewer'
+import SuiteRunner from './pages/SuiteRunner'
+import Automation from './pages/Automation'
 
 function App() {
   return (
@@ -9,6 +15,12 @@ function App() {
       <Routes>
         <Route path="/" element={<Home />} />
         <Route path="/about" element={<About />} />
+        <Route path="/scanner" element={<Scanner />} />
+        <Route path="/embed-harness" element={<EmbedHarness />} />
+        <Route path="/probe-frame" element={<ProbeFrame />} />
+        <Route path="/report" element={<ReportViewer />} />
+        <Route path="/suites" element={<SuiteRunner />} />
+        <Route path="/automation" element={<Automation />} />
       </Routes>
     </ErrorBoundary>
   )
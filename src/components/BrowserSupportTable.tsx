@@ -0,0 +1,107 @@
+import type { ReactNode } from 'react'
+import type { BrowserInfo, FeatureSupportStatus } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { SUPPORT_TABLE, describeRule } from '@/lib/browser-support'
+import { cn } from '@/lib/utils'
+
+interface BrowserSupportTableProps {
+  browserInfo?: BrowserInfo
+}
+
+interface SupportStatusBadgeProps {
+  status: FeatureSupportStatus
+  children?: ReactNode
+}
+
+const STATUS_STYLES: Record<FeatureSupportStatus, string> = {
+  supported: 'text-green-700 bg-green-50',
+  expected: 'text-blue-700 bg-blue-50',
+  unsupported: 'text-orange-700 bg-orange-50',
+  unknown: 'text-gray-600 bg-gray-50',
+}
+
+export function SupportStatusBadge({ status, children }: SupportStatusBadgeProps) {
+  return (
+    <span className={cn('px-2 py-0.5 rounded text-xs', STATUS_STYLES[status])}>
+      {children ?? status}
+    </span>
+  )
+}
+
+export function BrowserSupportTable({ browserInfo }: BrowserSupportTableProps) {
+  return (
+    <Card data-testid="browser-support-table">
+      <h2 className="text-xl font-semibold mb-1">Browser Support</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Table v{SUPPORT_TABLE.version}, updated {SUPPORT_TABLE.updated}. Rows are matched top to
+        bottom; Chromium derivatives are versioned by their engine.
+      </p>
+
+      {browserInfo && (
+        <p className="text-sm mb-4" data-testid="detected-browser">
+          Detected <span className="font-medium">{browserInfo.name}</span> {browserInfo.version}
+          {browserInfo.engine && (
+            <span className="text-gray-600">
+              {' '}
+              ({browserInfo.engine} {browserInfo.engineVersion}, {browserInfo.os})
+            </span>
+          )}
+          <span className="text-gray-500">
+            {' '}
+            via {browserInfo.usedClientHints ? 'User-Agent Client Hints' : 'the User-Agent string'}
+          </span>
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-left border-b border-gray-200">
+              <th className="py-2 pr-4">Browser</th>
+              {SUPPORT_TABLE.features.map(({ feature, label, api }) => (
+                <th key={feature} className="py-2 pr-4" title={api}>
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {SUPPORT_TABLE.entries.map((entry) => {
+              const isDetected = entry.id === browserInfo?.supportEntryId
+              return (
+                <tr
+                  key={entry.id}
+                  className={cn('border-b border-gray-100', isDetected && 'bg-blue-50/50')}
+                  data-testid="support-table-row"
+                  data-entry-id={entry.id}
+                >
+                  <td className="py-2 pr-4 font-medium">
+                    {entry.label}
+                    {isDetected && <span className="ml-2 text-xs text-blue-600">(you)</span>}
+                  </td>
+                  {SUPPORT_TABLE.features.map(({ feature }) => {
+                    const rule = entry.features[feature]
+                    return (
+                      <td
+                        key={feature}
+                        className="py-2 pr-4"
+                        title={describeRule(entry, rule)}
+                        data-testid={`support-cell-${feature}`}
+                      >
+                        <SupportStatusBadge status={rule.status}>
+                          {rule.status}
+                          {rule.since !== undefined &&
+                            ` ${entry.versionSource === 'engine' ? 'Chromium ' : ''}${rule.since}+`}
+                        </SupportStatusBadge>
+                      </td>
+                    )
+                  })}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,147 @@
+import type { ReactNode } from 'react'
+import type { ContextProbeResult } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { EXECUTION_CONTEXTS } from '@/lib/context-probes'
+import { FETCH_ERROR_EXPLANATIONS } from '@/lib/fetch-errors'
+import { cn } from '@/lib/utils'
+import { CheckCircle, Circle, Loader2, Trash2, XCircle } from 'lucide-react'
+
+interface ContextComparisonProps {
+  results: ContextProbeResult[]
+  isRunning: boolean
+  onCancel: () => void
+  onClear: () => void
+}
+
+const CONTEXT_LABELS = Object.fromEntries(
+  EXECUTION_CONTEXTS.map(({ context, label }) => [context, label])
+)
+
+function StatusIcon({ status }: { status: ContextProbeResult['status'] }) {
+  switch (status) {
+    case 'success':
+      return <CheckCircle className="w-4 h-4 text-green-600" />
+    case 'error':
+      return <XCircle className="w-4 h-4 text-red-600" />
+    case 'loading':
+      return <Loader2 className="w-4 h-4 text-gray-500 animate-spin" />
+    case 'idle':
+      return <Circle className="w-4 h-4 text-gray-300" />
+  }
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="font-mono text-sm break-words">{children}</div>
+    </div>
+  )
+}
+
+export function ContextComparison({
+  results,
+  isRunning,
+  onCancel,
+  onClear,
+}: ContextComparisonProps) {
+  if (results.length === 0) {
+    return null
+  }
+
+  const main = results.find((r) => r.context === 'main')
+
+  return (
+    <Card data-testid="context-comparison">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Execution Contexts</h2>
+        {isRunning ? (
+          <Button
+            variant="danger"
+            onClick={onCancel}
+            data-testid="cancel-context-comparison-button"
+            className="flex items-center gap-2"
+          >
+            <XCircle className="w-4 h-4" />
+            Cancel
+          </Button>
+        ) : (
+          <Button
+            variant="secondary"
+            onClick={onClear}
+            data-testid="clear-context-comparison-button"
+            className="flex items-center gap-2"
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {results.map((result) => {
+          const differsFromMain =
+            result.context !== 'main' &&
+            !result.unavailable &&
+            result.status !== 'loading' &&
+            main?.status !== 'loading' &&
+            (result.status !== main?.status || result.permission?.state !== main?.permission?.state)
+          const error = result.response?.error
+
+          return (
+            <div
+              key={result.context}
+              className={cn(
+                'border rounded p-3 space-y-2',
+                differsFromMain ? 'border-orange-300 bg-orange-50' : 'border-gray-200'
+              )}
+              data-testid={`context-result-${result.context}`}
+            >
+              <div className="flex items-center gap-2 font-medium">
+                <StatusIcon status={result.status} />
+                {CONTEXT_LABELS[result.context]}
+              </div>
+
+              {result.unavailable ? (
+                <p className="text-xs text-gray-600" data-testid="context-unavailable">
+                  {result.unavailable}
+                </p>
+              ) : (
+                <>
+                  <Field label="Permission">
+                    {result.permission ? (result.permission.state ?? 'unsupported') : '—'}
+                  </Field>
+                  <Field label="Secure context">
+                    {result.permission ? String(result.permission.isSecureContext) : '—'}
+                  </Field>
+                  <Field label="HTTP status">
+                    {result.response?.meta?.status ?? error?.status ?? '—'}
+                  </Field>
+                  <Field label="Duration">
+                    {result.response?.timing
+                      ? `${Math.round(result.response.timing.durationMs)}ms`
+                      : '—'}
+                  </Field>
+                  {error && (
+                    <Field label="Error">
+                      <span className="text-red-600">{error.category}</span>
+                      <div className="text-xs text-gray-600 font-sans">
+                        {FETCH_ERROR_EXPLANATIONS[error.category].title}
+                      </div>
+                    </Field>
+                  )}
+                </>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-3">
+        Workers run the same permission query and fetch as the page. Contexts highlighted in orange
+        disagree with the main thread.
+      </p>
+    </Card>
+  )
+}
@@ -0,0 +1,132 @@
+import type { DeviceRecord, DeviceWarning } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { isValidDeviceId, validateDeviceName } from '@/lib/device-registry'
+import { cn, formatTime } from '@/lib/utils'
+import { AlertTriangle, ShieldCheck, Shield, Trash2 } from 'lucide-react'
+
+interface DeviceRegistryProps {
+  devices: DeviceRecord[]
+  warnings: DeviceWarning[]
+  onToggleTrusted: (id: string) => void
+  onForget: (id: string) => void
+  onClearWarnings: () => void
+}
+
+export function DeviceRegistry({
+  devices,
+  warnings,
+  onToggleTrusted,
+  onForget,
+  onClearWarnings,
+}: DeviceRegistryProps) {
+  if (devices.length === 0 && warnings.length === 0) {
+    return null
+  }
+
+  return (
+    <Card data-testid="device-registry">
+      <h2 className="text-xl font-semibold mb-4">Known Devices</h2>
+
+      {warnings.length > 0 && (
+        <div
+          className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded"
+          data-testid="device-warnings"
+        >
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2 text-orange-800 font-medium">
+              <AlertTriangle className="w-4 h-4" />
+              Identity warnings
+            </div>
+            <button
+              type="button"
+              onClick={onClearWarnings}
+              className="text-xs text-orange-800 hover:underline"
+              data-testid="clear-device-warnings"
+            >
+              Dismiss all
+            </button>
+          </div>
+          <ul className="text-sm text-orange-800 space-y-1">
+            {warnings.map((warning, index) => (
+              <li key={`${warning.timestamp}-${index}`} data-testid="device-warning">
+                <span className="font-mono text-xs text-orange-600">
+                  {formatTime(warning.timestamp)}
+                </span>{' '}
+                {warning.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {devices.length > 0 && (
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-left border-b border-gray-200">
+              <th className="py-2 pr-4">Name</th>
+              <th className="py-2 pr-4">ID</th>
+              <th className="py-2 pr-4">Address</th>
+              <th className="py-2 pr-4">Last Seen</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {devices.map((device) => (
+              <tr key={device.id} className="border-b border-gray-100" data-testid="device-row">
+                <td
+                  className={cn(
+                    'py-2 pr-4 font-mono',
+                    device.name && validateDeviceName(device.name) && 'text-orange-700'
+                  )}
+                >
+                  {device.name || <span className="text-gray-400">(unnamed)</span>}
+                </td>
+                <td
+                  className={cn(
+                    'py-2 pr-4 font-mono',
+                    !isValidDeviceId(device.id) && 'text-orange-700'
+                  )}
+                >
+                  {device.id}
+                </td>
+                <td className="py-2 pr-4 font-mono" title={device.hosts.join(', ')}>
+                  {device.lastHost}
+                  {device.hosts.length > 1 && (
+                    <span className="text-xs text-gray-500"> (+{device.hosts.length - 1})</span>
+                  )}
+                </td>
+                <td className="py-2 pr-4 font-mono text-xs">{formatTime(device.lastSeen)}</td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button
+                    type="button"
+                    onClick={() => onToggleTrusted(device.id)}
+                    title={device.trusted ? 'Trusted' : 'Mark as trusted'}
+                    aria-label={device.trusted ? 'Untrust device' : 'Trust device'}
+                    data-testid="device-trust"
+                    className="p-2 rounded hover:bg-gray-100"
+                  >
+                    {device.trusted ? (
+                      <ShieldCheck className="w-4 h-4 text-green-600" />
+                    ) : (
+                      <Shield className="w-4 h-4 text-gray-400" />
+                    )}
+                  </button>
+                  <Button
+                    variant="secondary"
+                    onClick={() => onForget(device.id)}
+                    aria-label="Forget device"
+                    data-testid="device-forget"
+                    className="p-2 py-2 inline-flex"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,107 @@
+import type { HistoryEntry } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { describeEntry } from '@/lib/request-history'
+import { cn, formatTime } from '@/lib/utils'
+import { X } from 'lucide-react'
+
+interface HistoryDiffProps {
+  left: HistoryEntry
+  right: HistoryEntry
+  onClose: () => void
+}
+
+type DiffRow = {
+  label: string
+  pick: (entry: HistoryEntry) => unknown
+}
+
+const DIFF_ROWS: DiffRow[] = [
+  { label: 'URL', pick: (entry) => entry.url },
+  { label: 'Address Space', pick: (entry) => entry.targetAddressSpace },
+  { label: 'Method', pick: (entry) => entry.options.method ?? 'GET' },
+  { label: 'Request Headers', pick: (entry) => entry.options.headers ?? {} },
+  { label: 'Request Body', pick: (entry) => entry.options.body ?? '' },
+  { label: 'Permission at Send', pick: (entry) => entry.permissionState ?? 'unknown' },
+  { label: 'Sent At', pick: (entry) => formatTime(entry.startedAt) },
+  { label: 'Duration', pick: (entry) => `${entry.durationMs}ms` },
+  { label: 'Outcome', pick: (entry) => entry.response.status },
+  { label: 'Error', pick: (entry) => entry.response.error ?? '' },
+  { label: 'Response Headers', pick: (entry) => entry.response.headers ?? {} },
+  { label: 'Response Data', pick: (entry) => entry.response.data ?? '' },
+]
+
+// Timing fields always differ between runs, so they are shown but never flagged
+const UNFLAGGED_ROWS = new Set(['Sent At', 'Duration'])
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+}
+
+function DiffCell({ text, otherText }: { text: string; otherText: string }) {
+  const lines = text.split('\n')
+  const otherLines = otherText.split('\n')
+
+  return (
+    <pre className="text-xs font-mono whitespace-pre-wrap break-all">
+      {lines.map((line, index) => (
+        <div key={index} className={cn(line !== otherLines[index] && 'bg-yellow-100')}>
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+export function HistoryDiff({ left, right, onClose }: HistoryDiffProps) {
+  return (
+    <Card data-testid="history-diff">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Compare Requests</h2>
+        <Button
+          variant="secondary"
+          onClick={onClose}
+          data-testid="close-diff-button"
+          className="flex items-center gap-2"
+        >
+          <X className="w-4 h-4" />
+          Close
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-left border-b border-gray-200">
+              <th className="py-2 pr-4 w-40" />
+              <th className="py-2 pr-4">{describeEntry(left)}</th>
+              <th className="py-2">{describeEntry(right)}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {DIFF_ROWS.map((row) => {
+              const leftText = formatValue(row.pick(left))
+              const rightText = formatValue(row.pick(right))
+              const differs = !UNFLAGGED_ROWS.has(row.label) && leftText !== rightText
+              return (
+                <tr
+                  key={row.label}
+                  className={cn('border-b border-gray-100 align-top', differs && 'bg-yellow-50')}
+                  data-testid={differs ? 'diff-row-changed' : 'diff-row'}
+                >
+                  <td className="py-2 pr-4 font-medium">{row.label}</td>
+                  <td className="py-2 pr-4">
+                    <DiffCell text={leftText} otherText={differs ? rightText : leftText} />
+                  </td>
+                  <td className="py-2">
+                    <DiffCell text={rightText} otherText={differs ? leftText : rightText} />
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,74 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+
+interface JsonTreeProps {
+  value: unknown
+  name?: string
+  depth?: number
+}
+
+function PrimitiveValue({ value }: { value: unknown }) {
+  if (value === null) {
+    return <span className="text-gray-500">null</span>
+  }
+  switch (typeof value) {
+    case 'string':
+      return <span className="text-green-700">&quot;{value}&quot;</span>
+    case 'number':
+      return <span className="text-blue-700">{value}</span>
+    case 'boolean':
+      return <span className="text-purple-700">{String(value)}</span>
+    default:
+      return <span className="text-gray-500">{String(value)}</span>
+  }
+}
+
+export function JsonTree({ value, name, depth = 0 }: JsonTreeProps) {
+  // Only the first two levels start expanded so large payloads stay readable
+  const [isOpen, setIsOpen] = useState(depth < 2)
+  const label = name !== undefined && <span className="text-red-700">{name}: </span>
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div className="pl-4">
+        {label}
+        <PrimitiveValue value={value} />
+      </div>
+    )
+  }
+
+  const isArray = Array.isArray(value)
+  const entries = isArray
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value)
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}']
+
+  return (
+    <div className={depth > 0 ? 'pl-4' : undefined}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center hover:bg-gray-100 rounded"
+        data-testid="json-tree-toggle"
+      >
+        {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        {label}
+        <span>{open}</span>
+        {!isOpen && (
+          <span className="text-gray-500">
+            {' '}
+            {entries.length} {isArray ? 'items' : 'keys'} {close}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <>
+          {entries.map(([key, child]) => (
+            <JsonTree key={key} name={key} value={child} depth={depth + 1} />
+          ))}
+          <div className="pl-4">{close}</div>
+        </>
+      )}
+    </div>
+  )
+}
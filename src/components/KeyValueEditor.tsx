@@ -0,0 +1,92 @@
+import type { KeyValueRow } from '@/types/lna'
+import { Input } from '@/components/ui/Input'
+import { Button } from '@/components/ui/Button'
+import { Plus, X } from 'lucide-react'
+
+interface KeyValueEditorProps {
+  rows: KeyValueRow[]
+  onChange: (rows: KeyValueRow[]) => void
+  disabled?: boolean
+  keyPlaceholder?: string
+  valuePlaceholder?: string
+  addLabel?: string
+  testIdPrefix: string
+}
+
+export function KeyValueEditor({
+  rows,
+  onChange,
+  disabled,
+  keyPlaceholder = 'Name',
+  valuePlaceholder = 'Value',
+  addLabel = 'Add',
+  testIdPrefix,
+}: KeyValueEditorProps) {
+  const updateRow = (index: number, patch: Partial<KeyValueRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+  }
+
+  const removeRow = (index: number) => {
+    onChange(rows.filter((_, i) => i !== index))
+  }
+
+  const addRow = () => {
+    onChange([...rows, { key: '', value: '', enabled: true }])
+  }
+
+  return (
+    <div className="space-y-2" data-testid={`${testIdPrefix}-editor`}>
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2" data-testid={`${testIdPrefix}-row`}>
+          <input
+            type="checkbox"
+            checked={row.enabled}
+            onChange={(e) => updateRow(index, { enabled: e.target.checked })}
+            disabled={disabled}
+            aria-label="Enabled"
+            data-testid={`${testIdPrefix}-enabled-${index}`}
+          />
+          <Input
+            type="text"
+            placeholder={keyPlaceholder}
+            value={row.key}
+            onChange={(e) => updateRow(index, { key: e.target.value })}
+            disabled={disabled}
+            data-testid={`${testIdPrefix}-key-${index}`}
+            className="font-mono text-sm"
+          />
+          <Input
+            type="text"
+            placeholder={valuePlaceholder}
+            value={row.value}
+            onChange={(e) => updateRow(index, { value: e.target.value })}
+            disabled={disabled}
+            data-testid={`${testIdPrefix}-value-${index}`}
+            className="font-mono text-sm"
+          />
+          <button
+            type="button"
+            onClick={() => removeRow(index)}
+            disabled={disabled}
+            aria-label="Remove"
+            data-testid={`${testIdPrefix}-remove-${index}`}
+            className="p-2 text-gray-500 hover:text-red-600 disabled:opacity-50"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="secondary"
+        onClick={addRow}
+        disabled={disabled}
+        data-testid={`${testIdPrefix}-add`}
+        className="flex items-center gap-2 text-sm py-1"
+      >
+        <Plus className="w-4 h-4" />
+        {addLabel}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+import type { MatrixCell } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { CheckCircle, Circle, Loader2, Trash2, XCircle } from 'lucide-react'
+
+interface MatrixResultsProps {
+  cells: MatrixCell[]
+  isRunning: boolean
+  onCancel: () => void
+  onClear: () => void
+}
+
+function StatusIcon({ status }: { status: MatrixCell['status'] }) {
+  switch (status) {
+    case 'success':
+      return <CheckCircle className="w-4 h-4 text-green-600" />
+    case 'error':
+      return <XCircle className="w-4 h-4 text-red-600" />
+    case 'loading':
+      return <Loader2 className="w-4 h-4 text-gray-500 animate-spin" />
+    case 'idle':
+      return <Circle className="w-4 h-4 text-gray-300" />
+  }
+}
+
+function lnaHeaders(headers: Record<string, string> = {}) {
+  return Object.entries(headers).filter(([key]) => key.toLowerCase().includes('private-network'))
+}
+
+export function MatrixResults({ cells, isRunning, onCancel, onClear }: MatrixResultsProps) {
+  if (cells.length === 0) {
+    return null
+  }
+
+  return (
+    <Card data-testid="matrix-results">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Address Space Matrix</h2>
+        {isRunning ? (
+          <Button
+            variant="danger"
+            onClick={onCancel}
+            data-testid="cancel-matrix-button"
+            className="flex items-center gap-2"
+          >
+            <XCircle className="w-4 h-4" />
+            Cancel
+          </Button>
+        ) : (
+          <Button
+            variant="secondary"
+            onClick={onClear}
+            data-testid="clear-matrix-button"
+            className="flex items-center gap-2"
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-left border-b border-gray-200">
+              <th className="py-2 pr-4">Address Space</th>
+              <th className="py-2 pr-4">Result</th>
+              <th className="py-2 pr-4">Latency</th>
+              <th className="py-2 pr-4">Error</th>
+              <th className="py-2">LNA Headers</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cells.map((cell) => (
+              <tr
+                key={cell.targetAddressSpace}
+                className="border-b border-gray-100 align-top"
+                data-testid={`matrix-row-${cell.targetAddressSpace}`}
+              >
+                <td className="py-2 pr-4 font-mono">{cell.targetAddressSpace}</td>
+                <td className="py-2 pr-4">
+                  <div className="flex items-center gap-2">
+                    <StatusIcon status={cell.status} />
+                    <span>{cell.status}</span>
+                  </div>
+                </td>
+                <td className="py-2 pr-4 font-mono">
+                  {cell.durationMs !== undefined ? `${cell.durationMs}ms` : '—'}
+                </td>
+                <td className="py-2 pr-4 text-red-600 break-words">
+                  {cell.error && (
+                    <>
+                      <span className="font-mono">{cell.error.category}</span>
+                      <div className="text-xs text-gray-600">{cell.error.message}</div>
+                    </>
+                  )}
+                </td>
+                <td className="py-2 font-mono text-xs">
+                  {lnaHeaders(cell.headers).map(([key, value]) => (
+                    <div key={key}>
+                      <span className="text-blue-600">{key}:</span> {value}
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { ShieldQuestion } from 'lucide-react'
+
+interface PermissionExplainerDialogProps {
+  open: boolean
+  onConfirm: (dontExplainAgain: boolean) => void
+  onCancel: () => void
+}
+
+export function PermissionExplainerDialog({
+  open,
+  onConfirm,
+  onCancel,
+}: PermissionExplainerDialogProps) {
+  const [dontExplainAgain, setDontExplainAgain] = useState(false)
+
+  if (!open) {
+    return null
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+    >
+      <Card
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="permission-explainer-title"
+        className="max-w-md w-full"
+        data-testid="permission-explainer"
+      >
+        <div className="flex items-center gap-2 mb-4">
+          <ShieldQuestion className="w-6 h-6 text-blue-600" />
+          <h2 id="permission-explainer-title" className="text-xl font-semibold">
+            Your browser is about to ask
+          </h2>
+        </div>
+
+        <div className="space-y-3 text-sm text-gray-700">
+          <p>
+            This request goes to a device on your local network, so the browser will ask whether
+            this site may access devices on your local network.
+          </p>
+          <ul className="list-disc pl-5 space-y-1">
+            <li>
+              <strong>Allow</strong> lets this and later requests through.
+            </li>
+            <li>
+              <strong>Block</strong> fails every local request until you reset the permission in
+              site settings.
+            </li>
+            <li>
+              Closing the prompt without choosing fails only this request; the browser asks again
+              next time.
+            </li>
+          </ul>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm mt-4">
+          <input
+            type="checkbox"
+            checked={dontExplainAgain}
+            onChange={(e) => setDontExplainAgain(e.target.checked)}
+            data-testid="permission-explainer-skip"
+          />
+          Don&apos;t explain again
+        </label>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <Button variant="secondary" onClick={onCancel} data-testid="permission-explainer-cancel">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(dontExplainAgain)}
+            autoFocus
+            data-testid="permission-explainer-continue"
+          >
+            Continue
+          </Button>
+        </div>
+      </Card>
+    </div>
+  )
+}
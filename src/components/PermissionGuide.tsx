@@ -0,0 +1,117 @@
+import type { LNAPermissionStatus, PermissionGuidePhase } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { getResetInstructions } from '@/lib/permission-guide'
+import { CheckCircle, RefreshCw, ShieldAlert, ShieldX } from 'lucide-react'
+
+interface PermissionGuideProps {
+  status: LNAPermissionStatus | null
+  phase: PermissionGuidePhase
+  onRecheck: () => void
+  onDismiss: () => void
+}
+
+export function PermissionGuide({ status, phase, onRecheck, onDismiss }: PermissionGuideProps) {
+  // Driven by the live state so resetting the permission in settings clears the card on return
+  const isBlocked = status?.state === 'denied'
+  const isDismissed = phase === 'dismissed' && status?.state === 'prompt'
+  const isGranted = phase === 'granted' && status?.state === 'granted'
+
+  if (phase === 'prompting') {
+    return (
+      <Card data-testid="permission-guide" data-phase="prompting">
+        <p className="text-sm text-gray-700">
+          Waiting for your answer to the browser&apos;s local network access prompt...
+        </p>
+      </Card>
+    )
+  }
+
+  if (isBlocked) {
+    const instructions = getResetInstructions(status?.browserSupport.browserInfo)
+    return (
+      <Card data-testid="permission-guide" data-phase="blocked">
+        <div className="flex items-center gap-2 mb-3">
+          <ShieldX className="w-5 h-5 text-red-600" />
+          <h2 className="text-xl font-semibold">Local Network Access Is Blocked</h2>
+        </div>
+        <p className="text-sm text-gray-700 mb-3">
+          {phase === 'blocked'
+            ? 'The prompt was answered with Block.'
+            : 'This site was blocked earlier.'}{' '}
+          Requests to local devices fail until the permission is reset. To reset it in{' '}
+          {instructions.browser}:
+        </p>
+        <ol className="list-decimal pl-5 text-sm space-y-1 mb-3" data-testid="reset-instructions">
+          {instructions.steps.map((step) => (
+            <li key={step}>{step}</li>
+          ))}
+        </ol>
+        {instructions.settingsUrl && (
+          <p className="text-xs text-gray-600 mb-3">
+            Or paste into the address bar:{' '}
+            <code className="bg-gray-50 rounded px-1 break-all" data-testid="reset-settings-url">
+              {instructions.settingsUrl}
+            </code>
+          </p>
+        )}
+        <Button
+          variant="secondary"
+          onClick={onRecheck}
+          data-testid="permission-recheck-button"
+          className="flex items-center gap-2 text-sm"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Check again
+        </Button>
+      </Card>
+    )
+  }
+
+  if (isDismissed) {
+    return (
+      <Card data-testid="permission-guide" data-phase="dismissed">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-2">
+            <ShieldAlert className="w-5 h-5 text-yellow-600 shrink-0" />
+            <p className="text-sm text-gray-700">
+              The prompt was closed without a choice, so the request was not sent. Nothing was
+              blocked: the browser asks again on the next request.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="text-xs text-gray-600 hover:underline"
+            data-testid="permission-guide-dismiss"
+          >
+            Dismiss
+          </button>
+        </div>
+      </Card>
+    )
+  }
+
+  if (isGranted) {
+    return (
+      <Card data-testid="permission-guide" data-phase="granted">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <p className="text-sm text-gray-700">Local network access was allowed at the prompt.</p>
+          </div>
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="text-xs text-gray-600 hover:underline"
+            data-testid="permission-guide-dismiss"
+          >
+            Dismiss
+          </button>
+        </div>
+      </Card>
+    )
+  }
+
+  return null
+}
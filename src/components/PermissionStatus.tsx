@@ -1,6 +1,10 @@
-import type { LNAPermissionStatus } from '@/types/lna'
+import { Link } from 'react-router-dom'
+import type { LNAPermissionStatus, PermissionTransition } from '@/types/lna'
 import { Card } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
+import { PermissionTimeline } from '@/components/PermissionTimeline'
+import { SupportStatusBadge } from '@/components/BrowserSupportTable'
+import { SUPPORT_TABLE } from '@/lib/browser-support'
 import { RefreshCw, CheckCircle, XCircle, AlertCircle } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -8,9 +12,15 @@ interface PermissionStatusProps {
   status: LNAPermissionStatus | null
   isLoading: boolean
   onRefresh: () => void
+  history?: PermissionTransition[]
 }
 
-export function PermissionStatus({ status, isLoading, onRefresh }: PermissionStatusProps) {
+export function PermissionStatus({
+  status,
+  isLoading,
+  onRefresh,
+  history = [],
+}: PermissionStatusProps) {
   if (isLoading) {
     return (
       <Card data-testid="permission-status-loading">
@@ -39,6 +49,8 @@ export function PermissionStatus({ status, isLoading, onRefresh }: PermissionSta
         return <XCircle className="text-red-600" />
       case 'prompt':
         return <AlertCircle className="text-yellow-600" />
+      case null:
+        return <AlertCircle className="text-gray-500" />
     }
   }
 
@@ -50,6 +62,8 @@ export function PermissionStatus({ status, isLoading, onRefresh }: PermissionSta
         return 'text-red-600'
       case 'prompt':
         return 'text-yellow-600'
+      case null:
+        return 'text-gray-500'
     }
   }
 
@@ -77,7 +91,7 @@ export function PermissionStatus({ status, isLoading, onRefresh }: PermissionSta
             className={cn('font-bold uppercase', getStateColor())}
             data-testid="permission-state"
           >
-            {state}
+            {state ?? 'unknown'}
           </span>
         </div>
 
@@ -130,9 +144,30 @@ export function PermissionStatus({ status, isLoading, onRefresh }: PermissionSta
                 {browserSupport.browserInfo.supportReason}
               </p>
             )}
+            {browserSupport.browserInfo.features && (
+              <ul className="text-sm mt-2 space-y-1" data-testid="browser-feature-support">
+                {browserSupport.browserInfo.features.map((support) => (
+                  <li
+                    key={support.feature}
+                    className="flex items-center gap-2"
+                    title={support.detail}
+                  >
+                    <SupportStatusBadge status={support.status} />
+                    <span className="font-mono text-xs">
+                      {SUPPORT_TABLE.features.find((f) => f.feature === support.feature)?.label}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Link to="/about" className="text-xs text-blue-600 hover:underline">
+              Full support table
+            </Link>
           </div>
         )}
 
+        <PermissionTimeline history={history} />
+
         {!browserSupport.isSupported && (
           <div className="mt-4 p-3 bg-orange-50 border border-orange-200 rounded">
             <p className="text-sm text-orange-800">
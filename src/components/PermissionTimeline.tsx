@@ -0,0 +1,58 @@
+import type { PermissionState, PermissionTransition } from '@/types/lna'
+import { cn, formatTime } from '@/lib/utils'
+
+const STATE_COLORS: Record<PermissionState, string> = {
+  granted: 'bg-green-600',
+  denied: 'bg-red-600',
+  prompt: 'bg-yellow-500',
+}
+
+const SOURCE_LABELS: Record<PermissionTransition['source'], string> = {
+  initial: 'initial query',
+  change: 'change event',
+  refresh: 'manual refresh',
+  recheck: 'returned to tab',
+}
+
+interface PermissionTimelineProps {
+  history: PermissionTransition[]
+}
+
+export function PermissionTimeline({ history }: PermissionTimelineProps) {
+  if (history.length === 0) {
+    return null
+  }
+
+  return (
+    <div data-testid="permission-timeline">
+      <span className="font-medium">State History:</span>
+      <ol className="mt-2 border-l-2 border-gray-200 ml-1 space-y-2">
+        {history.map((transition, index) => {
+          const previous = history[index - 1]
+          return (
+            <li
+              key={transition.timestamp + '-' + index}
+              className="relative pl-4 text-sm"
+              data-testid="permission-transition"
+            >
+              <span
+                className={cn(
+                  'absolute -left-[5px] top-1.5 w-2 h-2 rounded-full',
+                  STATE_COLORS[transition.to]
+                )}
+              />
+              <span className="font-mono text-gray-500">{formatTime(transition.timestamp)}</span>{' '}
+              <span className="font-medium uppercase">
+                {transition.from ? `${transition.from} → ${transition.to}` : transition.to}
+              </span>{' '}
+              <span className="text-gray-500">
+                ({SOURCE_LABELS[transition.source]}
+                {previous && `, +${transition.timestamp - previous.timestamp}ms`})
+              </span>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+import { useState } from 'react'
+import type { ExchangeLogConnection, HistoryEntry, ServerExchange } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Input'
+import { Button } from '@/components/ui/Button'
+import { DEFAULT_SCENARIO_SERVER } from '@/lib/scenarios'
+import { matchExchanges } from '@/lib/exchange-log'
+import { hostFromUrl } from '@/lib/device-registry'
+import { cn, formatTime } from '@/lib/utils'
+import { ChevronDown, ChevronRight, Plug, Trash2, Unplug } from 'lucide-react'
+
+const MAX_MATCHED_ENTRIES = 10
+
+const CONNECTION_LABELS: Record<ExchangeLogConnection, string> = {
+  disconnected: 'Not connected',
+  connecting: 'Connecting...',
+  connected: 'Live',
+  error: 'Connection lost',
+}
+
+interface PreflightInspectorProps {
+  entries: HistoryEntry[]
+  exchanges: ServerExchange[]
+  connection: ExchangeLogConnection
+  error: string | null
+  onConnect: (baseUrl: string) => void
+  onDisconnect: () => void
+  onClear: () => void
+}
+
+function isCorsHeader(key: string) {
+  return key.startsWith('access-control-') || key.startsWith('private-network-')
+}
+
+function ExchangeDetails({ exchange, label }: { exchange?: ServerExchange; label: string }) {
+  if (!exchange) {
+    return (
+      <div className="flex-1 min-w-0">
+        <div className="text-xs font-semibold text-gray-500 mb-1">{label}</div>
+        <p className="text-xs text-gray-400">Not observed by the server</p>
+      </div>
+    )
+  }
+
+  const requestHeaders = Object.entries(exchange.requestHeaders).filter(
+    ([key]) => key === 'origin' || isCorsHeader(key)
+  )
+  const responseHeaders = Object.entries(exchange.responseHeaders).filter(([key]) =>
+    isCorsHeader(key)
+  )
+
+  return (
+    <div className="flex-1 min-w-0 font-mono text-xs">
+      <div className="text-xs font-semibold text-gray-500 mb-1 font-sans">
+        {label}{' '}
+        <span className={cn(exchange.status >= 400 ? 'text-red-600' : 'text-green-700')}>
+          {exchange.method} → {exchange.status}
+        </span>{' '}
+        <span className="font-normal">at {formatTime(exchange.timestamp)}</span>
+      </div>
+      {requestHeaders.map(([key, value]) => (
+        <div key={`req-${key}`} className="break-all">
+          <span className="text-gray-500">&gt; {key}:</span> {value}
+        </div>
+      ))}
+      {responseHeaders.map(([key, value]) => (
+        <div key={`res-${key}`} className="break-all">
+          <span className="text-blue-600">&lt; {key}:</span> {value}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function PreflightInspector({
+  entries,
+  exchanges,
+  connection,
+  error,
+  onConnect,
+  onDisconnect,
+  onClear,
+}: PreflightInspectorProps) {
+  const [serverUrl, setServerUrl] = useState(DEFAULT_SCENARIO_SERVER)
+  const [showRaw, setShowRaw] = useState(false)
+
+  const serverHost = hostFromUrl(serverUrl)
+  const matched = entries
+    .map((entry) => ({ entry, match: matchExchanges(entry, exchanges) }))
+    .filter(
+      ({ entry, match }) =>
+        match.preflight || match.request || hostFromUrl(entry.url) === serverHost
+    )
+    .slice(0, MAX_MATCHED_ENTRIES)
+
+  const isActive = connection === 'connected' || connection === 'connecting'
+
+  return (
+    <Card data-testid="preflight-inspector">
+      <h2 className="text-xl font-semibold mb-4">Preflight Inspector</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Preflights never reach page JavaScript. Connect to the test server to see the OPTIONS and
+        actual requests it received for each fetch, with the headers it sent back.
+      </p>
+
+      <div className="flex gap-2 mb-2">
+        <Input
+          aria-label="Test server URL"
+          value={serverUrl}
+          onChange={(e) => setServerUrl(e.target.value)}
+          disabled={isActive}
+          data-testid="exchange-log-server-input"
+          className="text-sm"
+        />
+        {isActive ? (
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={onDisconnect}
+            data-testid="exchange-log-disconnect"
+            className="flex items-center gap-2 text-sm whitespace-nowrap"
+          >
+            <Unplug className="w-4 h-4" />
+            Disconnect
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => onConnect(serverUrl)}
+            data-testid="exchange-log-connect"
+            className="flex items-center gap-2 text-sm whitespace-nowrap"
+          >
+            <Plug className="w-4 h-4" />
+            Connect
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={onClear}
+          disabled={exchanges.length === 0}
+          data-testid="exchange-log-clear"
+          className="flex items-center gap-2 text-sm whitespace-nowrap"
+        >
+          <Trash2 className="w-4 h-4" />
+          Clear Log
+        </Button>
+      </div>
+
+      <p
+        className={cn('text-xs mb-4', connection === 'error' ? 'text-red-600' : 'text-gray-500')}
+        data-testid="exchange-log-status"
+      >
+        {CONNECTION_LABELS[connection]}
+        {error && `: ${error}. Is \`npm run test-server\` running?`} • {exchanges.length} exchanges
+        recorded
+      </p>
+
+      {matched.length > 0 && (
+        <ul className="space-y-3">
+          {matched.map(({ entry, match }) => (
+            <li
+              key={entry.id}
+              className="border border-gray-200 rounded p-3"
+              data-testid="preflight-match"
+            >
+              <div className="text-sm font-mono mb-2 break-all">
+                <span className="text-gray-500">{formatTime(entry.startedAt)}</span>{' '}
+                {entry.options.method ?? 'GET'} {entry.url}{' '}
+                <span
+                  className={cn(
+                    entry.response.status === 'success' ? 'text-green-700' : 'text-red-600'
+                  )}
+                >
+                  {entry.response.error?.category ?? entry.response.status}
+                </span>
+              </div>
+              <div className="flex flex-col md:flex-row gap-4">
+                <ExchangeDetails exchange={match.preflight} label="Preflight" />
+                <ExchangeDetails exchange={match.request} label="Request" />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {exchanges.length > 0 && (
+        <div className="mt-4">
+          <button
+            type="button"
+            onClick={() => setShowRaw(!showRaw)}
+            className="flex items-center gap-2 text-sm font-medium"
+            data-testid="exchange-log-raw-toggle"
+          >
+            {showRaw ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            Raw server log
+          </button>
+          {showRaw && (
+            <ul className="mt-2 font-mono text-xs space-y-1" data-testid="exchange-log-raw">
+              {exchanges
+                .slice()
+                .reverse()
+                .map((exchange) => (
+                  <li key={exchange.id} className="break-all">
+                    <span className="text-gray-500">{formatTime(exchange.timestamp)}</span> [
+                    {exchange.scheme}] {exchange.method} {exchange.host}
+                    {exchange.url} → {exchange.status}
+                    {exchange.preflight && (
+                      <span className="text-blue-600">
+                        {' '}
+                        preflight for {exchange.requestMethod}
+                        {exchange.requestPrivateNetwork && ', private network'}
+                      </span>
+                    )}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -1,162 +1,583 @@
-import { useState, type FormEvent } from 'react'
-import type { TargetAddressSpace } from '@/types/lna'
+import { useEffect, useMemo, useState, type FormEvent } from 'react'
+import type {
+  BodyMode,
+  HttpMethod,
+  KeyValueRow,
+  MatrixMode,
+  RequestDraft,
+  RequestOptions,
+  RequestPreset,
+  RequestTransport,
+  StreamTransport,
+  SubresourceKind,
+  TargetAddressSpace,
+} from '@/types/lna'
 import { Card } from '@/components/ui/Card'
 import { Input } from '@/components/ui/Input'
 import { Button } from '@/components/ui/Button'
-import { Send, Trash2 } from 'lucide-react'
+import { Select } from '@/components/ui/Select'
+import { Textarea } from '@/components/ui/Textarea'
+import { KeyValueEditor } from '@/components/KeyValueEditor'
+import { ScenarioPicker } from '@/components/ScenarioPicker'
+import { ShareLinkButton } from '@/components/ShareLinkButton'
+import {
+  HTTP_METHODS,
+  draftToRequestOptions,
+  methodAllowsBody,
+  presetToDraft,
+  validateJsonBody,
+} from '@/lib/request-builder'
+import { TARGET_ADDRESS_SPACES, classifyAddressSpace } from '@/lib/address-space'
+import { parseEventNames, toTransportUrl } from '@/lib/stream-connections'
+import { SUBRESOURCE_KINDS } from '@/lib/subresource-probes'
+import { Cpu, Grid3x3, Lock, Plug, Send, Trash2, XCircle } from 'lucide-react'
+
+const TRANSPORTS: { value: RequestTransport; label: string }[] = [
+  { value: 'http', label: 'HTTP (fetch)' },
+  { value: 'websocket', label: 'WebSocket' },
+  { value: 'eventsource', label: 'EventSource' },
+]
+
+const BODY_MODES: { value: BodyMode; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'raw', label: 'Raw' },
+  { value: 'json', label: 'JSON' },
+  { value: 'form', label: 'Form URL-encoded' },
+]
+
+const ADDRESS_SPACE_LABELS: Record<TargetAddressSpace, string> = {
+  loopback: 'Loopback',
+  local: 'Local',
+  private: 'Private',
+  public: 'Public',
+  unknown: 'Unknown',
+  none: 'None',
+}
 
 interface RequestFormProps {
-  onSubmit: (url: string, targetAddressSpace: TargetAddressSpace) => void
+  onSubmit: (url: string, targetAddressSpace: TargetAddressSpace, options: RequestOptions) => void
+  onRunMatrix: (url: string, options: RequestOptions, mode: MatrixMode) => void
+  onCompareSchemes: (
+    url: string,
+    targetAddressSpace: TargetAddressSpace,
+    options: RequestOptions
+  ) => void
+  onCompareContexts: (
+    url: string,
+    targetAddressSpace: TargetAddressSpace,
+    options: RequestOptions
+  ) => void
+  onConnect: (transport: StreamTransport, url: string, eventNames: string[]) => void
+  onProbe: (url: string, kinds: SubresourceKind[], timeoutMs?: number) => void
   onClear: () => void
   isLoading: boolean
   hasResponse: boolean
+  onCancel: () => void
+  canCancel: boolean
+  preset?: RequestPreset
+  // Takes precedence over preset; used to restore a form from a share link
+  draft?: RequestDraft
+  onDraftChange?: (draft: RequestDraft) => void
 }
 
-export function RequestForm({ onSubmit, onClear, isLoading, hasResponse }: RequestFormProps) {
-  const [url, setUrl] = useState('')
-  const [addressSpace, setAddressSpace] = useState<TargetAddressSpace>('local')
+export function RequestForm({
+  onSubmit,
+  onRunMatrix,
+  onCompareSchemes,
+  onCompareContexts,
+  onConnect,
+  onProbe,
+  onClear,
+  isLoading,
+  hasResponse,
+  onCancel,
+  canCancel,
+  preset,
+  draft: initialDraft,
+  onDraftChange,
+}: RequestFormProps) {
+  const [initial] = useState(() => initialDraft ?? presetToDraft(preset))
+  const [url, setUrl] = useState(initial.url)
+  const [addressSpace, setAddressSpace] = useState<TargetAddressSpace>(initial.targetAddressSpace)
+  const [method, setMethod] = useState<HttpMethod>(initial.method)
+  const [headerRows, setHeaderRows] = useState<KeyValueRow[]>(initial.headerRows)
+  const [bodyMode, setBodyMode] = useState<BodyMode>(initial.bodyMode)
+  const [bodyText, setBodyText] = useState(initial.bodyText)
+  const [formRows, setFormRows] = useState<KeyValueRow[]>(initial.formRows)
+  const [matrixMode, setMatrixMode] = useState<MatrixMode>('sequential')
+  const [autoSelect, setAutoSelect] = useState(!initialDraft && !preset?.targetAddressSpace)
+  const [timeoutSeconds, setTimeoutSeconds] = useState(initial.timeoutSeconds)
+  const [transport, setTransport] = useState<RequestTransport>('http')
+  const [eventNames, setEventNames] = useState('tick, done')
+  const [probeKinds, setProbeKinds] = useState<SubresourceKind[]>([])
+
+  const classification = classifyAddressSpace(url)
+  // 'unknown' and 'none' defer to the browser, and DNS names cannot be classified up front
+  const mismatch =
+    !!classification &&
+    classification.targetAddressSpace !== 'unknown' &&
+    addressSpace !== 'unknown' &&
+    addressSpace !== 'none' &&
+    classification.targetAddressSpace !== addressSpace
+
+  const handleUrlChange = (value: string) => {
+    setUrl(value)
+    const detected = classifyAddressSpace(value)
+    if (autoSelect && detected && detected.targetAddressSpace !== 'unknown') {
+      setAddressSpace(detected.targetAddressSpace)
+    }
+  }
+
+  const handleTransportChange = (next: RequestTransport) => {
+    setTransport(next)
+    setUrl(toTransportUrl(url, next))
+  }
+
+  const toggleProbeKind = (kind: SubresourceKind, enabled: boolean) => {
+    setProbeKinds((prev) => (enabled ? [...prev, kind] : prev.filter((k) => k !== kind)))
+  }
+
+  const handleAddressSpaceChange = (space: TargetAddressSpace) => {
+    setAddressSpace(space)
+    setAutoSelect(false)
+  }
+
+  const handleAutoSelectChange = (enabled: boolean) => {
+    setAutoSelect(enabled)
+    if (enabled && classification && classification.targetAddressSpace !== 'unknown') {
+      setAddressSpace(classification.targetAddressSpace)
+    }
+  }
+
+  const hasBody = methodAllowsBody(method)
+  const jsonError = hasBody && bodyMode === 'json' ? validateJsonBody(bodyText) : undefined
+
+  const timeoutMs = Math.round(parseFloat(timeoutSeconds) * 1000)
+  const canSend = !!url.trim() && !jsonError
+
+  const draft = useMemo<RequestDraft>(
+    () => ({
+      url,
+      targetAddressSpace: addressSpace,
+      method,
+      headerRows,
+      bodyMode,
+      bodyText,
+      formRows,
+      timeoutSeconds,
+    }),
+    [url, addressSpace, method, headerRows, bodyMode, bodyText, formRows, timeoutSeconds]
+  )
+
+  const buildOptions = (): RequestOptions => draftToRequestOptions(draft)
+
+  useEffect(() => {
+    onDraftChange?.(draft)
+  }, [onDraftChange, draft])
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault()
-    if (url.trim()) {
-      onSubmit(url.trim(), addressSpace)
+    if (transport !== 'http') {
+      if (url.trim()) {
+        onConnect(transport, url.trim(), parseEventNames(eventNames))
+      }
+    } else if (canSend) {
+      // Probes first: window.open needs the user activation of this submit
+      if (probeKinds.length > 0) {
+        onProbe(url.trim(), probeKinds, timeoutMs > 0 ? timeoutMs : undefined)
+      }
+      onSubmit(url.trim(), addressSpace, buildOptions())
+    }
+  }
+
+  const handleRunMatrix = () => {
+    if (canSend) {
+      onRunMatrix(url.trim(), buildOptions(), matrixMode)
+    }
+  }
+
+  const handleCompareContexts = () => {
+    if (canSend) {
+      onCompareContexts(url.trim(), addressSpace, buildOptions())
+    }
+  }
+
+  const handleCompareSchemes = () => {
+    if (canSend) {
+      onCompareSchemes(url.trim(), addressSpace, buildOptions())
     }
   }
 
   return (
     <Card data-testid="request-form">
-      <h2 className="text-xl font-semibold mb-4">Make Local Network Request</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Make Local Network Request</h2>
+        {transport === 'http' && <ShareLinkButton draft={draft} />}
+      </div>
 
       <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
-          <label htmlFor="url-input" className="block text-sm font-medium mb-2">
-            Server URL
-          </label>
-          <Input
-            id="url-input"
-            type="text"
-            placeholder="http://192.168.1.100:8080/api/data"
-            value={url}
-            onChange={(e) => setUrl(e.target.value)}
-            disabled={isLoading}
-            data-testid="url-input"
-          />
-        </div>
-
-        <div>
-          <label className="block text-sm font-medium mb-2">Target Address Space</label>
-          <div className="grid grid-cols-3 gap-4">
-            <label className="flex items-center">
+        <div className="flex gap-4" role="radiogroup" aria-label="Transport">
+          {TRANSPORTS.map((option) => (
+            <label key={option.value} className="flex items-center text-sm">
               <input
                 type="radio"
-                name="addressSpace"
-                value="loopback"
-                checked={addressSpace === 'loopback'}
-                onChange={() => setAddressSpace('loopback')}
+                name="transport"
+                value={option.value}
+                checked={transport === option.value}
+                onChange={() => handleTransportChange(option.value)}
                 disabled={isLoading}
-                data-testid="address-space-loopback"
+                data-testid={`transport-${option.value}`}
                 className="mr-2"
               />
-              Loopback
+              {option.label}
             </label>
-            <label className="flex items-center">
-              <input
-                type="radio"
-                name="addressSpace"
-                value="local"
-                checked={addressSpace === 'local'}
-                onChange={() => setAddressSpace('local')}
-                disabled={isLoading}
-                data-testid="address-space-local"
-                className="mr-2"
-              />
-              Local
-            </label>
-            <label className="flex items-center">
-              <input
-                type="radio"
-                name="addressSpace"
-                value="private"
-                checked={addressSpace === 'private'}
-                onChange={() => setAddressSpace('private')}
-                disabled={isLoading}
-                data-testid="address-space-private"
-                className="mr-2"
-              />
-              Private
-            </label>
-            <label className="flex items-center">
-              <input
-                type="radio"
-                name="addressSpace"
-                value="public"
-                checked={addressSpace === 'public'}
-                onChange={() => setAddressSpace('public')}
+          ))}
+        </div>
+
+        <div>
+          <label htmlFor="url-input" className="block text-sm font-medium mb-2">
+            Server URL
+          </label>
+          <div className="flex gap-2">
+            {transport === 'http' && (
+              <Select
+                aria-label="HTTP method"
+                value={method}
+                onChange={(e) => setMethod(e.target.value as HttpMethod)}
                 disabled={isLoading}
-                data-testid="address-space-public"
-                className="mr-2"
-              />
-              Public
-            </label>
-            <label className="flex items-center">
-              <input
-                type="radio"
-                name="addressSpace"
-                value="unknown"
-                checked={addressSpace === 'unknown'}
-                onChange={() => setAddressSpace('unknown')}
+                data-testid="method-select"
+                className="font-mono"
+              >
+                {HTTP_METHODS.map((m) => (
+                  <option key={m} value={m}>
+                    {m}
+                  </option>
+                ))}
+              </Select>
+            )}
+            <Input
+              id="url-input"
+              type="text"
+              placeholder="http://192.168.1.100:8080/api/data"
+              value={url}
+              onChange={(e) => handleUrlChange(e.target.value)}
+              disabled={isLoading}
+              data-testid="url-input"
+            />
+          </div>
+        </div>
+
+        {transport === 'http' ? (
+          <>
+            <ScenarioPicker onSelect={handleUrlChange} disabled={isLoading} />
+
+            <div>
+              <label htmlFor="timeout-input" className="block text-sm font-medium mb-2">
+                Timeout (seconds)
+              </label>
+              <Input
+                id="timeout-input"
+                type="number"
+                min="0"
+                step="0.5"
+                placeholder="No timeout"
+                value={timeoutSeconds}
+                onChange={(e) => setTimeoutSeconds(e.target.value)}
                 disabled={isLoading}
-                data-testid="address-space-unknown"
-                className="mr-2"
+                data-testid="timeout-input"
+                className="w-40"
               />
-              Unknown
-            </label>
-            <label className="flex items-center">
-              <input
-                type="radio"
-                name="addressSpace"
-                value="none"
-                checked={addressSpace === 'none'}
-                onChange={() => setAddressSpace('none')}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Request Headers</label>
+              <KeyValueEditor
+                rows={headerRows}
+                onChange={setHeaderRows}
                 disabled={isLoading}
-                data-testid="address-space-none"
-                className="mr-2"
+                keyPlaceholder="Header"
+                addLabel="Add Header"
+                testIdPrefix="header"
               />
-              None
-            </label>
+              <p className="text-xs text-gray-500 mt-1">
+                Non-safelisted headers (e.g. X-Custom, Authorization) force a CORS preflight
+              </p>
+            </div>
+
+            {hasBody && (
+              <div>
+                <label className="block text-sm font-medium mb-2">Request Body</label>
+                <div className="flex gap-4 mb-2">
+                  {BODY_MODES.map((mode) => (
+                    <label key={mode.value} className="flex items-center text-sm">
+                      <input
+                        type="radio"
+                        name="bodyMode"
+                        value={mode.value}
+                        checked={bodyMode === mode.value}
+                        onChange={() => setBodyMode(mode.value)}
+                        disabled={isLoading}
+                        data-testid={`body-mode-${mode.value}`}
+                        className="mr-2"
+                      />
+                      {mode.label}
+                    </label>
+                  ))}
+                </div>
+
+                {(bodyMode === 'raw' || bodyMode === 'json') && (
+                  <Textarea
+                    rows={6}
+                    placeholder={bodyMode === 'json' ? '{"key": "value"}' : 'Request body'}
+                    value={bodyText}
+                    onChange={(e) => setBodyText(e.target.value)}
+                    disabled={isLoading}
+                    data-testid="body-input"
+                  />
+                )}
+
+                {bodyMode === 'form' && (
+                  <KeyValueEditor
+                    rows={formRows}
+                    onChange={setFormRows}
+                    disabled={isLoading}
+                    keyPlaceholder="Field"
+                    addLabel="Add Field"
+                    testIdPrefix="form-field"
+                  />
+                )}
+
+                {jsonError && (
+                  <p className="text-xs text-red-600 mt-1" data-testid="body-json-error">
+                    Invalid JSON: {jsonError}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Also Load As</label>
+              <div className="grid grid-cols-3 gap-2">
+                {SUBRESOURCE_KINDS.map(({ kind, label }) => (
+                  <label key={kind} className="flex items-center text-sm">
+                    <input
+                      type="checkbox"
+                      checked={probeKinds.includes(kind)}
+                      onChange={(e) => toggleProbeKind(kind, e.target.checked)}
+                      disabled={isLoading}
+                      data-testid={`probe-kind-${kind}`}
+                      className="mr-2"
+                    />
+                    <span className="font-mono">{label}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Loads the URL as elements and navigations alongside the fetch. These cannot set
+                targetAddressSpace, and &lt;script&gt; runs whatever the server returns.
+              </p>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium">Target Address Space</label>
+                <label className="flex items-center text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={autoSelect}
+                    onChange={(e) => handleAutoSelectChange(e.target.checked)}
+                    disabled={isLoading}
+                    data-testid="address-space-auto"
+                    className="mr-1"
+                  />
+                  Auto-select from URL
+                </label>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                {TARGET_ADDRESS_SPACES.map((space) => (
+                  <label key={space} className="flex items-center">
+                    <input
+                      type="radio"
+                      name="addressSpace"
+                      value={space}
+                      checked={addressSpace === space}
+                      onChange={() => handleAddressSpaceChange(space)}
+                      disabled={isLoading}
+                      data-testid={`address-space-${space}`}
+                      className="mr-2"
+                    />
+                    {ADDRESS_SPACE_LABELS[space]}
+                  </label>
+                ))}
+              </div>
+              {classification && (
+                <p className="text-xs text-gray-600 mt-2" data-testid="address-space-suggestion">
+                  <span className="font-mono">{classification.host}</span> looks like{' '}
+                  <strong>{classification.targetAddressSpace}</strong> ({classification.reason})
+                  {classification.targetAddressSpace !== addressSpace && (
+                    <button
+                      type="button"
+                      onClick={() => setAddressSpace(classification.targetAddressSpace)}
+                      disabled={isLoading}
+                      data-testid="address-space-apply-suggestion"
+                      className="ml-2 text-blue-600 hover:underline"
+                    >
+                      Use {classification.targetAddressSpace}
+                    </button>
+                  )}
+                </p>
+              )}
+              {mismatch && (
+                <p
+                  className="text-xs text-orange-700 bg-orange-50 border border-orange-200 rounded p-2 mt-2"
+                  data-testid="address-space-mismatch"
+                >
+                  Selected &apos;{addressSpace}&apos; but the URL looks like &apos;
+                  {classification?.targetAddressSpace}&apos;. Chrome rejects requests whose
+                  targetAddressSpace does not match the resolved address.
+                </p>
+              )}
+              <p className="text-xs text-gray-500 mt-1">
+                Loopback: 127.0.0.1/localhost • Local: link-local addresses • Private: RFC1918
+                (10.x, 172.16.x, 192.168.x) • Public: internet • Unknown: let Chrome decide • None:
+                omit parameter
+              </p>
+            </div>
+          </>
+        ) : (
+          <div className="space-y-2">
+            {transport === 'eventsource' && (
+              <div>
+                <label htmlFor="event-names-input" className="block text-sm font-medium mb-2">
+                  Event names
+                </label>
+                <Input
+                  id="event-names-input"
+                  placeholder="tick, done"
+                  value={eventNames}
+                  onChange={(e) => setEventNames(e.target.value)}
+                  data-testid="event-names-input"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Unnamed events always arrive as &apos;message&apos;; list any named events to log
+                  them too
+                </p>
+              </div>
+            )}
+            <p className="text-xs text-gray-500" data-testid="stream-transport-note">
+              {transport === 'websocket'
+                ? 'The test server echoes messages at ws://localhost:8080/ws (add ?closeAfterMs=2000&closeCode=4000 to have it hang up).'
+                : 'The test server streams events at http://localhost:8080/sse (tune with ?interval=500&count=20).'}{' '}
+              {transport === 'websocket' ? 'WebSocket' : 'EventSource'} has no targetAddressSpace
+              option, so the browser classifies the address on its own.
+            </p>
           </div>
-          <p className="text-xs text-gray-500 mt-1">
-            Loopback: 127.0.0.1/localhost • Local: link-local addresses • Private: RFC1918 (10.x,
-            172.16.x, 192.168.x) • Public: internet • Unknown: let Chrome decide • None: omit
-            parameter
-          </p>
-        </div>
+        )}
+
+        {transport === 'http' ? (
+          <div className="flex gap-3">
+            <Button
+              type="submit"
+              disabled={isLoading || !canSend}
+              data-testid="send-button"
+              className="flex items-center gap-2"
+            >
+              <Send className="w-4 h-4" />
+              Send Request
+            </Button>
+
+            <div className="flex">
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={handleRunMatrix}
+                disabled={isLoading || !canSend}
+                data-testid="run-matrix-button"
+                className="flex items-center gap-2 rounded-r-none"
+                title="Send the same request once per target address space"
+              >
+                <Grid3x3 className="w-4 h-4" />
+                Run Matrix
+              </Button>
+              <Select
+                aria-label="Matrix mode"
+                value={matrixMode}
+                onChange={(e) => setMatrixMode(e.target.value as MatrixMode)}
+                disabled={isLoading}
+                data-testid="matrix-mode-select"
+                className="rounded-l-none border-l-0 bg-gray-100"
+              >
+                <option value="sequential">Sequential</option>
+                <option value="parallel">Parallel</option>
+              </Select>
+            </div>
 
-        <div className="flex gap-3">
-          <Button
-            type="submit"
-            disabled={isLoading || !url.trim()}
-            data-testid="send-button"
-            className="flex items-center gap-2"
-          >
-            <Send className="w-4 h-4" />
-            Send Request
-          </Button>
-
-          {hasResponse && (
             <Button
               type="button"
               variant="secondary"
-              onClick={onClear}
-              disabled={isLoading}
-              data-testid="clear-button"
+              onClick={handleCompareSchemes}
+              disabled={isLoading || !canSend}
+              data-testid="compare-schemes-button"
               className="flex items-center gap-2"
+              title="Send the same request over http:// and https:// to the same device"
             >
-              <Trash2 className="w-4 h-4" />
-              Clear Response
+              <Lock className="w-4 h-4" />
+              HTTP vs HTTPS
             </Button>
-          )}
-        </div>
+
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={handleCompareContexts}
+              disabled={isLoading || !canSend}
+              data-testid="compare-contexts-button"
+              className="flex items-center gap-2"
+              title="Run the permission query and request in the page and in each worker type"
+            >
+              <Cpu className="w-4 h-4" />
+              Workers
+            </Button>
+
+            {canCancel && (
+              <Button
+                type="button"
+                variant="danger"
+                onClick={onCancel}
+                data-testid="cancel-button"
+                className="flex items-center gap-2"
+              >
+                <XCircle className="w-4 h-4" />
+                Cancel
+              </Button>
+            )}
+
+            {hasResponse && (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={onClear}
+                disabled={isLoading}
+                data-testid="clear-button"
+                className="flex items-center gap-2"
+              >
+                <Trash2 className="w-4 h-4" />
+                Clear Response
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="flex gap-3">
+            <Button
+              type="submit"
+              disabled={!url.trim()}
+              data-testid="connect-button"
+              className="flex items-center gap-2"
+            >
+              <Plug className="w-4 h-4" />
+              Connect
+            </Button>
+          </div>
+        )}
       </form>
     </Card>
   )
@@ -0,0 +1,191 @@
+import { useState, type ReactNode } from 'react'
+import type { HistoryEntry } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { describeEntry } from '@/lib/request-history'
+import { cn, formatTime } from '@/lib/utils'
+import { Check, GitCompare, Pencil, RotateCcw, Star, Trash2 } from 'lucide-react'
+
+interface RequestHistoryProps {
+  entries: HistoryEntry[]
+  isLoading: boolean
+  onReplay: (entry: HistoryEntry) => void
+  onTogglePin: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onRemove: (id: string) => void
+  onClear: () => void
+  onCompare: (left: HistoryEntry, right: HistoryEntry) => void
+}
+
+export function RequestHistory({
+  entries,
+  isLoading,
+  onReplay,
+  onTogglePin,
+  onRename,
+  onRemove,
+  onClear,
+  onCompare,
+}: RequestHistoryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  if (entries.length === 0) {
+    return null
+  }
+
+  const sorted = [...entries.filter((e) => e.pinned), ...entries.filter((e) => !e.pinned)]
+  const selected = selectedIds
+    .map((id) => entries.find((entry) => entry.id === id))
+    .filter((entry): entry is HistoryEntry => entry !== undefined)
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id].slice(-2)
+    )
+  }
+
+  const startRename = (entry: HistoryEntry) => {
+    setEditingId(entry.id)
+    setDraftName(entry.name ?? '')
+  }
+
+  const commitRename = (id: string) => {
+    onRename(id, draftName)
+    setEditingId(null)
+  }
+
+  return (
+    <Card data-testid="request-history">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Request History</h2>
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => onCompare(selected[0], selected[1])}
+            disabled={selected.length !== 2}
+            data-testid="compare-button"
+            className="flex items-center gap-2"
+          >
+            <GitCompare className="w-4 h-4" />
+            Compare
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={onClear}
+            data-testid="clear-history-button"
+            className="flex items-center gap-2"
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear Unpinned
+          </Button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {sorted.map((entry) => (
+          <li key={entry.id} className="py-2 flex items-center gap-3" data-testid="history-entry">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(entry.id)}
+              onChange={() => toggleSelected(entry.id)}
+              aria-label="Select for comparison"
+              data-testid="history-select"
+            />
+
+            <div className="flex-1 min-w-0">
+              {editingId === entry.id ? (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    commitRename(entry.id)
+                  }}
+                  className="flex gap-2"
+                >
+                  <Input
+                    autoFocus
+                    value={draftName}
+                    placeholder={describeEntry({ ...entry, name: undefined })}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    data-testid="history-rename-input"
+                    className="py-1 text-sm"
+                  />
+                  <Button type="submit" variant="secondary" className="py-1" aria-label="Save">
+                    <Check className="w-4 h-4" />
+                  </Button>
+                </form>
+              ) : (
+                <div className="truncate font-mono text-sm" title={entry.url}>
+                  {describeEntry(entry)}
+                </div>
+              )}
+              <div className="text-xs text-gray-500">
+                {formatTime(entry.startedAt)} • {entry.targetAddressSpace} • {entry.durationMs}ms •
+                permission: {entry.permissionState ?? 'unknown'} •{' '}
+                <span
+                  className={
+                    entry.response.status === 'success' ? 'text-green-600' : 'text-red-600'
+                  }
+                >
+                  {entry.response.status}
+                </span>
+              </div>
+            </div>
+
+            <div className="flex gap-1">
+              <IconButton
+                label="Replay"
+                onClick={() => onReplay(entry)}
+                disabled={isLoading}
+                testId="history-replay"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </IconButton>
+              <IconButton
+                label={entry.pinned ? 'Unpin' : 'Pin'}
+                onClick={() => onTogglePin(entry.id)}
+                testId="history-pin"
+              >
+                <Star
+                  className={cn('w-4 h-4', entry.pinned && 'fill-yellow-400 text-yellow-500')}
+                />
+              </IconButton>
+              <IconButton label="Rename" onClick={() => startRename(entry)} testId="history-rename">
+                <Pencil className="w-4 h-4" />
+              </IconButton>
+              <IconButton label="Delete" onClick={() => onRemove(entry.id)} testId="history-delete">
+                <Trash2 className="w-4 h-4" />
+              </IconButton>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  )
+}
+
+interface IconButtonProps {
+  label: string
+  onClick: () => void
+  disabled?: boolean
+  testId: string
+  children: ReactNode
+}
+
+function IconButton({ label, onClick, disabled, testId, children }: IconButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      title={label}
+      aria-label={label}
+      data-testid={testId}
+      className="p-2 rounded text-gray-500 hover:text-gray-900 hover:bg-gray-100 disabled:opacity-50"
+    >
+      {children}
+    </button>
+  )
+}
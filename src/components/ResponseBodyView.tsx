@@ -0,0 +1,126 @@
+import { useState } from 'react'
+import type { ResponseBody } from '@/types/lna'
+import { JsonTree } from '@/components/JsonTree'
+import { base64ToBytes, hexDump } from '@/lib/response-body'
+import { cn } from '@/lib/utils'
+
+type BodyTab = 'pretty' | 'raw' | 'hex' | 'preview'
+
+const HEX_DUMP_LIMIT = 4096
+
+const TAB_LABELS: Record<BodyTab, string> = {
+  pretty: 'Pretty',
+  raw: 'Raw',
+  hex: 'Hex',
+  preview: 'Preview',
+}
+
+interface ResponseBodyViewProps {
+  body: ResponseBody
+  data: unknown
+}
+
+function availableTabs(body: ResponseBody): BodyTab[] {
+  switch (body.kind) {
+    case 'json':
+      return ['pretty', 'raw', 'hex']
+    case 'image':
+      return ['preview', 'hex']
+    case 'binary':
+      return ['hex']
+    case 'text':
+      return body.contentType.startsWith('image/') ? ['preview', 'raw', 'hex'] : ['raw', 'hex']
+    case 'empty':
+      return ['raw']
+  }
+}
+
+function bodyBytes(body: ResponseBody): Uint8Array {
+  if (body.base64 !== undefined) {
+    return base64ToBytes(body.base64)
+  }
+  return new TextEncoder().encode(body.text ?? '')
+}
+
+function previewSrc(body: ResponseBody): string {
+  if (body.base64 !== undefined) {
+    return `data:${body.contentType};base64,${body.base64}`
+  }
+  return `data:${body.contentType},${encodeURIComponent(body.text ?? '')}`
+}
+
+export function ResponseBodyView({ body, data }: ResponseBodyViewProps) {
+  const tabs = availableTabs(body)
+  const [selectedTab, setSelectedTab] = useState<BodyTab>(tabs[0])
+  const tab = tabs.includes(selectedTab) ? selectedTab : tabs[0]
+
+  if (body.stripped) {
+    return (
+      <p className="text-sm text-gray-500" data-testid="response-body-stripped">
+        {body.contentType || 'no content-type'} • {body.size} bytes. The body was too large to keep
+        in saved history; send the request again to see it.
+      </p>
+    )
+  }
+
+  return (
+    <div data-testid="response-body">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex gap-1" role="tablist">
+          {tabs.map((t) => (
+            <button
+              key={t}
+              type="button"
+              role="tab"
+              aria-selected={tab === t}
+              onClick={() => setSelectedTab(t)}
+              data-testid={`body-tab-${t}`}
+              className={cn(
+                'px-3 py-1 text-sm rounded',
+                tab === t ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'
+              )}
+            >
+              {TAB_LABELS[t]}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-500 font-mono">
+          {body.contentType || 'no content-type'} • {body.size} bytes
+        </span>
+      </div>
+
+      <div className="bg-gray-50 border border-gray-200 rounded p-4 text-sm overflow-x-auto">
+        {tab === 'pretty' && (
+          <div className="font-mono" data-testid="body-pretty">
+            <JsonTree value={data} />
+          </div>
+        )}
+        {tab === 'raw' && (
+          <pre className="whitespace-pre-wrap break-words" data-testid="body-raw">
+            {body.kind === 'empty' ? '(empty body)' : body.text}
+          </pre>
+        )}
+        {tab === 'hex' && (
+          <>
+            <pre className="font-mono text-xs" data-testid="body-hex">
+              {hexDump(bodyBytes(body), HEX_DUMP_LIMIT)}
+            </pre>
+            {body.size > HEX_DUMP_LIMIT && (
+              <p className="text-xs text-gray-500 mt-2">
+                Showing first {HEX_DUMP_LIMIT} of {body.size} bytes
+              </p>
+            )}
+          </>
+        )}
+        {tab === 'preview' && (
+          <img
+            src={previewSrc(body)}
+            alt="Response preview"
+            className="max-w-full max-h-96"
+            data-testid="body-preview"
+          />
+        )}
+      </div>
+    </div>
+  )
+}
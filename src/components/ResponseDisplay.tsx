@@ -1,13 +1,93 @@
-import type { FetchResponse } from '@/types/lna'
+import type { FetchResponse, SubresourceProbeResult } from '@/types/lna'
 import { Card } from '@/components/ui/Card'
+import { TimingBreakdown } from '@/components/TimingBreakdown'
+import { ResponseBodyView } from '@/components/ResponseBodyView'
+import { SubresourceProbeResults } from '@/components/SubresourceProbeResults'
+import { FETCH_ERROR_EXPLANATIONS } from '@/lib/fetch-errors'
+import { isLnaHeader } from '@/lib/response-body'
+import { cn } from '@/lib/utils'
 import { CheckCircle, XCircle, Loader2 } from 'lucide-react'
 
 interface ResponseDisplayProps {
   response: FetchResponse
+  probes?: SubresourceProbeResult[]
 }
 
-export function ResponseDisplay({ response }: ResponseDisplayProps) {
-  if (response.status === 'idle') {
+// Status line, exposed headers and body; HTTP errors carry them too
+function ResponseDetails({ response }: { response: FetchResponse }) {
+  return (
+    <>
+      {response.meta && (
+        <div className="mb-4 text-sm space-y-1" data-testid="response-meta">
+          <div className="font-mono">
+            <span className="font-semibold" data-testid="response-status-code">
+              {response.meta.status}
+            </span>{' '}
+            {response.meta.statusText}
+          </div>
+          <div>
+            <span className="font-medium">Final URL: </span>
+            <span className="font-mono break-all">{response.meta.url}</span>
+            {response.meta.redirected && (
+              <span className="ml-2 text-xs bg-yellow-100 text-yellow-800 rounded px-2 py-0.5">
+                redirected
+              </span>
+            )}
+          </div>
+          <div>
+            <span className="font-medium">Response Type: </span>
+            <span className="font-mono">{response.meta.type}</span>
+          </div>
+        </div>
+      )}
+
+      {response.headers && Object.keys(response.headers).length > 0 && (
+        <div className="mb-4">
+          <h3 className="font-medium mb-2">Exposed Headers:</h3>
+          <div className="bg-gray-50 border border-gray-200 rounded p-4 space-y-1">
+            {Object.entries(response.headers).map(([key, value]) => (
+              <div
+                key={key}
+                className={cn(
+                  'text-sm font-mono',
+                  isLnaHeader(key) && 'bg-blue-50 -mx-2 px-2 rounded'
+                )}
+                data-testid={isLnaHeader(key) ? 'lna-header' : 'response-header'}
+              >
+                <span
+                  className={isLnaHeader(key) ? 'text-blue-600 font-semibold' : 'text-gray-600'}
+                >
+                  {key}:
+                </span>{' '}
+                {value}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            LNA/CORS headers are highlighted. Cross-origin responses only expose headers listed in
+            Access-Control-Expose-Headers.
+          </p>
+        </div>
+      )}
+
+      {response.body ? (
+        <ResponseBodyView body={response.body} data={response.data} />
+      ) : (
+        <div>
+          <h3 className="font-medium mb-2">Response Data:</h3>
+          <pre className="bg-gray-50 border border-gray-200 rounded p-4 text-sm overflow-x-auto">
+            {typeof response.data === 'string'
+              ? response.data
+              : JSON.stringify(response.data, null, 2)}
+          </pre>
+        </div>
+      )}
+    </>
+  )
+}
+
+export function ResponseDisplay({ response, probes = [] }: ResponseDisplayProps) {
+  if (response.status === 'idle' && probes.length === 0) {
     return null
   }
 
@@ -22,15 +102,46 @@ export function ResponseDisplay({ response }: ResponseDisplayProps) {
         </div>
       )}
 
-      {response.status === 'error' && (
+      {response.timing && <TimingBreakdown timing={response.timing} />}
+
+      {response.status === 'error' && response.error && (
         <div data-testid="response-error">
           <div className="flex items-center gap-2 text-red-600 mb-3">
             <XCircle className="w-5 h-5" />
-            <span className="font-semibold">Error</span>
+            <span className="font-semibold" data-testid="error-title">
+              {FETCH_ERROR_EXPLANATIONS[response.error.category].title}
+            </span>
+            <span
+              className="text-xs font-mono bg-red-100 rounded px-2 py-0.5"
+              data-testid="error-category"
+            >
+              {response.error.category}
+            </span>
+            {response.error.confidence === 'low' && (
+              <span className="text-xs text-gray-500">(inferred)</span>
+            )}
           </div>
-          <pre className="bg-red-50 border border-red-200 rounded p-4 text-sm overflow-x-auto whitespace-pre-wrap break-words">
-            {response.error}
+          <pre className="bg-red-50 border border-red-200 rounded p-4 text-sm overflow-x-auto whitespace-pre-wrap break-words mb-3">
+            {response.error.name && `${response.error.name}: `}
+            {response.error.message}
           </pre>
+          <p className="text-sm text-gray-700 mb-2">
+            {FETCH_ERROR_EXPLANATIONS[response.error.category].explanation}
+          </p>
+          <h3 className="font-medium mb-1">How to fix:</h3>
+          <ul
+            className="text-sm text-gray-700 list-disc list-inside space-y-1"
+            data-testid="error-remediation"
+          >
+            {FETCH_ERROR_EXPLANATIONS[response.error.category].remediation.map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ul>
+          {response.meta && (
+            <div className="mt-4 pt-4 border-t border-gray-200">
+              <ResponseDetails response={response} />
+            </div>
+          )}
         </div>
       )}
 
@@ -41,27 +152,13 @@ export function ResponseDisplay({ response }: ResponseDisplayProps) {
             <span className="font-semibold">Success</span>
           </div>
 
-          {response.headers && Object.keys(response.headers).length > 0 && (
-            <div className="mb-4">
-              <h3 className="font-medium mb-2">LNA-Related Headers:</h3>
-              <div className="bg-gray-50 border border-gray-200 rounded p-4 space-y-1">
-                {Object.entries(response.headers).map(([key, value]) => (
-                  <div key={key} className="text-sm font-mono">
-                    <span className="text-blue-600">{key}:</span> {value}
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
+          <ResponseDetails response={response} />
+        </div>
+      )}
 
-          <div>
-            <h3 className="font-medium mb-2">Response Data:</h3>
-            <pre className="bg-gray-50 border border-gray-200 rounded p-4 text-sm overflow-x-auto">
-              {typeof response.data === 'string'
-                ? response.data
-                : JSON.stringify(response.data, null, 2)}
-            </pre>
-          </div>
+      {probes.length > 0 && (
+        <div className={cn(response.status !== 'idle' && 'mt-6 pt-4 border-t border-gray-200')}>
+          <SubresourceProbeResults probes={probes} />
         </div>
       )}
     </Card>
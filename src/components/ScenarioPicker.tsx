@@ -0,0 +1,236 @@
+import { useState } from 'react'
+import type { ScenarioOverrides, ServerScenario } from '@/types/lna'
+import { Input } from '@/components/ui/Input'
+import { Button } from '@/components/ui/Button'
+import { Select } from '@/components/ui/Select'
+import { DEFAULT_SCENARIO_SERVER, buildScenarioUrl, fetchScenarios } from '@/lib/scenarios'
+import { ChevronDown, ChevronRight, Download } from 'lucide-react'
+
+interface ScenarioPickerProps {
+  onSelect: (url: string) => void
+  disabled?: boolean
+}
+
+export function ScenarioPicker({ onSelect, disabled }: ScenarioPickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [serverUrl, setServerUrl] = useState(DEFAULT_SCENARIO_SERVER)
+  const [scenarios, setScenarios] = useState<ServerScenario[]>([])
+  const [selected, setSelected] = useState('ok')
+  const [overrides, setOverrides] = useState<ScenarioOverrides>({})
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [isFetching, setIsFetching] = useState(false)
+
+  const loadScenarios = async () => {
+    setIsFetching(true)
+    setLoadError(null)
+    try {
+      const list = await fetchScenarios(serverUrl)
+      setScenarios(list)
+      if (!list.some((s) => s.name === selected) && list.length > 0) {
+        setSelected(list[0].name)
+      }
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load scenarios')
+    } finally {
+      setIsFetching(false)
+    }
+  }
+
+  const setOverride = <K extends keyof ScenarioOverrides>(key: K, value: ScenarioOverrides[K]) => {
+    setOverrides((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const current = scenarios.find((s) => s.name === selected)
+  const previewUrl = buildScenarioUrl(serverUrl, selected, overrides)
+
+  return (
+    <div className="border border-gray-200 rounded-lg" data-testid="scenario-picker">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-4 py-2 text-sm font-medium"
+        data-testid="scenario-picker-toggle"
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        Test Server Scenarios
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex gap-2">
+            <Input
+              aria-label="Test server URL"
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              disabled={disabled}
+              data-testid="scenario-server-input"
+              className="text-sm"
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={loadScenarios}
+              disabled={disabled || isFetching}
+              data-testid="load-scenarios-button"
+              className="flex items-center gap-2 text-sm whitespace-nowrap"
+            >
+              <Download className="w-4 h-4" />
+              Load
+            </Button>
+          </div>
+
+          {loadError && (
+            <p className="text-xs text-red-600" data-testid="scenario-load-error">
+              {loadError}. Is `npm run test-server` running?
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <label className="col-span-2">
+              <span className="block text-xs text-gray-600 mb-1">Scenario</span>
+              {scenarios.length > 0 ? (
+                <Select
+                  value={selected}
+                  onChange={(e) => setSelected(e.target.value)}
+                  disabled={disabled}
+                  data-testid="scenario-select"
+                  className="w-full text-sm"
+                >
+                  {scenarios.map((s) => (
+                    <option key={s.name} value={s.name}>
+                      {s.name}
+                      {s.description ? ` — ${s.description}` : ''}
+                    </option>
+                  ))}
+                </Select>
+              ) : (
+                <Input
+                  value={selected}
+                  onChange={(e) => setSelected(e.target.value)}
+                  disabled={disabled}
+                  data-testid="scenario-name-input"
+                  className="text-sm"
+                />
+              )}
+            </label>
+
+            <label>
+              <span className="block text-xs text-gray-600 mb-1">Status</span>
+              <Input
+                type="number"
+                min="200"
+                max="599"
+                placeholder={String(current?.status ?? 200)}
+                value={overrides.status ?? ''}
+                onChange={(e) =>
+                  setOverride('status', e.target.value ? Number(e.target.value) : undefined)
+                }
+                disabled={disabled}
+                data-testid="scenario-status-input"
+                className="text-sm"
+              />
+            </label>
+
+            <label>
+              <span className="block text-xs text-gray-600 mb-1">Delay (ms)</span>
+              <Input
+                type="number"
+                min="0"
+                placeholder={String(current?.delayMs ?? 0)}
+                value={overrides.delayMs ?? ''}
+                onChange={(e) =>
+                  setOverride('delayMs', e.target.value ? Number(e.target.value) : undefined)
+                }
+                disabled={disabled}
+                data-testid="scenario-delay-input"
+                className="text-sm"
+              />
+            </label>
+
+            <label>
+              <span className="block text-xs text-gray-600 mb-1">
+                Access-Control-Allow-Private-Network
+              </span>
+              <Select
+                value={overrides.allowPrivateNetwork ?? ''}
+                onChange={(e) =>
+                  setOverride(
+                    'allowPrivateNetwork',
+                    (e.target.value || undefined) as ScenarioOverrides['allowPrivateNetwork']
+                  )
+                }
+                disabled={disabled}
+                data-testid="scenario-acapn-select"
+                className="w-full text-sm"
+              >
+                <option value="">Scenario default</option>
+                <option value="true">true</option>
+                <option value="false">false</option>
+                <option value="omit">omit</option>
+              </Select>
+            </label>
+
+            <label>
+              <span className="block text-xs text-gray-600 mb-1">Preflight</span>
+              <Select
+                value={overrides.preflight ?? ''}
+                onChange={(e) =>
+                  setOverride(
+                    'preflight',
+                    (e.target.value || undefined) as ScenarioOverrides['preflight']
+                  )
+                }
+                disabled={disabled}
+                data-testid="scenario-preflight-select"
+                className="w-full text-sm"
+              >
+                <option value="">Scenario default</option>
+                <option value="allow">allow</option>
+                <option value="reject">reject (403)</option>
+              </Select>
+            </label>
+
+            <label>
+              <span className="block text-xs text-gray-600 mb-1">Access-Control-Allow-Origin</span>
+              <Input
+                placeholder={current?.allowOrigin ?? '*, reflect, omit or an origin'}
+                value={overrides.allowOrigin ?? ''}
+                onChange={(e) => setOverride('allowOrigin', e.target.value || undefined)}
+                disabled={disabled}
+                data-testid="scenario-acao-input"
+                className="text-sm"
+              />
+            </label>
+
+            <label>
+              <span className="block text-xs text-gray-600 mb-1">Content-Type</span>
+              <Input
+                placeholder={current?.contentType ?? 'application/json'}
+                value={overrides.contentType ?? ''}
+                onChange={(e) => setOverride('contentType', e.target.value || undefined)}
+                disabled={disabled}
+                data-testid="scenario-content-type-input"
+                className="text-sm"
+              />
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs bg-gray-50 rounded px-2 py-1 break-all">
+              {previewUrl}
+            </code>
+            <Button
+              type="button"
+              onClick={() => onSelect(previewUrl)}
+              disabled={disabled || !selected}
+              data-testid="use-scenario-button"
+              className="text-sm py-1"
+            >
+              Use URL
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
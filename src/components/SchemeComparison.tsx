@@ -0,0 +1,203 @@
+import { useState, type FormEvent } from 'react'
+import type { SchemeComparisonRow, SchemePorts } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Input'
+import { Button } from '@/components/ui/Button'
+import { FETCH_ERROR_EXPLANATIONS } from '@/lib/fetch-errors'
+import { CheckCircle, Loader2, RotateCw, Trash2, XCircle } from 'lucide-react'
+
+interface SchemeComparisonProps {
+  rows: SchemeComparisonRow[]
+  ports: SchemePorts | null
+  isRunning: boolean
+  error: string | null
+  onRerun: (ports: SchemePorts) => void
+  onCancel: () => void
+  onClear: () => void
+}
+
+interface PortsFormProps {
+  ports: SchemePorts
+  isRunning: boolean
+  onRerun: (ports: SchemePorts) => void
+}
+
+function PortsForm({ ports, isRunning, onRerun }: PortsFormProps) {
+  const [httpPort, setHttpPort] = useState(String(ports.http))
+  const [httpsPort, setHttpsPort] = useState(String(ports.https))
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    const http = parseInt(httpPort, 10)
+    const https = parseInt(httpsPort, 10)
+    if (http > 0 && https > 0) {
+      onRerun({ http, https })
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-end gap-3 mb-4 text-sm">
+      <label>
+        <span className="block text-xs text-gray-600 mb-1">HTTP port</span>
+        <Input
+          type="number"
+          min="1"
+          max="65535"
+          value={httpPort}
+          onChange={(e) => setHttpPort(e.target.value)}
+          disabled={isRunning}
+          data-testid="scheme-http-port"
+          className="w-28 text-sm"
+        />
+      </label>
+      <label>
+        <span className="block text-xs text-gray-600 mb-1">HTTPS port</span>
+        <Input
+          type="number"
+          min="1"
+          max="65535"
+          value={httpsPort}
+          onChange={(e) => setHttpsPort(e.target.value)}
+          disabled={isRunning}
+          data-testid="scheme-https-port"
+          className="w-28 text-sm"
+        />
+      </label>
+      <Button
+        type="submit"
+        variant="secondary"
+        disabled={isRunning}
+        data-testid="scheme-rerun-button"
+        className="flex items-center gap-2 text-sm"
+      >
+        <RotateCw className="w-4 h-4" />
+        Re-run
+      </Button>
+    </form>
+  )
+}
+
+export function SchemeComparison({
+  rows,
+  ports,
+  isRunning,
+  error,
+  onRerun,
+  onCancel,
+  onClear,
+}: SchemeComparisonProps) {
+  if (rows.length === 0 && !error) {
+    return null
+  }
+
+  const httpsRow = rows.find((row) => row.scheme === 'https')
+
+  return (
+    <Card data-testid="scheme-comparison">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">HTTP vs HTTPS</h2>
+        {isRunning ? (
+          <Button
+            variant="danger"
+            onClick={onCancel}
+            data-testid="cancel-scheme-comparison-button"
+            className="flex items-center gap-2"
+          >
+            <XCircle className="w-4 h-4" />
+            Cancel
+          </Button>
+        ) : (
+          <Button
+            variant="secondary"
+            onClick={onClear}
+            data-testid="clear-scheme-comparison-button"
+            className="flex items-center gap-2"
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-4" data-testid="scheme-comparison-error">
+          {error}
+        </p>
+      )}
+
+      {ports && (
+        <PortsForm
+          key={`${ports.http}-${ports.https}`}
+          ports={ports}
+          isRunning={isRunning}
+          onRerun={onRerun}
+        />
+      )}
+
+      {rows.length > 0 && (
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-left border-b border-gray-200">
+              <th className="py-2 pr-4">URL</th>
+              <th className="py-2 pr-4">Result</th>
+              <th className="py-2 pr-4">HTTP Status</th>
+              <th className="py-2 pr-4">Latency</th>
+              <th className="py-2">Error</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.scheme}
+                className="border-b border-gray-100 align-top"
+                data-testid={`scheme-row-${row.scheme}`}
+              >
+                <td className="py-2 pr-4 font-mono break-all">{row.url}</td>
+                <td className="py-2 pr-4">
+                  <div className="flex items-center gap-2">
+                    {row.status === 'success' && <CheckCircle className="w-4 h-4 text-green-600" />}
+                    {row.status === 'error' && <XCircle className="w-4 h-4 text-red-600" />}
+                    {row.status === 'loading' && (
+                      <Loader2 className="w-4 h-4 text-gray-500 animate-spin" />
+                    )}
+                    <span>{row.status}</span>
+                  </div>
+                </td>
+                <td className="py-2 pr-4 font-mono">{row.httpStatus ?? '—'}</td>
+                <td className="py-2 pr-4 font-mono">
+                  {row.durationMs !== undefined ? `${row.durationMs}ms` : '—'}
+                </td>
+                <td className="py-2 text-red-600 break-words">
+                  {row.error && (
+                    <>
+                      <span className="font-mono">{row.error.category}</span>
+                      <div className="text-xs text-gray-600">
+                        {FETCH_ERROR_EXPLANATIONS[row.error.category].title}
+                      </div>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {httpsRow?.status === 'error' && (
+        <p className="text-xs text-gray-600 mt-3" data-testid="scheme-certificate-hint">
+          A self-signed certificate (such as the test server&apos;s) fails silently until it is
+          trusted. Open{' '}
+          <a
+            href={httpsRow.url}
+            target="_blank"
+            rel="noreferrer"
+            className="text-blue-600 hover:underline"
+          >
+            {httpsRow.url}
+          </a>{' '}
+          in a new tab, accept the certificate warning, then re-run.
+        </p>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,43 @@
+import { Link } from 'react-router-dom'
+import type { HistoryEntry, LNAPermissionStatus, PermissionTransition } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { REPORT_FORMATS, buildSessionReport, downloadReport } from '@/lib/session-report'
+import { Download } from 'lucide-react'
+
+interface SessionExportProps {
+  permission: LNAPermissionStatus | null
+  permissionHistory: PermissionTransition[]
+  entries: HistoryEntry[]
+}
+
+export function SessionExport({ permission, permissionHistory, entries }: SessionExportProps) {
+  return (
+    <Card data-testid="session-export">
+      <h2 className="text-xl font-semibold mb-4">Session Report</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Bundle browser info, permission state and all {entries.length} recorded requests into a file
+        for bug reports. Markdown pastes into issue trackers; HAR opens in devtools viewers.
+      </p>
+      <div className="flex flex-wrap items-center gap-3">
+        {REPORT_FORMATS.map(({ format, label }) => (
+          <Button
+            key={format}
+            variant="secondary"
+            onClick={() =>
+              downloadReport(buildSessionReport(permission, permissionHistory, entries), format)
+            }
+            data-testid={`export-${format}`}
+            className="flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            {label}
+          </Button>
+        ))}
+        <Link to="/report" className="text-sm text-blue-600 hover:underline">
+          Open a saved report
+        </Link>
+      </div>
+    </Card>
+  )
+}
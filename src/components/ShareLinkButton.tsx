@@ -0,0 +1,51 @@
+import { useState } from 'react'
+import type { RequestDraft } from '@/types/lna'
+import { buildShareUrl } from '@/lib/share-link'
+import { Check, Link2 } from 'lucide-react'
+
+interface ShareLinkButtonProps {
+  draft: RequestDraft
+}
+
+export function ShareLinkButton({ draft }: ShareLinkButtonProps) {
+  const [autorun, setAutorun] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    const url = buildShareUrl(draft, autorun)
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      // Clipboard access can be denied; fall back to a prompt the user can copy from
+      console.log('Clipboard write failed:', error)
+      window.prompt('Copy this link', url)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm" data-testid="share-link">
+      <label className="flex items-center text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={autorun}
+          onChange={(e) => setAutorun(e.target.checked)}
+          data-testid="share-link-autorun"
+          className="mr-1"
+        />
+        Autorun
+      </label>
+      <button
+        type="button"
+        onClick={handleCopy}
+        disabled={!draft.url.trim()}
+        className="flex items-center gap-1 text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+        data-testid="share-link-copy"
+      >
+        {copied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+        {copied ? 'Copied' : 'Copy link'}
+      </button>
+    </div>
+  )
+}
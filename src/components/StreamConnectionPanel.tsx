@@ -0,0 +1,220 @@
+import { useState, type FormEvent } from 'react'
+import type { StreamClose, StreamLogEntry, StreamState, StreamTransport } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Input'
+import { Button } from '@/components/ui/Button'
+import {
+  MAX_CLOSE_REASON_BYTES,
+  describeCloseCode,
+  isValidClientCloseCode,
+  isValidCloseReason,
+} from '@/lib/stream-connections'
+import { cn, formatTime } from '@/lib/utils'
+import { ArrowDown, ArrowUp, Send, Trash2, XCircle } from 'lucide-react'
+
+interface StreamConnectionPanelProps {
+  transport: StreamTransport | null
+  url: string | null
+  state: StreamState
+  log: StreamLogEntry[]
+  closeInfo: StreamClose | null
+  onSend: (message: string) => void
+  onClose: (code?: number, reason?: string) => void
+  onReset: () => void
+}
+
+const TRANSPORT_LABELS: Record<StreamTransport, string> = {
+  websocket: 'WebSocket',
+  eventsource: 'EventSource',
+}
+
+const STATE_STYLES: Record<StreamState, string> = {
+  idle: 'bg-gray-100 text-gray-700',
+  connecting: 'bg-yellow-100 text-yellow-800',
+  open: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-100 text-gray-700',
+  error: 'bg-red-100 text-red-800',
+}
+
+const LOG_STYLES: Record<StreamLogEntry['kind'], string> = {
+  open: 'text-green-700',
+  sent: 'text-blue-700',
+  received: 'text-gray-900',
+  error: 'text-red-600',
+  close: 'text-orange-700',
+  info: 'text-gray-500',
+}
+
+function LogIcon({ kind }: { kind: StreamLogEntry['kind'] }) {
+  if (kind === 'sent') {
+    return <ArrowUp className="w-3 h-3 text-blue-600 shrink-0 mt-0.5" />
+  }
+  if (kind === 'received') {
+    return <ArrowDown className="w-3 h-3 text-gray-600 shrink-0 mt-0.5" />
+  }
+  return <span className="w-3 shrink-0" />
+}
+
+export function StreamConnectionPanel({
+  transport,
+  url,
+  state,
+  log,
+  closeInfo,
+  onSend,
+  onClose,
+  onReset,
+}: StreamConnectionPanelProps) {
+  const [message, setMessage] = useState('')
+  const [closeCode, setCloseCode] = useState('1000')
+  const [closeReason, setCloseReason] = useState('')
+
+  if (!transport) {
+    return null
+  }
+
+  const code = parseInt(closeCode, 10)
+  const codeIsValid = !closeCode || isValidClientCloseCode(code)
+  const reasonIsValid = isValidCloseReason(closeReason)
+  const isOpen = state === 'open'
+  const isActive = isOpen || state === 'connecting'
+
+  const handleSend = (e: FormEvent) => {
+    e.preventDefault()
+    if (message) {
+      onSend(message)
+      setMessage('')
+    }
+  }
+
+  const handleClose = () => {
+    if (transport === 'websocket' && closeCode && codeIsValid && reasonIsValid) {
+      onClose(code, closeReason || undefined)
+    } else {
+      onClose()
+    }
+  }
+
+  return (
+    <Card data-testid="stream-connection">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">{TRANSPORT_LABELS[transport]} Connection</h2>
+        <span
+          className={cn('px-3 py-1 rounded-full text-sm font-medium', STATE_STYLES[state])}
+          data-testid="stream-state"
+        >
+          {state}
+        </span>
+      </div>
+
+      <p className="text-sm font-mono text-gray-600 mb-4 break-all">{url}</p>
+
+      {closeInfo && (
+        <div
+          className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded text-sm"
+          data-testid="stream-close-info"
+        >
+          <span className="font-mono">{closeInfo.code}</span> {describeCloseCode(closeInfo.code)}
+          {closeInfo.reason && <span className="text-gray-600"> — {closeInfo.reason}</span>}
+          <span className="text-gray-500"> ({closeInfo.wasClean ? 'clean' : 'not clean'})</span>
+        </div>
+      )}
+
+      {transport === 'websocket' && (
+        <form onSubmit={handleSend} className="flex gap-2 mb-4">
+          <Input
+            aria-label="Message"
+            placeholder="Message to send"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            disabled={!isOpen}
+            data-testid="stream-message-input"
+            className="text-sm"
+          />
+          <Button
+            type="submit"
+            disabled={!isOpen || !message}
+            data-testid="stream-send-button"
+            className="flex items-center gap-2 text-sm"
+          >
+            <Send className="w-4 h-4" />
+            Send
+          </Button>
+        </form>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2 mb-4">
+        {transport === 'websocket' && (
+          <>
+            <label>
+              <span className="block text-xs text-gray-600 mb-1">Close code</span>
+              <Input
+                type="number"
+                value={closeCode}
+                onChange={(e) => setCloseCode(e.target.value)}
+                disabled={!isActive}
+                data-testid="stream-close-code"
+                className={cn('w-24 text-sm', !codeIsValid && 'border-red-400')}
+              />
+            </label>
+            <label className="flex-1">
+              <span className="block text-xs text-gray-600 mb-1">Reason</span>
+              <Input
+                value={closeReason}
+                onChange={(e) => setCloseReason(e.target.value)}
+                disabled={!isActive}
+                data-testid="stream-close-reason"
+                className={cn('text-sm', !reasonIsValid && 'border-red-400')}
+              />
+            </label>
+          </>
+        )}
+        <Button
+          type="button"
+          variant="danger"
+          onClick={handleClose}
+          disabled={!isActive || !codeIsValid || !reasonIsValid}
+          data-testid="stream-close-button"
+          className="flex items-center gap-2 text-sm"
+        >
+          <XCircle className="w-4 h-4" />
+          Close
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={onReset}
+          data-testid="stream-reset-button"
+          className="flex items-center gap-2 text-sm"
+        >
+          <Trash2 className="w-4 h-4" />
+          Dismiss
+        </Button>
+      </div>
+      {!codeIsValid && (
+        <p className="text-xs text-red-600 -mt-2 mb-4">
+          Pages may only close with 1000 or a code between 3000 and 4999
+        </p>
+      )}
+      {!reasonIsValid && (
+        <p className="text-xs text-red-600 -mt-2 mb-4">
+          The close reason may be at most {MAX_CLOSE_REASON_BYTES} bytes of UTF-8
+        </p>
+      )}
+
+      <ul
+        className="font-mono text-xs bg-gray-50 rounded p-3 max-h-80 overflow-auto space-y-1"
+        data-testid="stream-log"
+      >
+        {log.map((entry) => (
+          <li key={entry.id} className={cn('flex gap-2', LOG_STYLES[entry.kind])}>
+            <span className="text-gray-400 shrink-0">{formatTime(entry.timestamp)}</span>
+            <LogIcon kind={entry.kind} />
+            {entry.eventName && <span className="text-purple-700">[{entry.eventName}]</span>}
+            <span className="break-all whitespace-pre-wrap">{entry.text}</span>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  )
+}
@@ -0,0 +1,56 @@
+import type { SubresourceProbeResult } from '@/types/lna'
+import { SUBRESOURCE_KINDS } from '@/lib/subresource-probes'
+import { CheckCircle, Loader2, XCircle } from 'lucide-react'
+
+interface SubresourceProbeResultsProps {
+  probes: SubresourceProbeResult[]
+}
+
+const KIND_LABELS = Object.fromEntries(SUBRESOURCE_KINDS.map(({ kind, label }) => [kind, label]))
+
+export function SubresourceProbeResults({ probes }: SubresourceProbeResultsProps) {
+  return (
+    <div data-testid="subresource-probes">
+      <h3 className="font-medium mb-2">Subresource &amp; Navigation Probes</h3>
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="text-left border-b border-gray-200">
+            <th className="py-2 pr-4">Loaded as</th>
+            <th className="py-2 pr-4">Event</th>
+            <th className="py-2 pr-4">Time</th>
+            <th className="py-2">Notes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {probes.map((probe) => (
+            <tr
+              key={probe.kind}
+              className="border-b border-gray-100"
+              data-testid={`probe-row-${probe.kind}`}
+            >
+              <td className="py-2 pr-4 font-mono">{KIND_LABELS[probe.kind]}</td>
+              <td className="py-2 pr-4">
+                <div className="flex items-center gap-2">
+                  {probe.status === 'loading' && (
+                    <Loader2 className="w-4 h-4 text-gray-500 animate-spin" />
+                  )}
+                  {probe.status === 'success' && <CheckCircle className="w-4 h-4 text-green-600" />}
+                  {probe.status === 'error' && <XCircle className="w-4 h-4 text-red-600" />}
+                  <span className="font-mono">{probe.outcome ?? 'pending'}</span>
+                </div>
+              </td>
+              <td className="py-2 pr-4 font-mono">
+                {probe.durationMs !== undefined ? `${probe.durationMs}ms` : '—'}
+              </td>
+              <td className="py-2 text-xs text-gray-600">{probe.detail}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500 mt-2">
+        Elements only report load or error, never why they failed. Compare with the fetch result
+        above and the server&apos;s exchange log to tell an LNA block from a missing resource.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import type { RequestTiming } from '@/types/lna'
+
+interface TimingBreakdownProps {
+  timing: RequestTiming
+}
+
+const PHASES: { key: keyof RequestTiming; label: string; color: string }[] = [
+  { key: 'queueMs', label: 'Queued / stalled', color: 'bg-gray-400' },
+  { key: 'dnsMs', label: 'DNS lookup', color: 'bg-teal-500' },
+  { key: 'connectMs', label: 'Connect', color: 'bg-orange-400' },
+  { key: 'tlsMs', label: 'TLS', color: 'bg-purple-500' },
+  { key: 'ttfbMs', label: 'Waiting (TTFB)', color: 'bg-green-500' },
+  { key: 'downloadMs', label: 'Download', color: 'bg-blue-500' },
+]
+
+function formatMs(ms: number) {
+  return ms < 10 ? `${ms.toFixed(1)}ms` : `${Math.round(ms)}ms`
+}
+
+export function TimingBreakdown({ timing }: TimingBreakdownProps) {
+  const total = Math.max(timing.durationMs, 1)
+
+  return (
+    <div className="mb-4" data-testid="timing-breakdown">
+      <h3 className="font-medium mb-2">
+        Timing: <span className="font-mono">{formatMs(timing.durationMs)}</span> total
+      </h3>
+
+      {timing.detailed ? (
+        <div className="bg-gray-50 border border-gray-200 rounded p-4 space-y-1">
+          {PHASES.map(({ key, label, color }) => {
+            const value = timing[key]
+            if (typeof value !== 'number') {
+              return null
+            }
+            return (
+              <div key={key} className="flex items-center gap-3 text-sm">
+                <span className="w-36 text-gray-600">{label}</span>
+                <div className="flex-1 h-2 bg-gray-200 rounded">
+                  <div
+                    className={`h-2 rounded ${color}`}
+                    style={{ width: `${Math.min(100, (value / total) * 100)}%` }}
+                  />
+                </div>
+                <span className="w-20 text-right font-mono">{formatMs(value)}</span>
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500" data-testid="timing-unavailable">
+          Phase breakdown unavailable: the server did not send Timing-Allow-Origin (or no Resource
+          Timing entry was recorded). A long total with a fast device usually means the request
+          waited on the permission prompt.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { type SelectHTMLAttributes, forwardRef } from 'react'
+import { cn } from '@/lib/utils'
+
+export const Select = forwardRef<HTMLSelectElement, SelectHTMLAttributes<HTMLSelectElement>>(
+  ({ className, ...props }, ref) => {
+    return (
+      <select
+        ref={ref}
+        className={cn(
+          'px-4 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent',
+          className
+        )}
+        {...props}
+      />
+    )
+  }
+)
+
+Select.displayName = 'Select'
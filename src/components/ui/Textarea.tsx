@@ -0,0 +1,20 @@
+import { type TextareaHTMLAttributes, forwardRef } from 'react'
+import { cn } from '@/lib/utils'
+
+export const Textarea = forwardRef<
+  HTMLTextAreaElement,
+  TextareaHTMLAttributes<HTMLTextAreaElement>
+>(({ className, ...props }, ref) => {
+  return (
+    <textarea
+      ref={ref}
+      className={cn(
+        'w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent',
+        className
+      )}
+      {...props}
+    />
+  )
+})
+
+Textarea.displayName = 'Textarea'
@@ -0,0 +1,65 @@
+import { useState, useCallback, useRef } from 'react'
+import type { MatrixCell, MatrixMode, RequestOptions, TargetAddressSpace } from '@/types/lna'
+import { probeRequest } from '@/lib/lna-permissions'
+import { TARGET_ADDRESS_SPACES } from '@/lib/address-space'
+
+export function useAddressSpaceMatrix() {
+  const [cells, setCells] = useState<MatrixCell[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const run = useCallback(async (url: string, options: RequestOptions, mode: MatrixMode) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    setIsRunning(true)
+    setCells(
+      TARGET_ADDRESS_SPACES.map((targetAddressSpace) => ({ targetAddressSpace, status: 'idle' }))
+    )
+
+    const updateCell = (cell: MatrixCell) => {
+      setCells((prev) =>
+        prev.map((c) => (c.targetAddressSpace === cell.targetAddressSpace ? cell : c))
+      )
+    }
+
+    const runOne = async (targetAddressSpace: TargetAddressSpace) => {
+      updateCell({ targetAddressSpace, status: 'loading' })
+      const outcome = await probeRequest(url, targetAddressSpace, options, controller.signal)
+      // cancel() or a newer run owns the cells now
+      if (!controller.signal.aborted) {
+        updateCell({ targetAddressSpace, ...outcome })
+      }
+    }
+
+    if (mode === 'parallel') {
+      await Promise.all(TARGET_ADDRESS_SPACES.map(runOne))
+    } else {
+      for (const targetAddressSpace of TARGET_ADDRESS_SPACES) {
+        if (controller.signal.aborted) {
+          break
+        }
+        await runOne(targetAddressSpace)
+      }
+    }
+
+    if (controllerRef.current === controller) {
+      controllerRef.current = null
+      setIsRunning(false)
+    }
+  }, [])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setIsRunning(false)
+    setCells((prev) => prev.map((c) => (c.status === 'loading' ? { ...c, status: 'idle' } : c)))
+  }, [])
+
+  const clear = useCallback(() => {
+    setCells([])
+  }, [])
+
+  return { cells, isRunning, run, cancel, clear }
+}
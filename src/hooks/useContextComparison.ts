@@ -0,0 +1,117 @@
+import { useState, useCallback, useRef } from 'react'
+import type {
+  ContextProbeMessage,
+  ContextProbeResult,
+  ExecutionContextKind,
+  RequestOptions,
+  TargetAddressSpace,
+} from '@/types/lna'
+import {
+  DEFAULT_PROBE_TIMEOUT_MS,
+  queryLNAPermission,
+  runLocalNetworkRequest,
+} from '@/lib/lna-permissions'
+import { EXECUTION_CONTEXTS, createProbeRequest, runInWorker } from '@/lib/context-probes'
+
+// On top of the request timeout, for starting the worker and its permission query
+const WORKER_STARTUP_MS = 5000
+
+export function useContextComparison() {
+  const [results, setResults] = useState<ContextProbeResult[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const run = useCallback(
+    async (url: string, targetAddressSpace: TargetAddressSpace, options: RequestOptions) => {
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
+
+      setIsRunning(true)
+      setResults(EXECUTION_CONTEXTS.map(({ context }) => ({ context, status: 'idle' })))
+
+      // cancel() or a newer run owns the results once the controller aborts
+      const update = (context: ExecutionContextKind, patch: Partial<ContextProbeResult>) => {
+        if (!controller.signal.aborted) {
+          setResults((prev) => prev.map((r) => (r.context === context ? { ...r, ...patch } : r)))
+        }
+      }
+
+      const applyMessage = (context: ExecutionContextKind, message: ContextProbeMessage) => {
+        if (message.type === 'permission') {
+          update(context, { permission: message.permission })
+        } else {
+          update(context, { status: message.response.status, response: message.response })
+        }
+      }
+
+      const probeOptions = { ...options, timeoutMs: options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS }
+      const deadlineMs = probeOptions.timeoutMs + WORKER_STARTUP_MS
+
+      // One context at a time so a permission prompt raised by one does not race the others
+      for (const { context } of EXECUTION_CONTEXTS) {
+        if (controller.signal.aborted) {
+          return
+        }
+        update(context, { status: 'loading' })
+        if (context === 'main') {
+          update(context, { permission: await queryLNAPermission() })
+          const response = await runLocalNetworkRequest(
+            url,
+            targetAddressSpace,
+            probeOptions,
+            controller.signal
+          )
+          update(context, { status: response.status, response })
+          continue
+        }
+
+        // A worker that never answers is reported rather than holding up the rest of the run
+        const deadline = AbortSignal.timeout(deadlineMs)
+        try {
+          await runInWorker(
+            context,
+            createProbeRequest(url, targetAddressSpace, probeOptions),
+            (m) => applyMessage(context, m),
+            AbortSignal.any([controller.signal, deadline])
+          )
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return
+          }
+          if (deadline.aborted) {
+            update(context, {
+              status: 'error',
+              unavailable: `No response within ${deadlineMs / 1000}s`,
+            })
+            continue
+          }
+          console.log(`Context probe failed in ${context}:`, error)
+          update(context, {
+            status: 'error',
+            unavailable: error instanceof Error ? error.message : String(error),
+          })
+        }
+      }
+
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setIsRunning(false)
+      }
+    },
+    []
+  )
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setIsRunning(false)
+    setResults((prev) => prev.map((r) => (r.status === 'loading' ? { ...r, status: 'idle' } : r)))
+  }, [])
+
+  const clear = useCallback(() => {
+    setResults([])
+  }, [])
+
+  return { results, isRunning, run, cancel, clear }
+}
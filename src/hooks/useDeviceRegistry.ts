@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { DeviceObservation } from '@/types/lna'
+import { appendWarnings, loadRegistry, observeDevice, saveRegistry } from '@/lib/device-registry'
+
+export function useDeviceRegistry() {
+  const [registry, setRegistry] = useState(loadRegistry)
+
+  useEffect(() => {
+    saveRegistry(registry)
+  }, [registry])
+
+  const observe = useCallback((observation: DeviceObservation) => {
+    setRegistry((prev) => {
+      const { devices, warnings } = observeDevice(prev.devices, observation)
+      if (devices === prev.devices && warnings.length === 0) {
+        return prev
+      }
+      return { devices, warnings: appendWarnings(prev.warnings, warnings) }
+    })
+  }, [])
+
+  const toggleTrusted = useCallback((id: string) => {
+    setRegistry((prev) => ({
+      ...prev,
+      devices: prev.devices.map((device) =>
+        device.id === id ? { ...device, trusted: !device.trusted } : device
+      ),
+    }))
+  }, [])
+
+  const forget = useCallback((id: string) => {
+    setRegistry((prev) => ({
+      ...prev,
+      devices: prev.devices.filter((device) => device.id !== id),
+    }))
+  }, [])
+
+  const clearWarnings = useCallback(() => {
+    setRegistry((prev) => ({ ...prev, warnings: [] }))
+  }, [])
+
+  return {
+    devices: registry.devices,
+    warnings: registry.warnings,
+    observe,
+    toggleTrusted,
+    forget,
+    clearWarnings,
+  }
+}
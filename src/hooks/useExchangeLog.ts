@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { ExchangeLogConnection, ServerExchange } from '@/types/lna'
+import {
+  clearExchangeLog,
+  exchangeStreamUrl,
+  fetchExchangeLog,
+  mergeExchanges,
+} from '@/lib/exchange-log'
+
+export function useExchangeLog() {
+  const [exchanges, setExchanges] = useState<ServerExchange[]>([])
+  const [connection, setConnection] = useState<ExchangeLogConnection>('disconnected')
+  const [error, setError] = useState<string | null>(null)
+  const sourceRef = useRef<EventSource | null>(null)
+  const baseUrlRef = useRef<string | null>(null)
+
+  const disconnect = useCallback(() => {
+    sourceRef.current?.close()
+    sourceRef.current = null
+    setConnection('disconnected')
+  }, [])
+
+  const connect = useCallback(async (baseUrl: string) => {
+    sourceRef.current?.close()
+    sourceRef.current = null
+    baseUrlRef.current = baseUrl
+    setConnection('connecting')
+    setError(null)
+
+    try {
+      setExchanges(await fetchExchangeLog(baseUrl))
+    } catch (fetchError) {
+      setConnection('error')
+      setError(fetchError instanceof Error ? fetchError.message : 'Failed to load exchange log')
+      return
+    }
+
+    const source = new EventSource(exchangeStreamUrl(baseUrl))
+    sourceRef.current = source
+    source.addEventListener('open', () => setConnection('connected'))
+    // EventSource reconnects on its own; exchanges missed in between are only recovered by
+    // connecting again, which refetches the snapshot
+    source.addEventListener('error', () => setConnection('error'))
+    source.addEventListener('exchange', (event) => {
+      try {
+        const exchange = JSON.parse((event as MessageEvent<string>).data) as ServerExchange
+        setExchanges((prev) => mergeExchanges(prev, [exchange]))
+      } catch (parseError) {
+        console.log('Invalid exchange event:', parseError)
+      }
+    })
+  }, [])
+
+  const clear = useCallback(async () => {
+    setExchanges([])
+    if (baseUrlRef.current) {
+      try {
+        await clearExchangeLog(baseUrlRef.current)
+      } catch (clearError) {
+        console.log('Failed to clear server exchange log:', clearError)
+      }
+    }
+  }, [])
+
+  useEffect(() => {
+    return () => sourceRef.current?.close()
+  }, [])
+
+  return { exchanges, connection, error, connect, disconnect, clear }
+}
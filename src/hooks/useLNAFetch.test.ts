@@ -0,0 +1,119 @@
+import { act, renderHook } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { FetchResponse } from '@/types/lna'
+import { createTestClient, hangUntilAborted, mockFetch, mockResponse } from '@/test/mocks'
+import { useLNAFetch } from './useLNAFetch'
+
+const DEVICE_URL = 'http://192.168.1.10/status'
+
+function setup(fetch: ReturnType<typeof mockFetch>) {
+  const client = createTestClient({ fetch })
+  return renderHook(() => useLNAFetch(client))
+}
+
+beforeEach(() => {
+  // runLocalNetworkRequest logs every failure
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+describe('useLNAFetch', () => {
+  it('starts idle', () => {
+    const { result } = setup(mockFetch(() => mockResponse('ok')))
+
+    expect(result.current.response).toEqual({ status: 'idle' })
+  })
+
+  it('goes from loading to success', async () => {
+    let respond: (response: Response) => void = () => {}
+    const fetch = mockFetch(
+      () =>
+        new Promise<Response>((resolve) => {
+          respond = resolve
+        })
+    )
+    const { result } = setup(fetch)
+
+    let pending!: Promise<FetchResponse>
+    act(() => {
+      pending = result.current.sendRequest(DEVICE_URL, 'private', { method: 'GET' })
+    })
+    expect(result.current.response).toEqual({ status: 'loading' })
+
+    await act(async () => {
+      respond(mockResponse('{"on":true}', { 'Content-Type': 'application/json' }))
+      await pending
+    })
+
+    expect(result.current.response).toMatchObject({
+      status: 'success',
+      data: { on: true },
+      meta: { status: 200 },
+    })
+    expect(fetch.mock.calls[0][1]).toMatchObject({ method: 'GET', targetAddressSpace: 'private' })
+  })
+
+  it('settles into an explained error', async () => {
+    const { result } = setup(
+      mockFetch(() => mockResponse('', {}, { status: 500, statusText: 'Internal Server Error' }))
+    )
+
+    const returned = await act(() => result.current.sendRequest(DEVICE_URL))
+
+    expect(result.current.response).toMatchObject({
+      status: 'error',
+      error: { category: 'http-error', status: 500 },
+    })
+    expect(returned).toBe(result.current.response)
+  })
+
+  it('reports a cancelled request as aborted', async () => {
+    const { result } = setup(mockFetch(hangUntilAborted))
+
+    let pending!: Promise<FetchResponse>
+    act(() => {
+      pending = result.current.sendRequest(DEVICE_URL)
+    })
+    await act(async () => {
+      result.current.cancel()
+      await pending
+    })
+
+    expect(result.current.response).toMatchObject({
+      status: 'error',
+      error: { category: 'aborted' },
+    })
+  })
+
+  it('ignores the result of a request superseded by a newer one', async () => {
+    const fetch = mockFetch((url, init) =>
+      url.endsWith('/slow') ? hangUntilAborted(url, init) : mockResponse('fast')
+    )
+    const { result } = setup(fetch)
+
+    let first!: Promise<FetchResponse>
+    act(() => {
+      first = result.current.sendRequest('http://192.168.1.10/slow')
+    })
+    await act(() => result.current.sendRequest(DEVICE_URL))
+
+    await expect(first).resolves.toMatchObject({ error: { category: 'aborted' } })
+    expect(result.current.response).toMatchObject({ status: 'success', data: 'fast' })
+  })
+
+  it('does nothing when cancelling without a request in flight', () => {
+    const { result } = setup(mockFetch(() => mockResponse('ok')))
+
+    act(() => result.current.cancel())
+
+    expect(result.current.response).toEqual({ status: 'idle' })
+  })
+
+  it('clears back to idle', async () => {
+    const { result } = setup(mockFetch(() => mockResponse('ok')))
+    await act(() => result.current.sendRequest(DEVICE_URL))
+
+    act(() => result.current.clear())
+
+    expect(result.current.response).toEqual({ status: 'idle' })
+  })
+})
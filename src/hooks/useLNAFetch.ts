@@ -1,36 +1,47 @@
-import { useState, useCallback } from 'react'
-import type { FetchResponse, TargetAddressSpace } from '@/types/lna'
-import { makeLocalNetworkRequest } from '@/lib/lna-permissions'
+import { useState, useCallback, useRef } from 'react'
+import type { FetchResponse, LNAClient, RequestOptions, TargetAddressSpace } from '@/types/lna'
+import { defaultLNAClient, runLocalNetworkRequest } from '@/lib/lna-permissions'
 
-export function useLNAFetch() {
+// Pass a client built with createLNAClient to swap fetch or the Permissions API
+export function useLNAFetch(client: LNAClient = defaultLNAClient) {
   const [response, setResponse] = useState<FetchResponse>({ status: 'idle' })
+  const controllerRef = useRef<AbortController | null>(null)
 
   const sendRequest = useCallback(
-    async (url: string, targetAddressSpace: TargetAddressSpace = 'local') => {
+    async (
+      url: string,
+      targetAddressSpace: TargetAddressSpace = 'local',
+      options: RequestOptions = {}
+    ): Promise<FetchResponse> => {
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
+
       setResponse({ status: 'loading' })
+      const result = await runLocalNetworkRequest(
+        url,
+        targetAddressSpace,
+        options,
+        controller.signal,
+        client
+      )
 
-      try {
-        const { data, headers } = await makeLocalNetworkRequest(url, targetAddressSpace)
-        setResponse({
-          status: 'success',
-          data,
-          headers,
-        })
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-        console.log('Fetch error:', errorMessage, error)
-        setResponse({
-          status: 'error',
-          error: errorMessage,
-        })
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setResponse(result)
       }
+      return result
     },
-    []
+    [client]
   )
 
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
   const clear = useCallback(() => {
     setResponse({ status: 'idle' })
   }, [])
 
-  return { response, sendRequest, clear }
+  return { response, sendRequest, cancel, clear }
 }
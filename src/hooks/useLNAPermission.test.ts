@@ -0,0 +1,167 @@
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PermissionState } from '@/types/lna'
+import {
+  MockPermissionStatus,
+  USER_AGENTS,
+  createTestClient,
+  mockPermissions,
+  stubNavigator,
+} from '@/test/mocks'
+import { useLNAPermission } from './useLNAPermission'
+
+function setup(initial: PermissionState = 'prompt') {
+  const status = new MockPermissionStatus(initial)
+  const permissions = mockPermissions(status)
+  // Created once so the hook's effects see a stable client, as with defaultLNAClient
+  const client = createTestClient({ permissions })
+  const hook = renderHook(() => useLNAPermission(client))
+  return { status, permissions, ...hook }
+}
+
+// Settled means the first query returned and the change listener is attached
+async function setupSettled(initial: PermissionState) {
+  const view = setup(initial)
+  await waitFor(() => {
+    expect(view.result.current.isLoading).toBe(false)
+    expect(view.status.changeListeners).toBe(1)
+  })
+  return view
+}
+
+beforeEach(() => {
+  stubNavigator({ userAgent: USER_AGENTS.chrome142 })
+})
+
+describe('useLNAPermission', () => {
+  it('loads the current state and records it as the initial transition', async () => {
+    const { result } = setup('prompt')
+
+    expect(result.current.isLoading).toBe(true)
+    expect(result.current.permissionStatus).toBeNull()
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+    expect(result.current.permissionStatus).toMatchObject({
+      state: 'prompt',
+      browserSupport: { isSupported: true },
+    })
+    expect(result.current.history).toMatchObject([{ from: null, to: 'prompt', source: 'initial' }])
+  })
+
+  it('follows change events from the browser', async () => {
+    const { result, status } = await setupSettled('prompt')
+
+    act(() => status.change('granted'))
+
+    expect(result.current.permissionStatus?.state).toBe('granted')
+    expect(result.current.history).toMatchObject([
+      { from: null, to: 'prompt', source: 'initial' },
+      { from: 'prompt', to: 'granted', source: 'change' },
+    ])
+  })
+
+  it('does not record a transition when the state repeats', async () => {
+    const { result, status } = await setupSettled('granted')
+
+    act(() => status.change('granted'))
+    await act(() => result.current.refresh())
+
+    expect(result.current.history).toHaveLength(1)
+  })
+
+  it('records state picked up by refresh', async () => {
+    const { result, status } = await setupSettled('prompt')
+    status.state = 'denied'
+
+    await act(() => result.current.refresh())
+
+    expect(result.current.isLoading).toBe(false)
+    expect(result.current.permissionStatus?.state).toBe('denied')
+    expect(result.current.history.at(-1)).toMatchObject({
+      from: 'prompt',
+      to: 'denied',
+      source: 'refresh',
+    })
+  })
+
+  it('rechecks silently when the window regains focus', async () => {
+    const { result, status } = await setupSettled('denied')
+    status.state = 'prompt'
+
+    act(() => {
+      window.dispatchEvent(new Event('focus'))
+    })
+    expect(result.current.isLoading).toBe(false)
+
+    await waitFor(() => expect(result.current.permissionStatus?.state).toBe('prompt'))
+    expect(result.current.history.at(-1)).toMatchObject({
+      from: 'denied',
+      to: 'prompt',
+      source: 'recheck',
+    })
+  })
+
+  it('rechecks when the tab becomes visible, but not when it is hidden', async () => {
+    const visibility = vi.spyOn(document, 'visibilityState', 'get')
+    const { result, status, permissions } = await setupSettled('denied')
+    status.state = 'granted'
+    const queries = permissions.query.mock.calls.length
+
+    visibility.mockReturnValue('hidden')
+    act(() => {
+      document.dispatchEvent(new Event('visibilitychange'))
+    })
+    expect(permissions.query).toHaveBeenCalledTimes(queries)
+
+    visibility.mockReturnValue('visible')
+    act(() => {
+      document.dispatchEvent(new Event('visibilitychange'))
+    })
+    await waitFor(() => expect(result.current.permissionStatus?.state).toBe('granted'))
+  })
+
+  it('returns the status from recheck', async () => {
+    const { result, status } = await setupSettled('prompt')
+    status.state = 'granted'
+
+    const rechecked = await act(() => result.current.recheck())
+
+    expect(rechecked).toMatchObject({ state: 'granted' })
+  })
+
+  it('reports no state and keeps the history empty when unsupported', async () => {
+    const client = createTestClient({ permissions: null })
+    const { result } = renderHook(() => useLNAPermission(client))
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+    expect(result.current.permissionStatus).toMatchObject({
+      state: null,
+      browserSupport: { isSupported: false, reason: 'Permissions API not available' },
+    })
+    expect(result.current.history).toEqual([])
+  })
+
+  it('clears the status when the query itself throws', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const client = {
+      ...createTestClient(),
+      queryPermission: () => Promise.reject(new Error('boom')),
+    }
+    const { result } = renderHook(() => useLNAPermission(client))
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+    expect(result.current.permissionStatus).toBeNull()
+    await expect(act(() => result.current.recheck())).resolves.toBeNull()
+  })
+
+  it('stops listening on unmount', async () => {
+    const { status, permissions, unmount } = await setupSettled('prompt')
+    const queries = permissions.query.mock.calls.length
+
+    unmount()
+    window.dispatchEvent(new Event('focus'))
+
+    expect(status.changeListeners).toBe(0)
+    expect(permissions.query).toHaveBeenCalledTimes(queries)
+  })
+})
@@ -1,27 +1,113 @@
 import { useState, useEffect, useCallback } from 'react'
-import type { LNAPermissionStatus } from '@/types/lna'
-import { queryLNAPermission } from '@/lib/lna-permissions'
+import type {
+  LNAClient,
+  LNAPermissionStatus,
+  PermissionState,
+  PermissionTransition,
+  PermissionTransitionSource,
+} from '@/types/lna'
+import { defaultLNAClient, queryLNAPermission, watchLNAPermission } from '@/lib/lna-permissions'
 
-export function useLNAPermission() {
+// Pass a client built with createLNAClient to swap the Permissions API
+export function useLNAPermission(client: LNAClient = defaultLNAClient) {
   const [permissionStatus, setPermissionStatus] = useState<LNAPermissionStatus | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [history, setHistory] = useState<PermissionTransition[]>([])
+
+  const recordTransition = useCallback(
+    (state: PermissionState, source: PermissionTransitionSource) => {
+      setHistory((prev) => {
+        const last = prev[prev.length - 1]
+        if (last && last.to === state) {
+          return prev
+        }
+        return [
+          ...prev,
+          {
+            from: last ? last.to : null,
+            to: state,
+            timestamp: Date.now(),
+            source: last ? source : 'initial',
+          },
+        ]
+      })
+    },
+    []
+  )
 
   const refresh = useCallback(async () => {
     setIsLoading(true)
     try {
-      const status = await queryLNAPermission()
+      const status = await queryLNAPermission(client)
       setPermissionStatus(status)
+      if (status.state) {
+        recordTransition(status.state, 'refresh')
+      }
     } catch (error) {
       console.log('Error querying LNA permission:', error)
       setPermissionStatus(null)
     } finally {
       setIsLoading(false)
     }
-  }, [])
+  }, [client, recordTransition])
+
+  // Silent variant of refresh for returning from site settings, where a loading flash would be noise
+  const recheck = useCallback(async (): Promise<LNAPermissionStatus | null> => {
+    try {
+      const status = await queryLNAPermission(client)
+      setPermissionStatus(status)
+      if (status.state) {
+        recordTransition(status.state, 'recheck')
+      }
+      return status
+    } catch (error) {
+      console.log('Error querying LNA permission:', error)
+      return null
+    }
+  }, [client, recordTransition])
 
   useEffect(() => {
     refresh()
   }, [refresh])
 
-  return { permissionStatus, isLoading, refresh }
+  // Not every browser fires a change event when a permission is reset in settings
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        recheck()
+      }
+    }
+    const handleFocus = () => {
+      recheck()
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('focus', handleFocus)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.removeEventListener('focus', handleFocus)
+    }
+  }, [recheck])
+
+  useEffect(() => {
+    let cancelled = false
+    let unsubscribe: (() => void) | undefined
+
+    watchLNAPermission((state) => {
+      setPermissionStatus((prev) => (prev ? { ...prev, state } : prev))
+      recordTransition(state, 'change')
+    }, client).then((stop) => {
+      if (cancelled) {
+        stop()
+      } else {
+        unsubscribe = stop
+      }
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe?.()
+    }
+  }, [client, recordTransition])
+
+  return { permissionStatus, isLoading, refresh, recheck, history }
 }
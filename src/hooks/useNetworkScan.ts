@@ -0,0 +1,103 @@
+import { useState, useCallback, useRef } from 'react'
+import type { ScanProgress, ScanResult, ScanSettings, ScanTarget } from '@/types/lna'
+import { makeLocalNetworkRequest } from '@/lib/lna-permissions'
+import { HttpError } from '@/lib/fetch-errors'
+import { runWithConcurrency } from '@/lib/network-scan'
+
+async function probe(
+  target: ScanTarget,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<ScanResult | null> {
+  const startedAt = performance.now()
+  try {
+    const { headers, meta } = await makeLocalNetworkRequest(
+      target.url,
+      target.targetAddressSpace,
+      { timeoutMs },
+      signal
+    )
+    return {
+      ...target,
+      httpStatus: meta.status,
+      durationMs: Math.round(performance.now() - startedAt),
+      deviceName: headers['private-network-access-name'],
+      deviceId: headers['private-network-access-id'],
+    }
+  } catch (error) {
+    // A non-2xx status still proves something is listening on that port, and devices behind
+    // auth often name themselves on the 401/403
+    if (error instanceof HttpError) {
+      return {
+        ...target,
+        httpStatus: error.status,
+        durationMs: Math.round(performance.now() - startedAt),
+        deviceName: error.response?.headers['private-network-access-name'],
+        deviceId: error.response?.headers['private-network-access-id'],
+      }
+    }
+    return null
+  }
+}
+
+export function useNetworkScan() {
+  const [results, setResults] = useState<ScanResult[]>([])
+  const [progress, setProgress] = useState<ScanProgress | null>(null)
+  const [isScanning, setIsScanning] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const start = useCallback(
+    async (
+      targets: ScanTarget[],
+      settings: ScanSettings,
+      onResult?: (result: ScanResult) => void
+    ) => {
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
+
+      setResults([])
+      setProgress({ total: targets.length, completed: 0, responsive: 0 })
+      setIsScanning(true)
+
+      await runWithConcurrency(
+        targets,
+        settings.concurrency,
+        async (target) => {
+          const result = await probe(target, settings.timeoutMs, controller.signal)
+          if (controller.signal.aborted) {
+            return
+          }
+          if (result) {
+            setResults((prev) => [...prev, result])
+            onResult?.(result)
+          }
+          setProgress((prev) =>
+            prev
+              ? {
+                  ...prev,
+                  completed: prev.completed + 1,
+                  responsive: prev.responsive + (result ? 1 : 0),
+                }
+              : prev
+          )
+        },
+        controller.signal
+      )
+
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setIsScanning(false)
+      }
+    },
+    []
+  )
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setIsScanning(false)
+  }, [])
+
+  return { results, progress, isScanning, start, cancel }
+}
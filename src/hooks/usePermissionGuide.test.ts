@@ -0,0 +1,180 @@
+import { act, renderHook } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { LNAPermissionStatus, PermissionState } from '@/types/lna'
+import {
+  MockPermissionStatus,
+  createTestClient,
+  mockFetch,
+  mockPermissions,
+  mockResponse,
+} from '@/test/mocks'
+import { saveSkipExplainer } from '@/lib/permission-guide'
+import { runLocalNetworkRequest } from '@/lib/lna-permissions'
+import { usePermissionGuide } from './usePermissionGuide'
+
+const DEVICE_URL = 'http://192.168.1.10/status'
+const SOCKET_URL = 'ws://192.168.1.10:8080/ws'
+
+function statusOf(state: PermissionState): LNAPermissionStatus {
+  return { state, isSecureContext: true, browserSupport: { isSupported: true } }
+}
+
+function timeoutError() {
+  return Object.assign(new Error('signal timed out'), { name: 'TimeoutError' })
+}
+
+// The browser answers the prompt while the first request to the device is in flight
+function setup(answer: PermissionState, respond: () => Response | Promise<Response>) {
+  const status = new MockPermissionStatus('prompt')
+  const fetch = mockFetch(() => {
+    status.change(answer)
+    return respond()
+  })
+  const client = createTestClient({ fetch, permissions: mockPermissions(status) })
+  const recheck = vi.fn(async () => statusOf(status.state))
+  // The guarded request itself, as Home sends it
+  const send = vi.fn(() => runLocalNetworkRequest(DEVICE_URL, 'local', {}, undefined, client))
+  const hook = renderHook(() => usePermissionGuide(statusOf('prompt'), recheck, client))
+  return { fetch, recheck, send, ...hook }
+}
+
+beforeEach(() => {
+  // Failed requests are logged by the client
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  localStorage.clear()
+})
+
+describe('usePermissionGuide', () => {
+  it('runs requests to public hosts straight away', async () => {
+    const { result, fetch } = setup('granted', () => mockResponse('ok'))
+    const run = vi.fn()
+
+    await act(() => result.current.guard('https://example.com/', run))
+
+    expect(run).toHaveBeenCalledOnce()
+    expect(fetch).not.toHaveBeenCalled()
+    expect(result.current.phase).toBe('idle')
+  })
+
+  it('explains first, then lets the request itself trigger the prompt', async () => {
+    const { result, fetch, send } = setup('granted', () => mockResponse('ok'))
+
+    await act(() => result.current.guard(DEVICE_URL, send))
+    expect(result.current.phase).toBe('explaining')
+    expect(send).not.toHaveBeenCalled()
+
+    await act(() => result.current.confirm(false))
+
+    expect(send).toHaveBeenCalledOnce()
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(result.current.phase).toBe('granted')
+  })
+
+  it('reports a blocked prompt', async () => {
+    const { result, fetch, send } = setup('denied', () =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    )
+
+    await act(() => result.current.guard(DEVICE_URL, send))
+    await act(() => result.current.confirm(false))
+
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(result.current.phase).toBe('blocked')
+  })
+
+  it('reports a dismissal only when the browser blocked the request', async () => {
+    const dismissed = setup('prompt', () => Promise.reject(new TypeError('Failed to fetch')))
+    const neverPrompted = setup('prompt', () => mockResponse('ok'))
+
+    for (const { result, send } of [dismissed, neverPrompted]) {
+      await act(() => result.current.guard(DEVICE_URL, send))
+      await act(() => result.current.confirm(false))
+    }
+
+    expect(dismissed.result.current.phase).toBe('dismissed')
+    expect(neverPrompted.result.current.phase).toBe('idle')
+  })
+
+  it('does not blame the prompt when the network failed the request', async () => {
+    const timedOut = setup('prompt', () => Promise.reject(timeoutError()))
+    const serverError = setup('prompt', () => mockResponse('down', {}, { status: 503 }))
+
+    for (const { result, send } of [timedOut, serverError]) {
+      await act(() => result.current.guard(DEVICE_URL, send))
+      await act(() => result.current.confirm(false))
+      expect(result.current.phase).toBe('idle')
+    }
+  })
+
+  it('runs every request guarded before the explainer was confirmed', async () => {
+    const { result, fetch, send } = setup('granted', () => mockResponse('ok'))
+    const probe = vi.fn()
+
+    await act(async () => {
+      await result.current.guard(DEVICE_URL, probe)
+      await result.current.guard(DEVICE_URL, send)
+    })
+    await act(() => result.current.confirm(false))
+
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(probe).toHaveBeenCalledOnce()
+    expect(send).toHaveBeenCalledOnce()
+  })
+
+  it('shares one prompt between requests guarded together without the explainer', async () => {
+    saveSkipExplainer(true)
+    const { result, fetch, recheck, send } = setup('granted', () => mockResponse('ok'))
+    const probe = vi.fn()
+
+    await act(() =>
+      Promise.all([result.current.guard(DEVICE_URL, send), result.current.guard(DEVICE_URL, probe)])
+    )
+
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(recheck).toHaveBeenCalledOnce()
+    expect(probe).toHaveBeenCalledOnce()
+    expect(send).toHaveBeenCalledOnce()
+    expect(result.current.phase).toBe('granted')
+  })
+
+  describe('sockets', () => {
+    it('trigger the prompt with a GET over HTTP and report it', async () => {
+      const { result, fetch } = setup('granted', () => mockResponse('ok'))
+      const connect = vi.fn()
+      const onTrigger = vi.fn()
+
+      await act(() => result.current.guard(SOCKET_URL, connect, undefined, onTrigger))
+      await act(() => result.current.confirm(false))
+
+      expect(fetch.mock.calls[0][0]).toBe('http://192.168.1.10:8080/ws')
+      expect(onTrigger).toHaveBeenCalledWith(
+        'http://192.168.1.10:8080/ws',
+        expect.objectContaining({ status: 'success' })
+      )
+      expect(connect).toHaveBeenCalledOnce()
+      expect(result.current.phase).toBe('granted')
+    })
+
+    it('stay closed when the prompt is blocked', async () => {
+      const { result } = setup('denied', () => Promise.reject(new TypeError('Failed to fetch')))
+      const connect = vi.fn()
+
+      await act(() => result.current.guard(SOCKET_URL, connect, undefined, vi.fn()))
+      await act(() => result.current.confirm(false))
+
+      expect(connect).not.toHaveBeenCalled()
+      expect(result.current.phase).toBe('blocked')
+    })
+
+    it('connect when the network failed the trigger', async () => {
+      const { result } = setup('prompt', () => Promise.reject(timeoutError()))
+      const connect = vi.fn()
+
+      await act(() => result.current.guard(SOCKET_URL, connect, undefined, vi.fn()))
+      await act(() => result.current.confirm(false))
+
+      expect(connect).toHaveBeenCalledOnce()
+      expect(result.current.phase).toBe('idle')
+    })
+  })
+})
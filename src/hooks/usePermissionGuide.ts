@@ -0,0 +1,144 @@
+import { useState, useCallback, useRef } from 'react'
+import type {
+  FetchResponse,
+  LNAClient,
+  LNAPermissionStatus,
+  PermissionGuidePhase,
+  TargetAddressSpace,
+} from '@/types/lna'
+import { defaultLNAClient, toFetchResponse } from '@/lib/lna-permissions'
+import { buildLNARequest } from '@/lib/lna-client'
+import { isLocalNetworkTarget } from '@/lib/address-space'
+import { loadSkipExplainer, promptOutcomeOf, saveSkipExplainer } from '@/lib/permission-guide'
+
+// A guarded action that sends a fetch resolves to its response, so a dismissal can be told apart
+// from a network failure
+type GuardedRun = () => Promise<FetchResponse | void> | void
+
+// Called with the bare GET sent to trigger the prompt for an action that cannot trigger it itself
+export type TriggerListener = (url: string, response: FetchResponse) => void
+
+type PendingRequest = {
+  url: string
+  targetAddressSpace?: TargetAddressSpace
+  run: GuardedRun
+  onTrigger?: TriggerListener
+}
+
+export function usePermissionGuide(
+  permissionStatus: LNAPermissionStatus | null,
+  recheck: () => Promise<LNAPermissionStatus | null>,
+  client: LNAClient = defaultLNAClient
+) {
+  const [phase, setPhase] = useState<PermissionGuidePhase>('idle')
+  const [skipExplainer, setSkipExplainer] = useState(loadSkipExplainer)
+  // Everything guarded while the explainer is open goes out together once it is confirmed,
+  // e.g. the probes and the fetch of one form submit
+  const pendingRef = useRef<PendingRequest[]>([])
+  // The prompt being answered, so requests guarded meanwhile wait for the same answer
+  const promptRef = useRef<Promise<boolean> | null>(null)
+
+  const willPrompt = permissionStatus?.state === 'prompt'
+
+  // The guarded requests trigger the prompt themselves. WebSocket and EventSource connections
+  // cannot, so for those alone a bare GET to the same target triggers it and the connection only
+  // opens once the answer is known.
+  const settle = useCallback(
+    async (pending: PendingRequest[]) => {
+      setPhase('prompting')
+      const requests = pending.filter((request) => !request.onTrigger)
+      let response: FetchResponse | undefined
+      if (requests.length > 0) {
+        // Started in the order they were guarded, so a probe's window.open still comes first
+        const responses = await Promise.all(requests.map((request) => request.run()))
+        response = responses.find((r): r is FetchResponse => r !== undefined)
+      } else {
+        const [{ url, targetAddressSpace, onTrigger }] = pending
+        // fetch cannot open ws:// URLs, but the prompt only depends on the target
+        const triggerUrl = url.replace(/^ws(s?):/i, 'http$1:')
+        response = toFetchResponse(
+          await client.send(buildLNARequest(triggerUrl, targetAddressSpace))
+        )
+        onTrigger?.(triggerUrl, response)
+      }
+      const status = await recheck()
+      const outcome = promptOutcomeOf(status?.state ?? null, response)
+      setPhase(outcome ?? 'idle')
+      return outcome !== 'blocked'
+    },
+    [client, recheck]
+  )
+
+  const track = useCallback(
+    async (pending: PendingRequest[]) => {
+      if (promptRef.current) {
+        if (await promptRef.current) {
+          await Promise.all(pending.map((request) => request.run()))
+        }
+        return
+      }
+      const answer = settle(pending).finally(() => {
+        promptRef.current = null
+      })
+      promptRef.current = answer
+      // A dismissed prompt comes back on the next request; only a block holds connections back
+      if (await answer) {
+        await Promise.all(
+          pending.filter((request) => request.onTrigger).map((request) => request.run())
+        )
+      }
+    },
+    [settle]
+  )
+
+  // Runs the request straight away unless it is one that will trigger the browser prompt
+  const guard = useCallback(
+    async (
+      url: string,
+      run: GuardedRun,
+      targetAddressSpace?: TargetAddressSpace,
+      onTrigger?: TriggerListener
+    ) => {
+      if (!willPrompt || !isLocalNetworkTarget(url)) {
+        await run()
+        return
+      }
+      const pending = { url, targetAddressSpace, run, onTrigger }
+      if (skipExplainer || promptRef.current) {
+        await track([pending])
+        return
+      }
+      pendingRef.current.push(pending)
+      setPhase('explaining')
+    },
+    [willPrompt, skipExplainer, track]
+  )
+
+  const confirm = useCallback(
+    async (dontExplainAgain: boolean) => {
+      const pending = pendingRef.current
+      pendingRef.current = []
+      if (dontExplainAgain) {
+        saveSkipExplainer(true)
+        setSkipExplainer(true)
+      }
+      if (pending.length > 0) {
+        await track(pending)
+      } else {
+        setPhase('idle')
+      }
+    },
+    [track]
+  )
+
+  const cancel = useCallback(() => {
+    pendingRef.current = []
+    setPhase('idle')
+  }, [])
+
+  const reset = useCallback(() => {
+    setPhase('idle')
+  }, [])
+
+  return { phase, guard, confirm, cancel, reset }
+}
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { HistoryEntry } from '@/types/lna'
+import { createHistoryId, loadHistory, saveHistory, trimHistory } from '@/lib/request-history'
+
+export function useRequestHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>(loadHistory)
+
+  useEffect(() => {
+    saveHistory(entries)
+  }, [entries])
+
+  const addEntry = useCallback((entry: Omit<HistoryEntry, 'id' | 'pinned'>) => {
+    setEntries((prev) => trimHistory([{ ...entry, id: createHistoryId(), pinned: false }, ...prev]))
+  }, [])
+
+  const removeEntry = useCallback((id: string) => {
+    setEntries((prev) => prev.filter((entry) => entry.id !== id))
+  }, [])
+
+  const togglePin = useCallback((id: string) => {
+    setEntries((prev) =>
+      prev.map((entry) => (entry.id === id ? { ...entry, pinned: !entry.pinned } : entry))
+    )
+  }, [])
+
+  const renameEntry = useCallback((id: string, name: string) => {
+    setEntries((prev) =>
+      prev.map((entry) => (entry.id === id ? { ...entry, name: name.trim() || undefined } : entry))
+    )
+  }, [])
+
+  const clearUnpinned = useCallback(() => {
+    setEntries((prev) => prev.filter((entry) => entry.pinned))
+  }, [])
+
+  return { entries, addEntry, removeEntry, togglePin, renameEntry, clearUnpinned }
+}
@@ -0,0 +1,111 @@
+import { useState, useCallback, useRef } from 'react'
+import type {
+  RequestOptions,
+  SchemeComparisonRow,
+  SchemePorts,
+  TargetAddressSpace,
+  UrlScheme,
+} from '@/types/lna'
+import { probeRequest } from '@/lib/lna-permissions'
+import { guessSchemePorts, withScheme } from '@/lib/scheme-comparison'
+
+const SCHEMES: UrlScheme[] = ['http', 'https']
+
+type ComparisonRequest = {
+  url: string
+  targetAddressSpace: TargetAddressSpace
+  options: RequestOptions
+}
+
+export function useSchemeComparison() {
+  const [rows, setRows] = useState<SchemeComparisonRow[]>([])
+  const [ports, setPorts] = useState<SchemePorts | null>(null)
+  const [lastRequest, setLastRequest] = useState<ComparisonRequest | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const run = useCallback(
+    async (
+      url: string,
+      targetAddressSpace: TargetAddressSpace,
+      options: RequestOptions,
+      overridePorts?: SchemePorts
+    ) => {
+      let variants: SchemeComparisonRow[]
+      const resolvedPorts = overridePorts ?? guessSchemePorts(url)
+      try {
+        variants = SCHEMES.map((scheme) => ({
+          scheme,
+          url: withScheme(url, scheme, resolvedPorts[scheme]),
+          status: 'loading',
+        }))
+      } catch (buildError) {
+        const reason = buildError instanceof Error ? buildError.message : String(buildError)
+        setError(`Cannot build HTTP/HTTPS variants of ${url}: ${reason}`)
+        setRows([])
+        return
+      }
+
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
+
+      setLastRequest({ url, targetAddressSpace, options })
+      setPorts(resolvedPorts)
+      setRows(variants)
+      setError(null)
+      setIsRunning(true)
+
+      // Sequential so a permission prompt from the first request does not race the second
+      for (const variant of variants) {
+        const outcome = await probeRequest(
+          variant.url,
+          targetAddressSpace,
+          options,
+          controller.signal
+        )
+        // cancel() or a newer run owns the rows now
+        if (controller.signal.aborted) {
+          return
+        }
+        setRows((prev) =>
+          prev.map((row) => (row.scheme === variant.scheme ? { ...row, ...outcome } : row))
+        )
+      }
+
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setIsRunning(false)
+      }
+    },
+    []
+  )
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setIsRunning(false)
+    setRows((prev) =>
+      prev.map((row) => (row.status === 'loading' ? { ...row, status: 'idle' } : row))
+    )
+  }, [])
+
+  const rerun = useCallback(
+    (nextPorts: SchemePorts) => {
+      if (lastRequest) {
+        run(lastRequest.url, lastRequest.targetAddressSpace, lastRequest.options, nextPorts)
+      }
+    },
+    [lastRequest, run]
+  )
+
+  const clear = useCallback(() => {
+    setRows([])
+    setPorts(null)
+    setLastRequest(null)
+    setError(null)
+  }, [])
+
+  return { rows, ports, isRunning, error, run, rerun, cancel, clear }
+}
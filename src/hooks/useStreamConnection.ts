@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type {
+  StreamClose,
+  StreamLogEntry,
+  StreamLogKind,
+  StreamState,
+  StreamTransport,
+} from '@/types/lna'
+import { queryLNAPermission } from '@/lib/lna-permissions'
+import { STREAM_EVENT_DONE, describeStreamFailure } from '@/lib/stream-connections'
+
+const MAX_LOG_ENTRIES = 200
+
+export function useStreamConnection() {
+  const [transport, setTransport] = useState<StreamTransport | null>(null)
+  const [url, setUrl] = useState<string | null>(null)
+  const [state, setState] = useState<StreamState>('idle')
+  const [log, setLog] = useState<StreamLogEntry[]>([])
+  const [closeInfo, setCloseInfo] = useState<StreamClose | null>(null)
+  const socketRef = useRef<WebSocket | null>(null)
+  const sourceRef = useRef<EventSource | null>(null)
+  const nextIdRef = useRef(1)
+
+  const append = useCallback((kind: StreamLogKind, text: string, eventName?: string) => {
+    const entry = { id: nextIdRef.current++, timestamp: Date.now(), kind, text, eventName }
+    setLog((prev) => [...prev, entry].slice(-MAX_LOG_ENTRIES))
+  }, [])
+
+  const explainFailure = useCallback(
+    async (streamTransport: StreamTransport, target: string, opened: boolean) => {
+      let permission = null
+      try {
+        permission = await queryLNAPermission()
+      } catch (error) {
+        console.log('LNA permission query error:', error)
+      }
+      append('error', describeStreamFailure(streamTransport, target, permission, opened))
+    },
+    [append]
+  )
+
+  const teardown = useCallback(() => {
+    socketRef.current?.close()
+    socketRef.current = null
+    sourceRef.current?.close()
+    sourceRef.current = null
+  }, [])
+
+  const connectWebSocket = useCallback(
+    (target: string) => {
+      let opened = false
+      let socket: WebSocket
+      try {
+        socket = new WebSocket(target)
+      } catch (error) {
+        setState('error')
+        append('error', error instanceof Error ? error.message : String(error))
+        return
+      }
+      socketRef.current = socket
+
+      socket.addEventListener('open', () => {
+        opened = true
+        setState('open')
+        append('open', `Connected (protocol: ${socket.protocol || 'none'})`)
+      })
+      socket.addEventListener('message', (event) => {
+        const data = event.data
+        append(
+          'received',
+          typeof data === 'string' ? data : `[binary ${data.size ?? data.byteLength} bytes]`
+        )
+      })
+      socket.addEventListener('error', () => {
+        if (socketRef.current === socket) {
+          explainFailure('websocket', target, opened)
+        }
+      })
+      socket.addEventListener('close', (event) => {
+        // A socket replaced by connect() or reset() should not overwrite the current state
+        if (socketRef.current !== socket) {
+          return
+        }
+        socketRef.current = null
+        setCloseInfo({ code: event.code, reason: event.reason, wasClean: event.wasClean })
+        setState(opened ? 'closed' : 'error')
+        append('close', `Closed with code ${event.code}${event.reason ? `: ${event.reason}` : ''}`)
+      })
+    },
+    [append, explainFailure]
+  )
+
+  const connectEventSource = useCallback(
+    (target: string, eventNames: string[]) => {
+      let opened = false
+      let source: EventSource
+      try {
+        source = new EventSource(target)
+      } catch (error) {
+        setState('error')
+        append('error', error instanceof Error ? error.message : String(error))
+        return
+      }
+      sourceRef.current = source
+
+      source.addEventListener('open', () => {
+        opened = true
+        setState('open')
+        append('open', 'Stream opened')
+      })
+      source.addEventListener('message', (event) => {
+        append('received', event.data, 'message')
+      })
+      eventNames.forEach((name) => {
+        source.addEventListener(name, (event) => {
+          append('received', (event as MessageEvent<string>).data, name)
+          // The test server sends `done` after its last event; without closing here the browser
+          // would reconnect and replay the stream
+          if (name === STREAM_EVENT_DONE) {
+            source.close()
+            sourceRef.current = null
+            setState('closed')
+            append('close', 'Closed after the server signalled the end of the stream')
+          }
+        })
+      })
+      source.addEventListener('error', () => {
+        // CONNECTING means the browser is retrying on its own; CLOSED means it gave up
+        if (source.readyState === EventSource.CONNECTING) {
+          append('info', 'Connection lost, the browser is reconnecting...')
+          setState('connecting')
+          return
+        }
+        sourceRef.current = null
+        setState('error')
+        explainFailure('eventsource', target, opened)
+      })
+    },
+    [append, explainFailure]
+  )
+
+  const connect = useCallback(
+    (streamTransport: StreamTransport, target: string, eventNames: string[] = []) => {
+      teardown()
+      setTransport(streamTransport)
+      setUrl(target)
+      setLog([])
+      setCloseInfo(null)
+      setState('connecting')
+      append('info', `Connecting to ${target}`)
+
+      if (streamTransport === 'websocket') {
+        connectWebSocket(target)
+      } else {
+        connectEventSource(target, eventNames)
+      }
+    },
+    [append, connectEventSource, connectWebSocket, teardown]
+  )
+
+  const send = useCallback(
+    (message: string) => {
+      const socket = socketRef.current
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(message)
+        append('sent', message)
+      }
+    },
+    [append]
+  )
+
+  const close = useCallback(
+    (code?: number, reason?: string) => {
+      if (socketRef.current) {
+        socketRef.current.close(code, reason)
+        return
+      }
+      if (sourceRef.current) {
+        sourceRef.current.close()
+        sourceRef.current = null
+        setState('closed')
+        append('close', 'Stream closed by the page')
+      }
+    },
+    [append]
+  )
+
+  const reset = useCallback(() => {
+    teardown()
+    setTransport(null)
+    setUrl(null)
+    setLog([])
+    setCloseInfo(null)
+    setState('idle')
+  }, [teardown])
+
+  useEffect(() => teardown, [teardown])
+
+  return { transport, url, state, log, closeInfo, connect, send, close, reset }
+}
@@ -0,0 +1,30 @@
+import { useState, useCallback, useRef } from 'react'
+import type { SubresourceKind, SubresourceProbeResult } from '@/types/lna'
+import { probeSubresource } from '@/lib/subresource-probes'
+
+export function useSubresourceProbes() {
+  const [results, setResults] = useState<SubresourceProbeResult[]>([])
+  const runIdRef = useRef(0)
+
+  const run = useCallback(async (url: string, kinds: SubresourceKind[], timeoutMs?: number) => {
+    const runId = ++runIdRef.current
+    setResults(kinds.map((kind) => ({ kind, status: 'loading' })))
+
+    // Started together in this call stack so window.open still has user activation
+    await Promise.all(
+      kinds.map(async (kind) => {
+        const result = await probeSubresource(kind, url, timeoutMs)
+        if (runIdRef.current === runId) {
+          setResults((prev) => prev.map((r) => (r.kind === kind ? result : r)))
+        }
+      })
+    )
+  }, [])
+
+  const clear = useCallback(() => {
+    runIdRef.current++
+    setResults([])
+  }, [])
+
+  return { results, run, clear }
+}
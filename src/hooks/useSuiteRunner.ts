@@ -0,0 +1,64 @@
+import { useState, useCallback, useRef } from 'react'
+import type { SuiteCaseResult, TestSuite } from '@/types/lna'
+import { executeCase, failedCaseResult, resolveCaseUrl } from '@/lib/test-suite'
+
+export function useSuiteRunner() {
+  const [results, setResults] = useState<SuiteCaseResult[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Cases run one at a time so a single permission prompt covers the whole suite
+  const run = useCallback(async (suite: TestSuite) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    setResults(
+      suite.cases.map((testCase) => ({
+        name: testCase.name,
+        url: resolveCaseUrl(suite, testCase),
+        method: testCase.method ?? 'GET',
+        status: 'pending',
+        assertions: [],
+      }))
+    )
+    setIsRunning(true)
+
+    const update = (index: number, patch: Partial<SuiteCaseResult>) => {
+      setResults((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)))
+    }
+
+    for (const [index, testCase] of suite.cases.entries()) {
+      update(index, { status: 'running' })
+      let result: SuiteCaseResult
+      try {
+        result = await executeCase(suite, testCase, controller.signal)
+      } catch (error) {
+        result = failedCaseResult(suite, testCase, error)
+      }
+      // cancel() or a newer run owns the results now
+      if (controller.signal.aborted) {
+        return
+      }
+      update(index, result)
+    }
+
+    if (controllerRef.current === controller) {
+      controllerRef.current = null
+      setIsRunning(false)
+    }
+  }, [])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setIsRunning(false)
+    setResults((prev) =>
+      prev.map((r) =>
+        r.status === 'pending' || r.status === 'running' ? { ...r, status: 'skipped' } : r
+      )
+    )
+  }, [])
+
+  return { results, isRunning, run, cancel }
+}
@@ -0,0 +1,138 @@
+import type { AddressClassification, TargetAddressSpace } from '@/types/lna'
+
+export const TARGET_ADDRESS_SPACES: TargetAddressSpace[] = [
+  'loopback',
+  'local',
+  'private',
+  'public',
+  'unknown',
+  'none',
+]
+
+type Classified = Omit<AddressClassification, 'host'>
+
+function parseIPv4(host: string): number[] | null {
+  const parts = host.split('.')
+  if (parts.length !== 4) {
+    return null
+  }
+  const octets = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN))
+  return octets.every((octet) => octet >= 0 && octet <= 255) ? octets : null
+}
+
+// Expands an IPv6 literal with "::" compression to 8 hextets. WHATWG URL parsing already
+// rewrites dotted IPv4 tails (::ffff:1.2.3.4) into hex, so only hex groups are accepted here.
+function parseIPv6(host: string): number[] | null {
+  if (!host.includes(':')) {
+    return null
+  }
+
+  const halves = host.toLowerCase().split('::')
+  if (halves.length > 2) {
+    return null
+  }
+
+  const toGroups = (part: string) => (part ? part.split(':') : [])
+  const head = toGroups(halves[0])
+  const rest = halves.length === 2 ? toGroups(halves[1]) : []
+  const missing = 8 - head.length - rest.length
+  if (missing < 0 || (halves.length === 1 && missing !== 0)) {
+    return null
+  }
+
+  const hextets = [...head, ...Array<string>(missing).fill('0'), ...rest].map((group) =>
+    /^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN
+  )
+  return hextets.some(Number.isNaN) ? null : hextets
+}
+
+function classifyIPv4([a, b]: number[]): Classified {
+  if (a === 127) {
+    return { targetAddressSpace: 'loopback', reason: 'IPv4 loopback (127.0.0.0/8)' }
+  }
+  if (a === 169 && b === 254) {
+    return { targetAddressSpace: 'local', reason: 'IPv4 link-local (169.254.0.0/16)' }
+  }
+  if (a === 10) {
+    return { targetAddressSpace: 'private', reason: 'RFC1918 private range (10.0.0.0/8)' }
+  }
+  if (a === 172 && b >= 16 && b <= 31) {
+    return { targetAddressSpace: 'private', reason: 'RFC1918 private range (172.16.0.0/12)' }
+  }
+  if (a === 192 && b === 168) {
+    return { targetAddressSpace: 'private', reason: 'RFC1918 private range (192.168.0.0/16)' }
+  }
+  return { targetAddressSpace: 'public', reason: 'Publicly routable IPv4 address' }
+}
+
+function classifyIPv6(hextets: number[]): Classified {
+  const isZeroUntil = (end: number) => hextets.slice(0, end).every((h) => h === 0)
+
+  if (isZeroUntil(7) && hextets[7] === 1) {
+    return { targetAddressSpace: 'loopback', reason: 'IPv6 loopback (::1)' }
+  }
+  if (isZeroUntil(5) && hextets[5] === 0xffff) {
+    const ipv4 = [hextets[6] >> 8, hextets[6] & 0xff, hextets[7] >> 8, hextets[7] & 0xff]
+    const inner = classifyIPv4(ipv4)
+    return { ...inner, reason: `IPv4-mapped ${ipv4.join('.')}: ${inner.reason}` }
+  }
+  if ((hextets[0] & 0xffc0) === 0xfe80) {
+    return { targetAddressSpace: 'local', reason: 'IPv6 link-local (fe80::/10)' }
+  }
+  if ((hextets[0] & 0xfe00) === 0xfc00) {
+    return { targetAddressSpace: 'private', reason: 'IPv6 unique local address (fc00::/7)' }
+  }
+  return { targetAddressSpace: 'public', reason: 'Publicly routable IPv6 address' }
+}
+
+function parseHost(input: string): string | null {
+  const trimmed = input.trim()
+  if (!trimmed) {
+    return null
+  }
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`
+  try {
+    return new URL(withScheme).hostname
+  } catch {
+    return null
+  }
+}
+
+// Targets LNA applies to; public and unresolved DNS names never prompt on their own
+export function isLocalNetworkTarget(url: string): boolean {
+  const space = classifyAddressSpace(url)?.targetAddressSpace
+  return space === 'loopback' || space === 'local' || space === 'private'
+}
+
+export function classifyAddressSpace(url: string): AddressClassification | null {
+  const hostname = parseHost(url)
+  if (!hostname) {
+    return null
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '')
+
+  const ipv4 = parseIPv4(host)
+  if (ipv4) {
+    return { host, ...classifyIPv4(ipv4) }
+  }
+
+  const ipv6 = parseIPv6(host)
+  if (ipv6) {
+    return { host, ...classifyIPv6(ipv6) }
+  }
+
+  const name = host.toLowerCase()
+  if (name === 'localhost' || name.endsWith('.localhost')) {
+    return { host, targetAddressSpace: 'loopback', reason: 'localhost always resolves to loopback' }
+  }
+  if (name.endsWith('.local')) {
+    return { host, targetAddressSpace: 'local', reason: 'mDNS .local name on the local link' }
+  }
+
+  return {
+    host,
+    targetAddressSpace: 'unknown',
+    reason: 'DNS name; the address space depends on what it resolves to',
+  }
+}
@@ -0,0 +1,100 @@
+import type {
+  AutomationRequest,
+  AutomationResult,
+  LNAExplorerAutomation,
+  PermissionState,
+  SuiteCaseResult,
+  TestSuite,
+} from '@/types/lna'
+import { getBrowserInfo } from './browser-detection'
+import { queryLNAPermission, runLocalNetworkRequest } from './lna-permissions'
+import { executeCase, failedCaseResult, parseSuite } from './test-suite'
+
+export const AUTOMATION_API_VERSION = 2
+
+declare global {
+  interface Window {
+    __lnaExplorer?: LNAExplorerAutomation
+  }
+}
+
+async function currentPermission(): Promise<PermissionState | null> {
+  const status = await queryLNAPermission()
+  return status.state
+}
+
+export function createAutomationApi(
+  onResultsChange?: (results: AutomationResult[]) => void
+): LNAExplorerAutomation {
+  let results: AutomationResult[] = []
+  let nextId = 1
+
+  const publish = (next: AutomationResult[]) => {
+    results = next
+    onResultsChange?.(results)
+  }
+
+  return {
+    version: AUTOMATION_API_VERSION,
+    getPermissionStatus: () => queryLNAPermission(),
+    getBrowserInfo: () => getBrowserInfo(),
+
+    async sendRequest(request: AutomationRequest) {
+      const id = nextId++
+      const startedAt = Date.now()
+      const permissionBefore = await currentPermission()
+      const response = await runLocalNetworkRequest(request.url, request.targetAddressSpace, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        timeoutMs: request.timeoutMs,
+      })
+      const result: AutomationResult = {
+        id,
+        request,
+        permissionBefore,
+        permissionAfter: await currentPermission(),
+        startedAt,
+        response,
+      }
+      publish([...results, result])
+      return result
+    },
+
+    async runSuite(suite: TestSuite | string) {
+      let parsed: TestSuite
+      try {
+        parsed = typeof suite === 'string' ? parseSuite(suite) : suite
+      } catch (error) {
+        return {
+          ok: false,
+          error: {
+            kind: 'invalid-suite',
+            message: error instanceof Error ? error.message : String(error),
+          },
+        }
+      }
+      const caseResults: SuiteCaseResult[] = []
+      for (const testCase of parsed.cases) {
+        try {
+          caseResults.push(await executeCase(parsed, testCase))
+        } catch (error) {
+          caseResults.push(failedCaseResult(parsed, testCase, error))
+        }
+      }
+      return { ok: true, value: caseResults }
+    },
+
+    getResults: () => results,
+    clearResults: () => publish([]),
+  }
+}
+
+export function installAutomationApi(api: LNAExplorerAutomation): () => void {
+  window.__lnaExplorer = api
+  return () => {
+    if (window.__lnaExplorer === api) {
+      delete window.__lnaExplorer
+    }
+  }
+}
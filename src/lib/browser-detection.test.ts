@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest'
+import { clientHints, stubNavigator, USER_AGENTS } from '@/test/mocks'
+import { detectBrowserEnvironment, getBrowserInfo } from './browser-detection'
+
+describe('detectBrowserEnvironment', () => {
+  it.each([
+    ['chrome142', 'Chrome', '142.0.0.0', 'Blink', '142.0.0.0', 'Windows'],
+    ['edge143', 'Edge', '143.0.0.0', 'Blink', '143.0.0.0', 'Windows'],
+    ['firefox', 'Firefox', '145.0', 'Gecko', '145.0', 'macOS'],
+    ['safari', 'Safari', '26.0', 'WebKit', '605.1.15', 'macOS'],
+    ['chromeIos', 'Mobile Chrome', '142.0.7444.46', 'WebKit', '605.1.15', 'iOS'],
+    ['androidWebView', 'Chrome WebView', '142.0.0.0', 'Blink', '142.0.0.0', 'Android'],
+    ['electron', 'Electron', '39.0.0', 'Blink', '142.0.0.0', 'macOS'],
+    ['opera', 'Opera', '126.0.0.0', 'Blink', '142.0.0.0', 'Windows'],
+    ['samsungInternet', 'Samsung Internet', '28.0', 'Blink', '130.0.0.0', 'Android'],
+  ] as const)(
+    'parses %s from the user agent string',
+    (key, name, version, engine, engineVersion, os) => {
+      expect(detectBrowserEnvironment(USER_AGENTS[key])).toEqual({
+        name,
+        version,
+        engine,
+        engineVersion,
+        os,
+        brands: [],
+        usedClientHints: false,
+      })
+    }
+  )
+
+  it('falls back to Unknown for user agents it cannot parse', () => {
+    expect(detectBrowserEnvironment(USER_AGENTS.curl)).toMatchObject({
+      name: 'Unknown',
+      version: '0',
+      engine: 'Unknown',
+      engineVersion: '0',
+      os: 'Unknown',
+    })
+  })
+
+  it('unmasks Brave, whose user agent string is plain Chrome, through client hints', () => {
+    const env = detectBrowserEnvironment(
+      USER_AGENTS.chrome142,
+      clientHints({ Chromium: '142', Brave: '142' })
+    )
+
+    expect(env).toMatchObject({ name: 'Brave', version: '142', usedClientHints: true })
+    expect(env.brands).toEqual(['Chromium', 'Brave'])
+  })
+
+  it('keeps the parsed name when the user agent already identifies the browser', () => {
+    const env = detectBrowserEnvironment(
+      USER_AGENTS.opera,
+      clientHints({ Chromium: '142', Opera: '126' })
+    )
+
+    expect(env).toMatchObject({ name: 'Opera', version: '126.0.0.0' })
+  })
+
+  it('drops GREASE brands', () => {
+    const env = detectBrowserEnvironment(USER_AGENTS.chrome142, {
+      brands: [
+        { brand: 'Not)A;Brand', version: '8' },
+        { brand: 'Chromium', version: '142' },
+        { brand: 'Google Chrome', version: '142' },
+      ],
+      mobile: false,
+      platform: 'Windows',
+    })
+
+    expect(env.brands).toEqual(['Chromium', 'Google Chrome'])
+  })
+
+  it('takes the engine version from the Chromium brand over a reduced user agent', () => {
+    const env = detectBrowserEnvironment(
+      USER_AGENTS.chrome141,
+      clientHints({ Chromium: '142', 'Google Chrome': '142' }, 'Linux')
+    )
+
+    expect(env).toMatchObject({ version: '141.0.0.0', engineVersion: '142' })
+  })
+
+  it('ignores the Chromium brand for non-Blink engines', () => {
+    const env = detectBrowserEnvironment(USER_AGENTS.firefox, clientHints({ Chromium: '142' }))
+
+    expect(env.engineVersion).toBe('145.0')
+  })
+})
+
+describe('getBrowserInfo', () => {
+  it.each([
+    ['chrome142', 'chrome', true],
+    ['chrome141', 'chrome', false],
+    ['edge143', 'edge', true],
+    ['edge142', 'edge', false],
+    ['firefox', 'firefox', false],
+    ['safari', 'safari', false],
+    ['chromeIos', 'ios-webkit', false],
+    ['androidWebView', 'android-webview', false],
+    ['electron', 'electron', false],
+    ['opera', 'opera', true],
+    ['samsungInternet', 'samsung-internet', false],
+    ['vivaldi', 'other-chromium', true],
+  ] as const)('judges %s by the %s entry', (key, entryId, isLikelySupported) => {
+    const info = getBrowserInfo(detectBrowserEnvironment(USER_AGENTS[key]))
+
+    expect(info.supportEntryId).toBe(entryId)
+    expect(info.isLikelySupported).toBe(isLikelySupported)
+    expect(info.supportTableVersion).toBe(1)
+    expect(info.features?.map((f) => f.feature)).toEqual([
+      'permission-query',
+      'target-address-space',
+      'iframe-allow',
+    ])
+  })
+
+  it('explains a version below the threshold', () => {
+    const info = getBrowserInfo(detectBrowserEnvironment(USER_AGENTS.edge142))
+
+    expect(info.supportReason).toBe('Edge: Requires Edge 143+, detected 142')
+  })
+
+  it('reports unknown support without a matching entry', () => {
+    const info = getBrowserInfo(detectBrowserEnvironment(USER_AGENTS.curl))
+
+    expect(info.supportEntryId).toBeUndefined()
+    expect(info.isLikelySupported).toBe(false)
+    expect(info.supportReason).toBe(
+      'Unknown: Unknown support unknown. Try Chrome 142+ or Edge 143+'
+    )
+  })
+
+  it('reads navigator.userAgent and userAgentData by default', () => {
+    stubNavigator({
+      userAgent: USER_AGENTS.chrome142,
+      userAgentData: clientHints({ Chromium: '142', Brave: '142' }),
+    })
+
+    const info = getBrowserInfo()
+
+    expect(info).toMatchObject({
+      name: 'Brave',
+      usedClientHints: true,
+      supportEntryId: 'brave',
+      isLikelySupported: true,
+    })
+    expect(info.supportReason).toBe(
+      'Brave: Expected since Chromium 142 (inherited from Chromium, unverified). Shields may still block local requests'
+    )
+  })
+})
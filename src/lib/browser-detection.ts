@@ -1,70 +1,85 @@
 import { UAParser } from 'ua-parser-js'
-import type { BrowserInfo } from '@/types/lna'
+import type { BrowserEnvironment, BrowserInfo } from '@/types/lna'
+import { SUPPORT_TABLE, evaluateSupport, isLikelyAvailable } from './browser-support'
 
-export function getBrowserInfo(): BrowserInfo {
-  const parser = new UAParser()
-  const browser = parser.getBrowser()
-  const browserName = browser.name || 'Unknown'
-  const browserVersion = browser.version || '0'
+// Not in TypeScript's DOM lib yet; only the low-entropy values are read so no promise is needed
+type UserAgentData = {
+  brands: { brand: string; version: string }[]
+  mobile: boolean
+  platform: string
+}
 
-  const { isLikelySupported, supportReason } = checkLikelySupport(browserName, browserVersion)
+// Brands that identify a browser whose user agent string is indistinguishable from Chrome
+const MASKED_BRANDS: Record<string, string> = {
+  Brave: 'Brave',
+  Opera: 'Opera',
+  'Opera GX': 'Opera GX',
+  'Microsoft Edge': 'Edge',
+  'Samsung Internet': 'Samsung Internet',
+}
 
-  return {
-    name: browserName,
-    version: browserVersion,
-    isLikelySupported,
-    supportReason,
-  }
+const GENERIC_CHROME_NAMES = ['Chrome', 'Mobile Chrome', 'Chromium']
+
+// GREASE brands look like "Not)A;Brand" and exist only to break naive parsers
+const GREASE_BRAND = /not.?a.?brand/i
+
+function getUserAgentData(): UserAgentData | undefined {
+  return (navigator as Navigator & { userAgentData?: UserAgentData }).userAgentData
 }
 
-function checkLikelySupport(
-  browserName: string,
-  browserVersion: string
-): { isLikelySupported: boolean; supportReason?: string } {
-  const versionNumber = parseInt(browserVersion, 10)
+export function detectBrowserEnvironment(
+  userAgent: string,
+  userAgentData?: UserAgentData
+): BrowserEnvironment {
+  const result = new UAParser(userAgent).getResult()
+  const brands = (userAgentData?.brands ?? []).filter(({ brand }) => !GREASE_BRAND.test(brand))
 
-  if (browserName.includes('Chrome') || browserName.includes('Chromium')) {
-    if (versionNumber >= 142) {
-      return {
-        isLikelySupported: true,
-        supportReason: `Chrome ${versionNumber}+ supports LNA`,
-      }
-    }
-    return {
-      isLikelySupported: false,
-      supportReason: `Chrome ${versionNumber} detected. LNA requires Chrome 142+`,
-    }
+  let name = result.browser.name || 'Unknown'
+  let version = result.browser.version || '0'
+  const masked = brands.find(({ brand }) => brand in MASKED_BRANDS)
+  if (masked && GENERIC_CHROME_NAMES.includes(name)) {
+    name = MASKED_BRANDS[masked.brand]
+    version = masked.version
   }
 
-  if (browserName.includes('Edge') || browserName.includes('Edg')) {
-    if (versionNumber >= 143) {
-      return {
-        isLikelySupported: true,
-        supportReason: `Edge ${versionNumber}+ supports LNA`,
-      }
-    }
-    return {
-      isLikelySupported: false,
-      supportReason: `Edge ${versionNumber} detected. LNA requires Edge 143+`,
-    }
-  }
+  // Client hints report the Chromium major even when the UA string is reduced or spoofed
+  const chromium = brands.find(({ brand }) => brand === 'Chromium')
+  const engine = result.engine.name || 'Unknown'
+  const engineVersion =
+    engine === 'Blink' && chromium ? chromium.version : result.engine.version || '0'
 
-  if (browserName.includes('Firefox')) {
-    return {
-      isLikelySupported: false,
-      supportReason: 'Firefox support is in prototyping stage',
-    }
+  return {
+    name,
+    version,
+    engine,
+    engineVersion,
+    os: result.os.name || 'Unknown',
+    brands: brands.map(({ brand }) => brand),
+    usedClientHints: brands.length > 0,
   }
+}
 
-  if (browserName.includes('Safari')) {
-    return {
-      isLikelySupported: false,
-      supportReason: 'Safari does not support LNA',
-    }
-  }
+export function getBrowserInfo(
+  // Explicit so detection also works in workers, where ua-parser-js cannot find window.navigator
+  env: BrowserEnvironment = detectBrowserEnvironment(navigator.userAgent, getUserAgentData())
+): BrowserInfo {
+  const { entry, features } = evaluateSupport(env)
+  const permissionQuery = features.find((f) => f.feature === 'permission-query')
+  const isLikelySupported = permissionQuery ? isLikelyAvailable(permissionQuery.status) : false
 
   return {
-    isLikelySupported: false,
-    supportReason: `${browserName} support unknown. Try Chrome 142+ or Edge 143+`,
+    name: env.name,
+    version: env.version,
+    isLikelySupported,
+    supportReason: permissionQuery
+      ? `${entry?.label ?? env.name}: ${permissionQuery.detail}`
+      : undefined,
+    engine: env.engine,
+    engineVersion: env.engineVersion,
+    os: env.os,
+    usedClientHints: env.usedClientHints,
+    supportEntryId: entry?.id,
+    supportTableVersion: SUPPORT_TABLE.version,
+    features,
   }
 }
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest'
+import type { BrowserEnvironment, BrowserSupportEntry, BrowserSupportTable } from '@/types/lna'
+import {
+  SUPPORT_TABLE,
+  describeRule,
+  evaluateSupport,
+  findSupportEntry,
+  isLikelyAvailable,
+  shippingBrowsers,
+} from './browser-support'
+
+function env(overrides: Partial<BrowserEnvironment> = {}): BrowserEnvironment {
+  return {
+    name: 'Chrome',
+    version: '142.0.0.0',
+    engine: 'Blink',
+    engineVersion: '142.0.0.0',
+    os: 'Windows',
+    brands: [],
+    usedClientHints: false,
+    ...overrides,
+  }
+}
+
+function entry(id: string): BrowserSupportEntry {
+  const found = SUPPORT_TABLE.entries.find((e) => e.id === id)
+  if (!found) {
+    throw new Error(`No support entry ${id}`)
+  }
+  return found
+}
+
+describe('findSupportEntry', () => {
+  it('checks iOS before the browser name, since every iOS browser is WebKit', () => {
+    expect(findSupportEntry(env({ name: 'Mobile Chrome', engine: 'WebKit', os: 'iOS' }))?.id).toBe(
+      'ios-webkit'
+    )
+  })
+
+  it('matches by client hint brand when the name is generic', () => {
+    expect(findSupportEntry(env({ brands: ['Chromium', 'Microsoft Edge'] }))?.id).toBe('edge')
+  })
+
+  it('requires the engine as well as the name or brand', () => {
+    const table: BrowserSupportTable = {
+      ...SUPPORT_TABLE,
+      entries: [{ ...entry('chrome'), match: { browsers: ['Chrome'], engines: ['Gecko'] } }],
+    }
+
+    expect(findSupportEntry(env(), table)).toBeUndefined()
+  })
+
+  it('falls through to other-chromium for unlisted Blink browsers', () => {
+    expect(findSupportEntry(env({ name: 'Vivaldi' }))?.id).toBe('other-chromium')
+  })
+
+  it('returns undefined when nothing matches', () => {
+    expect(findSupportEntry(env({ name: 'Unknown', engine: 'Unknown' }))).toBeUndefined()
+  })
+})
+
+describe('describeRule', () => {
+  it('names the browser for browser-versioned entries', () => {
+    expect(describeRule(entry('chrome'), { status: 'supported', since: 142 })).toBe(
+      'Supported since Chrome 142'
+    )
+  })
+
+  it('names Chromium for engine-versioned entries', () => {
+    expect(describeRule(entry('opera'), { status: 'expected', since: 142 })).toBe(
+      'Expected since Chromium 142 (inherited from Chromium, unverified)'
+    )
+  })
+
+  it('appends the note', () => {
+    expect(describeRule(entry('safari'), { status: 'unsupported', note: 'No plans' })).toBe(
+      'Not supported. No plans'
+    )
+  })
+
+  it('describes unknown support without a version', () => {
+    expect(describeRule(entry('electron'), { status: 'unknown' })).toBe('Unknown')
+  })
+})
+
+describe('evaluateSupport', () => {
+  it('reports every feature as supported from the threshold version on', () => {
+    const { entry: matched, features } = evaluateSupport(env())
+
+    expect(matched?.id).toBe('chrome')
+    expect(features.map((f) => f.status)).toEqual(['supported', 'supported', 'supported'])
+  })
+
+  it('downgrades to unsupported below the threshold version', () => {
+    const { features } = evaluateSupport(env({ version: '141.0.0.0' }))
+
+    expect(features[0]).toEqual({
+      feature: 'permission-query',
+      status: 'unsupported',
+      detail: 'Requires Chrome 142+, detected 141',
+    })
+  })
+
+  it('compares the engine version for engine-versioned entries', () => {
+    const { features } = evaluateSupport(
+      env({ name: 'Samsung Internet', version: '28.0', engineVersion: '130.0.0.0' })
+    )
+
+    expect(features[0].detail).toBe('Requires Chromium 142+, detected 130')
+  })
+
+  it('treats an unparseable version as unsupported', () => {
+    const { features } = evaluateSupport(env({ version: 'beta' }))
+
+    expect(features[0]).toMatchObject({
+      status: 'unsupported',
+      detail: 'Requires Chrome 142+, detected unknown version',
+    })
+  })
+
+  it('skips the version check for unsupported and unknown rules', () => {
+    const { features } = evaluateSupport(
+      env({ name: 'Electron', version: '39.0.0', engineVersion: '120.0.0.0' })
+    )
+
+    expect(features.map((f) => f.status)).toEqual(['unknown', 'unsupported', 'unsupported'])
+    expect(features[0].detail).toBe(
+      'Unknown. Decided by the app through session.setPermissionRequestHandler, not a browser prompt'
+    )
+  })
+
+  it('keeps rules without a since version as they are', () => {
+    const table: BrowserSupportTable = {
+      ...SUPPORT_TABLE,
+      entries: [
+        {
+          ...entry('chrome'),
+          features: {
+            'permission-query': { status: 'expected' },
+            'target-address-space': { status: 'supported' },
+            'iframe-allow': { status: 'supported' },
+          },
+        },
+      ],
+    }
+
+    const { features } = evaluateSupport(env({ version: '1' }), table)
+
+    expect(features.map((f) => f.status)).toEqual(['expected', 'supported', 'supported'])
+  })
+
+  it('marks every feature unknown without a matching entry', () => {
+    const result = evaluateSupport(env({ name: 'Lynx', engine: 'Unknown' }))
+
+    expect(result.entry).toBeUndefined()
+    expect(result.features).toEqual(
+      SUPPORT_TABLE.features.map(({ feature }) => ({
+        feature,
+        status: 'unknown',
+        detail: 'Lynx support unknown. Try Chrome 142+ or Edge 143+',
+      }))
+    )
+  })
+})
+
+describe('shippingBrowsers', () => {
+  it('lists the browsers that support every feature, oldest version first', () => {
+    expect(shippingBrowsers()).toEqual(['Chrome 142+', 'Edge 143+'])
+  })
+})
+
+describe('isLikelyAvailable', () => {
+  it.each([
+    ['supported', true],
+    ['expected', true],
+    ['unsupported', false],
+    ['unknown', false],
+  ] as const)('%s -> %s', (status, expected) => {
+    expect(isLikelyAvailable(status)).toBe(expected)
+  })
+})
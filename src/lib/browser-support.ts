@@ -0,0 +1,249 @@
+import type {
+  BrowserEnvironment,
+  BrowserSupportEntry,
+  BrowserSupportTable,
+  FeatureSupport,
+  FeatureSupportRule,
+  FeatureSupportStatus,
+  LNAFeature,
+} from '@/types/lna'
+
+const CHROMIUM_LNA = 142
+
+function allFeatures(rule: FeatureSupportRule): Record<LNAFeature, FeatureSupportRule> {
+  return {
+    'permission-query': rule,
+    'target-address-space': rule,
+    'iframe-allow': rule,
+  }
+}
+
+// Bump version whenever an entry changes so saved reports can tell which table they were judged by
+export const SUPPORT_TABLE: BrowserSupportTable = {
+  version: 1,
+  updated: '2025-11',
+  features: [
+    {
+      feature: 'permission-query',
+      label: 'Permission query',
+      api: "navigator.permissions.query({ name: 'local-network-access' })",
+    },
+    {
+      feature: 'target-address-space',
+      label: 'targetAddressSpace',
+      api: "fetch(url, { targetAddressSpace: 'local' })",
+    },
+    {
+      feature: 'iframe-allow',
+      label: 'iframe allow',
+      api: '<iframe allow="local-network-access">',
+    },
+  ],
+  entries: [
+    {
+      // Chrome, Edge, Firefox and Opera on iOS are all WebKit underneath
+      id: 'ios-webkit',
+      label: 'Any browser on iOS / iPadOS',
+      match: { engines: ['WebKit'], os: ['iOS'] },
+      versionSource: 'engine',
+      features: allFeatures({
+        status: 'unsupported',
+        note: 'iOS browsers must use WebKit, which has no LNA implementation',
+      }),
+    },
+    {
+      id: 'android-webview',
+      label: 'Android WebView',
+      match: { browsers: ['Chrome WebView'] },
+      versionSource: 'engine',
+      features: allFeatures({
+        status: 'unsupported',
+        note: 'WebView has no permission prompt; the embedding app controls network access',
+      }),
+    },
+    {
+      id: 'electron',
+      label: 'Electron',
+      match: { browsers: ['Electron'] },
+      versionSource: 'engine',
+      features: {
+        'permission-query': {
+          status: 'unknown',
+          note: 'Decided by the app through session.setPermissionRequestHandler, not a browser prompt',
+        },
+        'target-address-space': { status: 'expected', since: CHROMIUM_LNA },
+        'iframe-allow': { status: 'expected', since: CHROMIUM_LNA },
+      },
+    },
+    {
+      id: 'brave',
+      label: 'Brave',
+      match: { browsers: ['Brave'], brands: ['Brave'] },
+      versionSource: 'engine',
+      features: allFeatures({
+        status: 'expected',
+        since: CHROMIUM_LNA,
+        note: 'Shields may still block local requests',
+      }),
+    },
+    {
+      id: 'opera',
+      label: 'Opera',
+      match: { browsers: ['Opera', 'Opera GX', 'Opera Mobi'], brands: ['Opera', 'Opera GX'] },
+      versionSource: 'engine',
+      features: allFeatures({ status: 'expected', since: CHROMIUM_LNA }),
+    },
+    {
+      id: 'samsung-internet',
+      label: 'Samsung Internet',
+      match: { browsers: ['Samsung Internet'], brands: ['Samsung Internet'] },
+      versionSource: 'engine',
+      features: allFeatures({
+        status: 'expected',
+        since: CHROMIUM_LNA,
+        note: 'Samsung Internet trails Chrome by several Chromium releases',
+      }),
+    },
+    {
+      id: 'edge',
+      label: 'Edge',
+      match: { browsers: ['Edge'], brands: ['Microsoft Edge'] },
+      versionSource: 'browser',
+      features: allFeatures({ status: 'supported', since: 143 }),
+    },
+    {
+      id: 'chrome',
+      label: 'Chrome',
+      match: {
+        browsers: ['Chrome', 'Mobile Chrome', 'Chrome Headless', 'Chromium'],
+        brands: ['Google Chrome'],
+      },
+      versionSource: 'browser',
+      features: allFeatures({ status: 'supported', since: CHROMIUM_LNA }),
+    },
+    {
+      id: 'firefox',
+      label: 'Firefox',
+      match: { engines: ['Gecko'] },
+      versionSource: 'browser',
+      features: allFeatures({
+        status: 'unsupported',
+        note: 'Firefox support is in prototyping stage',
+      }),
+    },
+    {
+      id: 'safari',
+      label: 'Safari',
+      match: { engines: ['WebKit'] },
+      versionSource: 'browser',
+      features: allFeatures({ status: 'unsupported', note: 'Safari does not support LNA' }),
+    },
+    {
+      id: 'other-chromium',
+      label: 'Other Chromium browsers',
+      match: { engines: ['Blink'] },
+      versionSource: 'engine',
+      features: allFeatures({ status: 'expected', since: CHROMIUM_LNA }),
+    },
+  ],
+}
+
+function matches(entry: BrowserSupportEntry, env: BrowserEnvironment): boolean {
+  const { browsers, brands, engines, os } = entry.match
+  if (browsers || brands) {
+    const byName = browsers?.includes(env.name) ?? false
+    const byBrand = brands?.some((brand) => env.brands.includes(brand)) ?? false
+    if (!byName && !byBrand) {
+      return false
+    }
+  }
+  if (engines && !engines.includes(env.engine)) {
+    return false
+  }
+  if (os && !os.includes(env.os)) {
+    return false
+  }
+  return true
+}
+
+export function findSupportEntry(
+  env: BrowserEnvironment,
+  table: BrowserSupportTable = SUPPORT_TABLE
+): BrowserSupportEntry | undefined {
+  return table.entries.find((entry) => matches(entry, env))
+}
+
+function versionUnit(entry: BrowserSupportEntry): string {
+  return entry.versionSource === 'engine' ? 'Chromium' : entry.label
+}
+
+export function describeRule(entry: BrowserSupportEntry, rule: FeatureSupportRule): string {
+  const unit = versionUnit(entry)
+  const since = rule.since !== undefined ? ` since ${unit} ${rule.since}` : ''
+  const base: Record<FeatureSupportStatus, string> = {
+    supported: `Supported${since}`,
+    expected: `Expected${since} (inherited from Chromium, unverified)`,
+    unsupported: 'Not supported',
+    unknown: 'Unknown',
+  }
+  return rule.note ? `${base[rule.status]}. ${rule.note}` : base[rule.status]
+}
+
+function evaluateRule(
+  entry: BrowserSupportEntry,
+  feature: LNAFeature,
+  env: BrowserEnvironment
+): FeatureSupport {
+  const rule = entry.features[feature]
+  if (rule.since === undefined || rule.status === 'unsupported' || rule.status === 'unknown') {
+    return { feature, status: rule.status, detail: describeRule(entry, rule) }
+  }
+
+  const version = parseInt(entry.versionSource === 'engine' ? env.engineVersion : env.version, 10)
+  const unit = versionUnit(entry)
+  if (Number.isNaN(version) || version < rule.since) {
+    return {
+      feature,
+      status: 'unsupported',
+      detail: `Requires ${unit} ${rule.since}+, detected ${Number.isNaN(version) ? 'unknown version' : version}`,
+    }
+  }
+  return { feature, status: rule.status, detail: describeRule(entry, rule) }
+}
+
+// "Chrome 142+"-style labels for the entries that ship every feature, oldest version first
+export function shippingBrowsers(table: BrowserSupportTable = SUPPORT_TABLE): string[] {
+  return table.entries
+    .flatMap((entry) => {
+      const rules = Object.values(entry.features)
+      const since = rules[0]?.since
+      const ships = rules.every((rule) => rule.status === 'supported' && rule.since === since)
+      return ships && since !== undefined ? [{ label: entry.label, since }] : []
+    })
+    .sort((a, b) => a.since - b.since)
+    .map(({ label, since }) => `${label} ${since}+`)
+}
+
+export function evaluateSupport(
+  env: BrowserEnvironment,
+  table: BrowserSupportTable = SUPPORT_TABLE
+): { entry?: BrowserSupportEntry; features: FeatureSupport[] } {
+  const entry = findSupportEntry(env, table)
+  if (!entry) {
+    return {
+      features: table.features.map(({ feature }) => ({
+        feature,
+        status: 'unknown',
+        detail: `${env.name} support unknown. Try ${shippingBrowsers(table).join(' or ')}`,
+      })),
+    }
+  }
+  return {
+    entry,
+    features: table.features.map(({ feature }) => evaluateRule(entry, feature, env)),
+  }
+}
+
+export function isLikelyAvailable(status: FeatureSupportStatus): boolean {
+  return status === 'supported' || status === 'expected'
+}
@@ -0,0 +1,161 @@
+import type {
+  ContextProbeMessage,
+  ContextProbeRequest,
+  ExecutionContextKind,
+  RequestOptions,
+  TargetAddressSpace,
+} from '@/types/lna'
+import serviceWorkerUrl from '@/workers/service.worker.ts?worker&url'
+
+export const EXECUTION_CONTEXTS: { context: ExecutionContextKind; label: string }[] = [
+  { context: 'main', label: 'Main thread' },
+  { context: 'dedicated-worker', label: 'Dedicated worker' },
+  { context: 'shared-worker', label: 'Shared worker' },
+  { context: 'service-worker', label: 'Service worker' },
+]
+
+// Scoped to an unused path next to the script (a scope may not sit above the script's directory),
+// so the worker never controls the explorer's own pages
+function serviceWorkerScope() {
+  return new URL('./__lna-probe__/', new URL(serviceWorkerUrl, globalThis.location.href)).pathname
+}
+
+export class ContextUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ContextUnavailableError'
+  }
+}
+
+function rejectOnAbort(signal: AbortSignal | undefined, reject: (reason: unknown) => void) {
+  if (signal?.aborted) {
+    reject(signal.reason)
+  }
+  signal?.addEventListener('abort', () => reject(signal.reason), { once: true })
+}
+
+export function createProbeRequest(
+  url: string,
+  targetAddressSpace: TargetAddressSpace,
+  options: RequestOptions
+): ContextProbeRequest {
+  return { id: Math.random().toString(36).slice(2), url, targetAddressSpace, options }
+}
+
+// Resolves once the port has delivered the final (response) message for this request, and
+// rejects if the worker script fails to load or throws, or with the signal's reason once it aborts
+function collectMessages(
+  port: MessagePort | Worker,
+  request: ContextProbeRequest,
+  onMessage: (message: ContextProbeMessage) => void,
+  signal: AbortSignal | undefined,
+  errorSource: EventTarget = port
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    rejectOnAbort(signal, reject)
+    errorSource.addEventListener('error', (event) => {
+      const detail = event instanceof ErrorEvent && event.message ? `: ${event.message}` : ''
+      reject(new ContextUnavailableError(`Worker failed${detail}`))
+    })
+    const listener = (event: MessageEvent<ContextProbeMessage>) => {
+      if (event.data.id !== request.id) {
+        return
+      }
+      onMessage(event.data)
+      if (event.data.type === 'response') {
+        port.removeEventListener('message', listener as EventListener)
+        resolve()
+      }
+    }
+    port.addEventListener('message', listener as EventListener)
+    if (port instanceof MessagePort) {
+      port.start()
+    }
+  })
+}
+
+async function activeServiceWorker(signal?: AbortSignal): Promise<ServiceWorker> {
+  if (!('serviceWorker' in navigator)) {
+    throw new ContextUnavailableError(
+      globalThis.isSecureContext
+        ? 'Service workers are not supported'
+        : 'Service workers require a secure context'
+    )
+  }
+  const registration = await navigator.serviceWorker.register(serviceWorkerUrl, {
+    scope: serviceWorkerScope(),
+    type: 'module',
+  })
+  if (registration.active) {
+    return registration.active
+  }
+  const pending = registration.installing ?? registration.waiting
+  if (!pending) {
+    throw new ContextUnavailableError('Service worker registration has no worker')
+  }
+  return new Promise((resolve, reject) => {
+    rejectOnAbort(signal, reject)
+    pending.addEventListener('statechange', () => {
+      if (pending.state === 'activated') {
+        resolve(pending)
+      } else if (pending.state === 'redundant') {
+        reject(new ContextUnavailableError('Service worker failed to install'))
+      }
+    })
+  })
+}
+
+// Runs the permission query and request inside a fresh worker of the given kind and streams its
+// messages to onMessage. Throws ContextUnavailableError when this browser lacks that worker type,
+// and the signal's reason when it aborts before the worker answers.
+export async function runInWorker(
+  context: Exclude<ExecutionContextKind, 'main'>,
+  request: ContextProbeRequest,
+  onMessage: (message: ContextProbeMessage) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  switch (context) {
+    case 'dedicated-worker': {
+      const worker = new Worker(new URL('../workers/dedicated.worker.ts', import.meta.url), {
+        type: 'module',
+      })
+      try {
+        const done = collectMessages(worker, request, onMessage, signal)
+        worker.postMessage(request)
+        await done
+      } finally {
+        worker.terminate()
+      }
+      return
+    }
+    case 'shared-worker': {
+      if (typeof SharedWorker === 'undefined') {
+        throw new ContextUnavailableError('SharedWorker is not supported in this browser')
+      }
+      const worker = new SharedWorker(new URL('../workers/shared.worker.ts', import.meta.url), {
+        type: 'module',
+        name: 'lna-context-probe',
+      })
+      try {
+        const done = collectMessages(worker.port, request, onMessage, signal, worker)
+        worker.port.postMessage(request)
+        await done
+      } finally {
+        worker.port.close()
+      }
+      return
+    }
+    case 'service-worker': {
+      const worker = await activeServiceWorker(signal)
+      const channel = new MessageChannel()
+      try {
+        const done = collectMessages(channel.port1, request, onMessage, signal)
+        worker.postMessage(request, [channel.port2])
+        await done
+      } finally {
+        channel.port1.close()
+      }
+      return
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import type { DeviceObservation, DeviceRecord, DeviceWarning } from '@/types/lna'
+
+const STORAGE_KEY = 'lna-explorer:device-registry'
+const MAX_WARNINGS = 50
+const MAX_NAME_LENGTH = 248
+
+const DEVICE_ID_PATTERN = /^[0-9a-f]{2}(:[0-9a-f]{2}){5}$/i
+const DEVICE_NAME_PATTERN = /^[a-z0-9_.-]+$/
+
+type StoredRegistry = {
+  devices: DeviceRecord[]
+  warnings: DeviceWarning[]
+}
+
+export function loadRegistry(): StoredRegistry {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) {
+      return { devices: [], warnings: [] }
+    }
+    const parsed = JSON.parse(raw) as Partial<StoredRegistry>
+    return {
+      devices: Array.isArray(parsed.devices) ? parsed.devices : [],
+      warnings: Array.isArray(parsed.warnings) ? parsed.warnings : [],
+    }
+  } catch (error) {
+    console.log('Failed to load device registry:', error)
+    return { devices: [], warnings: [] }
+  }
+}
+
+export function saveRegistry(registry: StoredRegistry) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(registry))
+  } catch (error) {
+    console.log('Failed to save device registry:', error)
+  }
+}
+
+export function isValidDeviceId(id: string): boolean {
+  return DEVICE_ID_PATTERN.test(id)
+}
+
+export function validateDeviceName(name: string): string | undefined {
+  if (new TextEncoder().encode(name).length > MAX_NAME_LENGTH) {
+    return `longer than ${MAX_NAME_LENGTH} bytes`
+  }
+  if (!DEVICE_NAME_PATTERN.test(name)) {
+    return 'only lowercase letters, digits, "_", "-" and "." are allowed'
+  }
+  return undefined
+}
+
+export function hostFromUrl(url: string): string | null {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return null
+  }
+}
+
+export function observeDevice(
+  devices: DeviceRecord[],
+  observation: DeviceObservation,
+  now: number = Date.now()
+): { devices: DeviceRecord[]; warnings: DeviceWarning[] } {
+  const { host, id, name = '' } = observation
+  if (!id) {
+    return { devices, warnings: [] }
+  }
+
+  const warnings: DeviceWarning[] = []
+  const warn = (kind: DeviceWarning['kind'], message: string) =>
+    warnings.push({ kind, deviceId: id, message, timestamp: now })
+
+  const existing = devices.find((device) => device.id === id)
+
+  // Format problems are reported once per identity, not on every request
+  if (!existing && !isValidDeviceId(id)) {
+    warn('invalid-id', `Private-Network-Access-ID "${id}" is not a MAC-style address`)
+  }
+  const nameProblem = name && name !== existing?.name ? validateDeviceName(name) : undefined
+  if (nameProblem) {
+    warn('invalid-name', `Private-Network-Access-Name "${name}" is invalid: ${nameProblem}`)
+  }
+  if (!existing) {
+    const record: DeviceRecord = {
+      id,
+      name,
+      hosts: [host],
+      lastHost: host,
+      firstSeen: now,
+      lastSeen: now,
+      trusted: false,
+    }
+    return { devices: [...devices, record], warnings }
+  }
+
+  if (existing.lastHost !== host) {
+    warn('new-host', `Device ${id} moved from ${existing.lastHost} to ${host}`)
+  }
+  if (name && existing.name && existing.name !== name) {
+    warn('name-changed', `Device ${id} renamed from "${existing.name}" to "${name}"`)
+  }
+
+  const updated: DeviceRecord = {
+    ...existing,
+    name: name || existing.name,
+    hosts: existing.hosts.includes(host) ? existing.hosts : [...existing.hosts, host],
+    lastHost: host,
+    lastSeen: now,
+  }
+  return {
+    devices: devices.map((device) => (device.id === id ? updated : device)),
+    warnings,
+  }
+}
+
+export function appendWarnings(existing: DeviceWarning[], added: DeviceWarning[]) {
+  return [...added, ...existing].slice(0, MAX_WARNINGS)
+}
@@ -0,0 +1,149 @@
+import type {
+  EmbedFrameConfig,
+  EmbedProbeReport,
+  FetchResponse,
+  LNAPermissionStatus,
+  TargetAddressSpace,
+} from '@/types/lna'
+import { trimBase } from './scenarios'
+
+export const EMBED_PROBE_SOURCE = 'lna-embed-probe'
+
+export const PROBE_FRAME_PATH = '/probe-frame'
+
+export const DEFAULT_EMBED_FRAMES: EmbedFrameConfig[] = [
+  {
+    id: 'delegated',
+    label: 'allow="local-network-access"',
+    source: 'test-server',
+    allow: 'local-network-access',
+    sandbox: null,
+    permissionsPolicy: '',
+  },
+  {
+    id: 'not-delegated',
+    label: 'No allow attribute',
+    source: 'test-server',
+    allow: '',
+    sandbox: null,
+    permissionsPolicy: '',
+  },
+  {
+    id: 'policy-blocked',
+    label: 'Delegated, but frame sends Permissions-Policy: local-network-access=()',
+    source: 'test-server',
+    allow: 'local-network-access',
+    sandbox: null,
+    permissionsPolicy: 'local-network-access=()',
+  },
+  {
+    id: 'sandboxed',
+    label: 'Delegated + sandbox="allow-scripts" (opaque origin)',
+    source: 'test-server',
+    allow: 'local-network-access',
+    sandbox: 'allow-scripts',
+    permissionsPolicy: '',
+  },
+  {
+    id: 'sandboxed-same-origin',
+    label: 'Delegated + sandbox="allow-scripts allow-same-origin"',
+    source: 'test-server',
+    allow: 'local-network-access',
+    sandbox: 'allow-scripts allow-same-origin',
+    permissionsPolicy: '',
+  },
+  {
+    id: 'explorer-same-origin',
+    label: 'Explorer probe page (same origin)',
+    source: 'explorer',
+    allow: '',
+    sandbox: null,
+    permissionsPolicy: '',
+  },
+]
+
+export function createFrameId(): string {
+  return `frame-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+}
+
+export function buildFrameSrc(
+  config: EmbedFrameConfig,
+  serverUrl: string,
+  target: string,
+  targetAddressSpace: TargetAddressSpace,
+  runKey: number
+): string {
+  const params = new URLSearchParams({
+    frameId: config.id,
+    run: String(runKey),
+    target,
+    targetAddressSpace,
+  })
+  if (config.source === 'explorer') {
+    // The dev server cannot vary Permissions-Policy per request, so only the test server honours it
+    const base = import.meta.env.BASE_URL.replace(/\/$/, '')
+    return `${globalThis.location.origin}${base}${PROBE_FRAME_PATH}?${params}`
+  }
+  // ?policy= (even empty) overrides the server's --permissions-policy default, so only send a real one
+  if (config.permissionsPolicy) {
+    params.set('policy', config.permissionsPolicy)
+  }
+  return `${trimBase(serverUrl)}/__embed?${params}`
+}
+
+// Messages can come from any frame (or extension), so check the shape before trusting it
+export function isEmbedProbeReport(data: unknown): data is EmbedProbeReport {
+  if (typeof data !== 'object' || data === null) {
+    return false
+  }
+  const report = data as Partial<EmbedProbeReport>
+  return (
+    report.source === EMBED_PROBE_SOURCE &&
+    typeof report.frameId === 'string' &&
+    typeof report.runKey === 'string' &&
+    typeof report.permission === 'object'
+  )
+}
+
+type PolicyApi = { allowsFeature: (feature: string) => boolean }
+
+// document.permissionsPolicy is the current name; Chrome still only ships document.featurePolicy
+export function policyAllowsLNA(): boolean | null {
+  const doc = document as Document & { permissionsPolicy?: PolicyApi; featurePolicy?: PolicyApi }
+  const policy = doc.permissionsPolicy ?? doc.featurePolicy
+  try {
+    return policy ? policy.allowsFeature('local-network-access') : null
+  } catch {
+    return null
+  }
+}
+
+export function buildEmbedReport(
+  frameId: string,
+  runKey: string,
+  permission: LNAPermissionStatus,
+  response: FetchResponse | null
+): EmbedProbeReport {
+  return {
+    source: EMBED_PROBE_SOURCE,
+    frameId,
+    runKey,
+    origin: globalThis.origin,
+    isSecureContext: permission.isSecureContext,
+    policyAllows: policyAllowsLNA(),
+    permission: {
+      state: permission.state,
+      supported: permission.browserSupport.isSupported,
+      error: permission.browserSupport.isSupported ? undefined : permission.browserSupport.reason,
+    },
+    fetch: response
+      ? {
+          status: response.status === 'success' ? 'success' : 'error',
+          httpStatus: response.meta?.status ?? response.error?.status,
+          durationMs: Math.round(response.timing?.durationMs ?? 0),
+          error: response.error?.message,
+          category: response.error?.category,
+        }
+      : null,
+  }
+}
@@ -0,0 +1,75 @@
+import type { ExchangeMatch, HistoryEntry, ServerExchange } from '@/types/lna'
+import { classifyAddressSpace } from './address-space'
+import { makeLocalNetworkRequest } from './lna-permissions'
+import { trimBase } from './scenarios'
+
+// The server timestamps exchanges with its own clock; allow for drift when it runs on another device
+const CLOCK_SKEW_MS = 1000
+
+function targetAddressSpaceFor(url: string) {
+  return classifyAddressSpace(url)?.targetAddressSpace ?? 'local'
+}
+
+export async function fetchExchangeLog(baseUrl: string): Promise<ServerExchange[]> {
+  const url = `${trimBase(baseUrl)}/__log`
+  const { data } = await makeLocalNetworkRequest(url, targetAddressSpaceFor(url))
+  const exchanges = (data as { exchanges?: ServerExchange[] } | null)?.exchanges
+  if (!Array.isArray(exchanges)) {
+    throw new Error(`${url} did not return an exchange log`)
+  }
+  return exchanges
+}
+
+export async function clearExchangeLog(baseUrl: string): Promise<void> {
+  const url = `${trimBase(baseUrl)}/__log`
+  await makeLocalNetworkRequest(url, targetAddressSpaceFor(url), { method: 'DELETE' })
+}
+
+export function exchangeStreamUrl(baseUrl: string): string {
+  return `${trimBase(baseUrl)}/__log/stream`
+}
+
+// Appends exchanges that arrived over the stream, ignoring ones already fetched with the snapshot
+export function mergeExchanges(
+  current: ServerExchange[],
+  incoming: ServerExchange[]
+): ServerExchange[] {
+  const known = new Set(current.map((exchange) => exchange.id))
+  const fresh = incoming.filter((exchange) => !known.has(exchange.id))
+  return fresh.length > 0 ? [...current, ...fresh] : current
+}
+
+// Pairs a fetch from the request history with what the server saw for it: the actual request
+// (same host, path and method inside the fetch's time window) and the latest preflight that asked
+// for that method before it. Either side may be missing, e.g. when a preflight was rejected.
+export function matchExchanges(entry: HistoryEntry, exchanges: ServerExchange[]): ExchangeMatch {
+  let target: URL
+  try {
+    target = new URL(entry.url)
+  } catch {
+    return {}
+  }
+
+  const method = entry.options.method ?? 'GET'
+  const from = entry.startedAt - CLOCK_SKEW_MS
+  const to = entry.startedAt + entry.durationMs + CLOCK_SKEW_MS
+  const candidates = exchanges.filter(
+    (exchange) =>
+      exchange.host === target.host &&
+      exchange.url === target.pathname + target.search &&
+      exchange.timestamp >= from &&
+      exchange.timestamp <= to
+  )
+
+  const request = candidates.find((exchange) => !exchange.preflight && exchange.method === method)
+  const preflight = candidates
+    .filter(
+      (exchange) =>
+        exchange.preflight &&
+        exchange.requestMethod === method &&
+        exchange.timestamp <= (request?.timestamp ?? to)
+    )
+    .pop()
+
+  return { preflight, request }
+}
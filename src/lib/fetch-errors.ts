@@ -0,0 +1,192 @@
+import type {
+  FetchError,
+  FetchErrorCategory,
+  LNAPermissionStatus,
+  LNAResponseContent,
+  TargetAddressSpace,
+} from '@/types/lna'
+import { isLocalNetworkTarget } from './address-space'
+
+// Failures slower than this look like a stalled connection rather than a policy rejection
+const SLOW_FAILURE_MS = 3000
+
+export class HttpError extends Error {
+  status: number
+  statusText: string
+  response?: LNAResponseContent
+
+  constructor(status: number, statusText: string, response?: LNAResponseContent) {
+    super(`HTTP ${status}: ${statusText}`)
+    this.name = 'HttpError'
+    this.status = status
+    this.statusText = statusText
+    this.response = response
+  }
+}
+
+export type FetchErrorContext = {
+  url: string
+  targetAddressSpace: TargetAddressSpace
+  durationMs: number
+  permission: LNAPermissionStatus | null
+  pageProtocol: string
+}
+
+export type FetchErrorExplanation = {
+  title: string
+  explanation: string
+  remediation: string[]
+}
+
+export const FETCH_ERROR_EXPLANATIONS: Record<FetchErrorCategory, FetchErrorExplanation> = {
+  'permission-denied': {
+    title: 'Local network access denied',
+    explanation:
+      'The local-network-access permission is denied for this origin, so the browser blocked the request before it reached the device.',
+    remediation: [
+      'Open site settings (lock icon in the address bar) and reset "Local network access"',
+      'Reload the page and send the request again to get a fresh prompt',
+    ],
+  },
+  'insecure-context': {
+    title: 'Secure context required',
+    explanation:
+      'LNA requests are only allowed from secure contexts. This page is not served over HTTPS or localhost.',
+    remediation: [
+      'Serve the explorer over HTTPS or from http://localhost',
+      'Check the "Secure Context" row in Permission Status',
+    ],
+  },
+  'mixed-content': {
+    title: 'Mixed content blocked',
+    explanation:
+      'An HTTPS page requested a plain HTTP URL. Browsers only exempt such requests when they are LNA requests to a non-public address with targetAddressSpace set.',
+    remediation: [
+      'Pick a targetAddressSpace other than "none" that matches the device address',
+      'Serve the device over HTTPS, or use an IP address instead of a public DNS name',
+    ],
+  },
+  'cors-rejected': {
+    title: 'CORS rejection',
+    explanation:
+      'The request failed without an HTTP status. The most common cause is a response (or preflight) missing Access-Control-Allow-Origin for this origin.',
+    remediation: [
+      'Return Access-Control-Allow-Origin with this origin or *',
+      'Answer OPTIONS preflights with Access-Control-Allow-Methods and Access-Control-Allow-Headers',
+      'Check the DevTools console for the exact CORS message',
+    ],
+  },
+  'missing-private-network-header': {
+    title: 'Missing Access-Control-Allow-Private-Network',
+    explanation:
+      'The request to a local address failed quickly without an HTTP status. The device most likely did not answer the preflight with Access-Control-Allow-Private-Network: true, or nothing is listening on that port.',
+    remediation: [
+      'Respond to OPTIONS with Access-Control-Allow-Private-Network: true',
+      'Include Access-Control-Allow-Origin on both the preflight and the actual response',
+      'Confirm the device is listening on the given host and port',
+    ],
+  },
+  'network-unreachable': {
+    title: 'Network unreachable',
+    explanation:
+      'The request stalled before failing, which usually means the host did not answer at all: wrong IP, device offline, or a firewall dropping packets.',
+    remediation: [
+      'Check the device is powered on and on the same network',
+      'Verify the IP address and port (try curl from this machine)',
+      'A pending permission prompt can also stall requests; check the address bar',
+    ],
+  },
+  timeout: {
+    title: 'Request timed out',
+    explanation: 'No response arrived before the timeout elapsed.',
+    remediation: [
+      'Check the device is reachable',
+      'Increase the timeout if the device is slow to respond',
+    ],
+  },
+  aborted: {
+    title: 'Request aborted',
+    explanation: 'The request was cancelled before it completed.',
+    remediation: ['Send the request again'],
+  },
+  'http-error': {
+    title: 'HTTP error',
+    explanation:
+      'The device answered, so network access and CORS succeeded, but it returned a non-2xx status.',
+    remediation: ['Check the path, method and body against the device API'],
+  },
+  unknown: {
+    title: 'Unknown error',
+    explanation: 'The error did not match any known LNA failure pattern.',
+    remediation: ['Check the DevTools console and network panel for details'],
+  },
+}
+
+function isPlainHttp(url: string): boolean {
+  try {
+    return new URL(url).protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+function inferCategory(
+  error: unknown,
+  context: FetchErrorContext
+): { category: FetchErrorCategory; confidence: FetchError['confidence'] } {
+  if (error instanceof HttpError) {
+    return { category: 'http-error', confidence: 'high' }
+  }
+
+  const name = error instanceof Error ? error.name : undefined
+  if (name === 'TimeoutError') {
+    return { category: 'timeout', confidence: 'high' }
+  }
+  if (name === 'AbortError') {
+    return { category: 'aborted', confidence: 'high' }
+  }
+
+  const { permission } = context
+  if (permission && !permission.isSecureContext) {
+    return { category: 'insecure-context', confidence: name === 'SecurityError' ? 'high' : 'low' }
+  }
+  if (permission?.state === 'denied') {
+    return { category: 'permission-denied', confidence: 'high' }
+  }
+
+  const isLocalTarget = isLocalNetworkTarget(context.url)
+
+  if (
+    context.pageProtocol === 'https:' &&
+    isPlainHttp(context.url) &&
+    (context.targetAddressSpace === 'none' || !isLocalTarget)
+  ) {
+    return { category: 'mixed-content', confidence: name === 'SecurityError' ? 'high' : 'low' }
+  }
+
+  if (!(error instanceof TypeError)) {
+    return { category: 'unknown', confidence: 'low' }
+  }
+
+  if (context.durationMs >= SLOW_FAILURE_MS) {
+    return { category: 'network-unreachable', confidence: 'low' }
+  }
+
+  return {
+    category: isLocalTarget ? 'missing-private-network-header' : 'cors-rejected',
+    confidence: 'low',
+  }
+}
+
+export function describeFetchError(error: unknown, context: FetchErrorContext): FetchError {
+  const { category, confidence } = inferCategory(error, context)
+
+  return {
+    category,
+    confidence,
+    message: error instanceof Error ? error.message : 'Unknown error occurred',
+    name: error instanceof Error ? error.name : undefined,
+    status: error instanceof HttpError ? error.status : undefined,
+    statusText: error instanceof HttpError ? error.statusText : undefined,
+  }
+}
@@ -0,0 +1,356 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  MockPermissionStatus,
+  createTestClient,
+  hangUntilAborted,
+  mockFetch,
+  mockPermissions,
+  mockResponse,
+} from '@/test/mocks'
+import { HttpError } from './fetch-errors'
+import { buildJsonRequest, buildLNARequest, createLNAClient } from './lna-client'
+
+describe('buildLNARequest', () => {
+  it.each([
+    ['http://127.0.0.1:8080/', 'loopback'],
+    ['http://192.168.1.10/', 'private'],
+    ['http://printer.local/', 'local'],
+    ['http://printer.lan/', 'unknown'],
+  ] as const)('classifies %s as %s when no address space is given', (url, expected) => {
+    expect(buildLNARequest(url).targetAddressSpace).toBe(expected)
+  })
+
+  it("falls back to 'local' when the URL has no host to classify", () => {
+    expect(buildLNARequest('http://').targetAddressSpace).toBe('local')
+  })
+
+  it('sends a bare GET by default', () => {
+    const request = buildLNARequest('http://192.168.1.10/', 'private')
+
+    expect(request).toEqual({
+      url: 'http://192.168.1.10/',
+      targetAddressSpace: 'private',
+      init: { method: 'GET', targetAddressSpace: 'private' },
+      timeoutMs: undefined,
+    })
+  })
+
+  it('omits an empty header map', () => {
+    expect(
+      buildLNARequest('http://192.168.1.10/', 'local', { headers: {} }).init
+    ).not.toHaveProperty('headers')
+  })
+
+  it('passes headers, body and timeout through', () => {
+    const request = buildLNARequest('http://192.168.1.10/', 'local', {
+      method: 'PUT',
+      headers: { 'X-Token': 'abc' },
+      body: 'on',
+      timeoutMs: 500,
+    })
+
+    expect(request.init).toMatchObject({ method: 'PUT', headers: { 'X-Token': 'abc' }, body: 'on' })
+    expect(request.timeoutMs).toBe(500)
+  })
+
+  it.each(['GET', 'HEAD'] as const)('drops the body on %s', (method) => {
+    const request = buildLNARequest('http://192.168.1.10/', 'local', { method, body: 'ignored' })
+
+    expect(request.init).not.toHaveProperty('body')
+  })
+
+  it("leaves targetAddressSpace off the init for 'none'", () => {
+    expect(buildLNARequest('http://192.168.1.10/', 'none').init).not.toHaveProperty(
+      'targetAddressSpace'
+    )
+  })
+})
+
+describe('buildJsonRequest', () => {
+  it('serializes the payload with a JSON content type', () => {
+    const request = buildJsonRequest('http://192.168.1.10/api', 'POST', { power: true })
+
+    expect(request.init).toMatchObject({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"power":true}',
+      targetAddressSpace: 'private',
+    })
+  })
+})
+
+describe('createLNAClient', () => {
+  describe('context', () => {
+    it('prefers explicit options over globals', () => {
+      const client = createLNAClient({ isSecureContext: false, pageProtocol: 'http:' })
+
+      expect(client.context()).toEqual({ isSecureContext: false, pageProtocol: 'http:' })
+    })
+
+    it('reads the page protocol from location', () => {
+      expect(createLNAClient().context().pageProtocol).toBe(globalThis.location.protocol)
+    })
+  })
+
+  describe('queryPermission', () => {
+    it('returns the browser state', async () => {
+      const permissions = mockPermissions(new MockPermissionStatus('prompt'))
+      const client = createTestClient({ permissions })
+
+      await expect(client.queryPermission()).resolves.toEqual({ ok: true, value: 'prompt' })
+      expect(permissions.query).toHaveBeenCalledWith({ name: 'local-network-access' })
+    })
+
+    it('reports a missing Permissions API', async () => {
+      const result = await createTestClient({ permissions: null }).queryPermission()
+
+      expect(result).toEqual({
+        ok: false,
+        error: {
+          kind: 'unsupported',
+          reason: 'no-permissions-api',
+          message: 'Permissions API not available',
+        },
+      })
+    })
+
+    it('reports a Permissions API without query', async () => {
+      const permissions = {} as Pick<Permissions, 'query'>
+      const result = await createTestClient({ permissions }).queryPermission()
+
+      expect(result).toMatchObject({ ok: false, error: { reason: 'no-permissions-api' } })
+    })
+
+    it('reports a permission name the browser does not recognize', async () => {
+      const cause = new TypeError("'local-network-access' is not a valid enum value")
+      const result = await createTestClient({
+        permissions: mockPermissions(cause),
+      }).queryPermission()
+
+      expect(result).toEqual({
+        ok: false,
+        error: {
+          kind: 'unsupported',
+          reason: 'permission-not-recognized',
+          message: 'local-network-access permission not recognized by browser',
+          cause,
+        },
+      })
+    })
+  })
+
+  describe('watchPermission', () => {
+    it('forwards change events until unsubscribed', async () => {
+      const status = new MockPermissionStatus('prompt')
+      const onChange = vi.fn()
+      const stop = await createTestClient({
+        permissions: mockPermissions(status),
+      }).watchPermission(onChange)
+
+      status.change('granted')
+      stop()
+      status.change('denied')
+
+      expect(onChange.mock.calls).toEqual([['granted']])
+    })
+
+    it('returns a no-op unsubscribe when the permission cannot be queried', async () => {
+      const stop = await createTestClient({ permissions: null }).watchPermission(vi.fn())
+
+      expect(() => stop()).not.toThrow()
+    })
+  })
+
+  describe('send', () => {
+    it('settles into an ok result with headers, meta and body', async () => {
+      const fetch = mockFetch(() =>
+        mockResponse('{"on":true}', { 'Content-Type': 'application/json', 'X-Device': 'lamp' })
+      )
+      const result = await createTestClient({ fetch }).send(
+        buildLNARequest('http://192.168.1.10/', 'local')
+      )
+
+      expect(result).toMatchObject({
+        ok: true,
+        value: {
+          data: { on: true },
+          headers: { 'content-type': 'application/json', 'x-device': 'lamp' },
+          meta: { status: 200, statusText: 'OK', redirected: false },
+          body: { kind: 'json' },
+          timing: { detailed: false },
+        },
+      })
+    })
+
+    it('turns a non-2xx status into an http-error failure', async () => {
+      const fetch = mockFetch(() =>
+        mockResponse(
+          '{"error":"no such path"}',
+          { 'Content-Type': 'application/json', 'Private-Network-Access-Name': 'lamp' },
+          { status: 404, statusText: 'Not Found' }
+        )
+      )
+      const result = await createTestClient({ fetch }).send(
+        buildLNARequest('http://192.168.1.10/missing', 'local')
+      )
+
+      expect(result).toMatchObject({
+        ok: false,
+        error: {
+          error: {
+            category: 'http-error',
+            confidence: 'high',
+            status: 404,
+            statusText: 'Not Found',
+          },
+          cause: expect.any(HttpError),
+          response: {
+            data: { error: 'no such path' },
+            headers: { 'private-network-access-name': 'lamp' },
+            meta: { status: 404, statusText: 'Not Found' },
+            body: { kind: 'json' },
+          },
+        },
+      })
+    })
+
+    it('leaves the response off failures where nothing arrived', async () => {
+      const fetch = mockFetch(() => Promise.reject(new TypeError('Failed to fetch')))
+      const result = await createTestClient({ fetch }).send(
+        buildLNARequest('http://192.168.1.10/', 'local')
+      )
+
+      expect(result).toMatchObject({ ok: false })
+      expect(result.ok === false && result.error.response).toBeUndefined()
+    })
+
+    it('aborts through the caller signal', async () => {
+      const controller = new AbortController()
+      const pending = createTestClient({ fetch: mockFetch(hangUntilAborted) }).send(
+        buildLNARequest('http://192.168.1.10/', 'local'),
+        controller.signal
+      )
+      controller.abort()
+
+      await expect(pending).resolves.toMatchObject({
+        ok: false,
+        error: { error: { category: 'aborted' } },
+      })
+    })
+
+    it('times out after timeoutMs', async () => {
+      const result = await createTestClient({ fetch: mockFetch(hangUntilAborted) }).send(
+        buildLNARequest('http://192.168.1.10/', 'local', { timeoutMs: 10 })
+      )
+
+      expect(result).toMatchObject({ ok: false, error: { error: { category: 'timeout' } } })
+    })
+
+    it.each([NaN, -1, Infinity])(
+      'sends without a timeout when timeoutMs is %s',
+      async (timeoutMs) => {
+        const result = await createTestClient({ fetch: mockFetch(() => mockResponse('ok')) }).send(
+          buildLNARequest('http://192.168.1.10/', 'local', { timeoutMs })
+        )
+
+        expect(result.ok).toBe(true)
+      }
+    )
+
+    it('explains failures with the current permission state', async () => {
+      const client = createTestClient({
+        fetch: mockFetch(() => Promise.reject(new TypeError('Failed to fetch'))),
+        permissions: mockPermissions(new MockPermissionStatus('denied')),
+      })
+      const result = await client.send(buildLNARequest('http://192.168.1.10/', 'local'))
+
+      expect(result).toMatchObject({
+        ok: false,
+        error: { error: { category: 'permission-denied' } },
+      })
+    })
+
+    it('explains failures without a state when the permission cannot be queried', async () => {
+      const client = createTestClient({
+        fetch: mockFetch(() => Promise.reject(new TypeError('Failed to fetch'))),
+        permissions: null,
+      })
+      const result = await client.send(buildLNARequest('http://192.168.1.10/', 'local'))
+
+      expect(result).toMatchObject({
+        ok: false,
+        error: { error: { category: 'missing-private-network-header' } },
+      })
+    })
+  })
+
+  describe('ensurePermission', () => {
+    const trigger = buildLNARequest('http://192.168.1.10/', 'local')
+
+    it('refuses outside a secure context without sending anything', async () => {
+      const fetch = mockFetch(() => mockResponse('ok'))
+      const result = await createTestClient({ fetch, isSecureContext: false }).ensurePermission(
+        trigger
+      )
+
+      expect(result).toMatchObject({ ok: false, error: { kind: 'insecure-context' } })
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('passes an unsupported query through', async () => {
+      const result = await createTestClient({ permissions: null }).ensurePermission(trigger)
+
+      expect(result).toMatchObject({ ok: false, error: { kind: 'unsupported' } })
+    })
+
+    it('skips the trigger when already granted', async () => {
+      const fetch = mockFetch(() => mockResponse('ok'))
+      const result = await createTestClient({ fetch }).ensurePermission(trigger)
+
+      expect(result).toEqual({ ok: true, value: { state: 'granted', prompted: false } })
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('skips the trigger when already denied', async () => {
+      const result = await createTestClient({
+        permissions: mockPermissions(new MockPermissionStatus('denied')),
+      }).ensurePermission(trigger)
+
+      expect(result).toMatchObject({ ok: false, error: { kind: 'denied', prompted: false } })
+    })
+
+    it.each([
+      ['granted', { ok: true, value: { state: 'granted', prompted: true } }],
+      ['denied', { ok: false, error: { kind: 'denied', prompted: true } }],
+      ['prompt', { ok: false, error: { kind: 'dismissed' } }],
+    ] as const)('reads the outcome of the prompt when it ends %s', async (answer, expected) => {
+      const status = new MockPermissionStatus('prompt')
+      const fetch = mockFetch(() => {
+        status.change(answer)
+        return mockResponse('ok')
+      })
+      const result = await createTestClient({
+        fetch,
+        permissions: mockPermissions(status),
+      }).ensurePermission(trigger)
+
+      expect(result).toMatchObject(expected)
+      expect(fetch).toHaveBeenCalledOnce()
+    })
+
+    it('reports a query that stops working after the prompt', async () => {
+      const status = new MockPermissionStatus('prompt')
+      const permissions = mockPermissions(status)
+      const fetch = mockFetch(() => {
+        permissions.query.mockRejectedValue(new TypeError('gone'))
+        return mockResponse('ok')
+      })
+      const result = await createTestClient({ fetch, permissions }).ensurePermission(trigger)
+
+      expect(result).toMatchObject({
+        ok: false,
+        error: { kind: 'unsupported', reason: 'permission-not-recognized' },
+      })
+    })
+  })
+})
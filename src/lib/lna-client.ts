@@ -0,0 +1,259 @@
+import type {
+  LNAClient,
+  LNAClientOptions,
+  LNAPermissionStatus,
+  LNARequest,
+  LNARequestFailure,
+  LNAResponse,
+  LNAResponseContent,
+  LNAResult,
+  PermissionQueryError,
+  PermissionState,
+  RequestOptions,
+  ResponseMeta,
+  TargetAddressSpace,
+} from '@/types/lna'
+import { classifyAddressSpace } from './address-space'
+import { HttpError, describeFetchError } from './fetch-errors'
+import { collectTiming } from './resource-timing'
+import { readResponseBody } from './response-body'
+
+// Framework-agnostic core of the explorer: no React, no UI state, no browser detection. Every
+// operation settles into an LNAResult instead of throwing, and every global it touches can be
+// swapped through LNAClientOptions.
+
+const PERMISSION_NAME = 'local-network-access' as PermissionName
+
+// Without an explicit targetAddressSpace the request is classified from its host, falling back
+// to 'local' for hostnames that cannot be classified without DNS
+export function buildLNARequest(
+  url: string,
+  targetAddressSpace: TargetAddressSpace = classifyAddressSpace(url)?.targetAddressSpace ?? 'local',
+  options: RequestOptions = {}
+): LNARequest {
+  const method = options.method ?? 'GET'
+  const init: RequestInit = {
+    method,
+  }
+
+  if (options.headers && Object.keys(options.headers).length > 0) {
+    init.headers = options.headers
+  }
+
+  // fetch() rejects a body on GET/HEAD, so drop it rather than fail the request
+  if (options.body !== undefined && method !== 'GET' && method !== 'HEAD') {
+    init.body = options.body
+  }
+
+  if (targetAddressSpace !== 'none') {
+    // @ts-expect-error - targetAddressSpace is experimental
+    init.targetAddressSpace = targetAddressSpace
+  }
+
+  return { url, targetAddressSpace, init, timeoutMs: options.timeoutMs }
+}
+
+export function buildJsonRequest(
+  url: string,
+  method: 'POST' | 'PUT' | 'PATCH',
+  payload: unknown,
+  targetAddressSpace?: TargetAddressSpace
+): LNARequest {
+  return buildLNARequest(url, targetAddressSpace, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  })
+}
+
+function combineSignals(...signals: (AbortSignal | undefined)[]): AbortSignal | undefined {
+  const active = signals.filter((s): s is AbortSignal => s !== undefined)
+  if (active.length <= 1) {
+    return active[0]
+  }
+  return AbortSignal.any(active)
+}
+
+export function createLNAClient(options: LNAClientOptions = {}): LNAClient {
+  // Globals are read per call so a client created at import time still sees later stubs
+  const fetchImpl: typeof fetch = options.fetch ?? ((input, init) => globalThis.fetch(input, init))
+  const getPermissions = () =>
+    options.permissions !== undefined ? options.permissions : globalThis.navigator?.permissions
+
+  const context = () => ({
+    isSecureContext: options.isSecureContext ?? globalThis.isSecureContext ?? false,
+    pageProtocol: options.pageProtocol ?? globalThis.location?.protocol ?? '',
+  })
+
+  const queryStatus = async (): Promise<LNAResult<PermissionStatus, PermissionQueryError>> => {
+    const permissions = getPermissions()
+    if (!permissions || !permissions.query) {
+      return {
+        ok: false,
+        error: {
+          kind: 'unsupported',
+          reason: 'no-permissions-api',
+          message: 'Permissions API not available',
+        },
+      }
+    }
+    try {
+      return { ok: true, value: await permissions.query({ name: PERMISSION_NAME }) }
+    } catch (cause) {
+      return {
+        ok: false,
+        error: {
+          kind: 'unsupported',
+          reason: 'permission-not-recognized',
+          message: 'local-network-access permission not recognized by browser',
+          cause,
+        },
+      }
+    }
+  }
+
+  const queryPermission = async (): Promise<LNAResult<PermissionState, PermissionQueryError>> => {
+    const result = await queryStatus()
+    return result.ok ? { ok: true, value: result.value.state as PermissionState } : result
+  }
+
+  const watchPermission = async (onChange: (state: PermissionState) => void) => {
+    const result = await queryStatus()
+    if (!result.ok) {
+      return () => {}
+    }
+    const status = result.value
+    const handleChange = () => onChange(status.state as PermissionState)
+    status.addEventListener('change', handleChange)
+    return () => status.removeEventListener('change', handleChange)
+  }
+
+  // Snapshot handed to describeFetchError
+  const permissionSnapshot = async (): Promise<LNAPermissionStatus> => {
+    const result = await queryPermission()
+    return {
+      state: result.ok ? result.value : null,
+      isSecureContext: context().isSecureContext,
+      browserSupport: result.ok
+        ? { isSupported: true }
+        : { isSupported: false, reason: result.error.message },
+    }
+  }
+
+  const send = async (
+    request: LNARequest,
+    signal?: AbortSignal
+  ): Promise<LNAResult<LNAResponse, LNARequestFailure>> => {
+    // AbortSignal.timeout throws on NaN, negative or infinite values; those mean no timeout
+    const { timeoutMs } = request
+    const hasTimeout = timeoutMs !== undefined && Number.isFinite(timeoutMs) && timeoutMs > 0
+    const init: RequestInit = {
+      ...request.init,
+      signal: combineSignals(signal, hasTimeout ? AbortSignal.timeout(timeoutMs) : undefined),
+    }
+
+    const startedAt = performance.now()
+    try {
+      const response = await fetchImpl(request.url, init)
+
+      const headers: Record<string, string> = {}
+      response.headers.forEach((value, key) => {
+        headers[key] = value
+      })
+
+      const meta: ResponseMeta = {
+        status: response.status,
+        statusText: response.statusText,
+        url: response.url,
+        redirected: response.redirected,
+        type: response.type,
+      }
+
+      const { data, body } = await readResponseBody(response)
+      const content: LNAResponseContent = { data, headers, meta, body }
+
+      // Read before the status check so an error status still carries what the device answered
+      if (!response.ok) {
+        throw new HttpError(response.status, response.statusText, content)
+      }
+
+      return {
+        ok: true,
+        value: { ...content, timing: collectTiming(request.url, startedAt) },
+      }
+    } catch (cause) {
+      const timing = collectTiming(request.url, startedAt)
+      const error = describeFetchError(cause, {
+        url: request.url,
+        targetAddressSpace: request.targetAddressSpace,
+        durationMs: timing.durationMs,
+        permission: await permissionSnapshot(),
+        pageProtocol: context().pageProtocol,
+      })
+      const response = cause instanceof HttpError ? cause.response : undefined
+      return { ok: false, error: { error, cause, timing, response } }
+    }
+  }
+
+  // The browser only prompts when an LNA request is made, so 'prompt' is resolved by sending the
+  // trigger request and reading the state again: still 'prompt' means the prompt was dismissed,
+  // 'denied' means the user blocked it
+  const ensurePermission: LNAClient['ensurePermission'] = async (trigger, signal) => {
+    if (!context().isSecureContext) {
+      return {
+        ok: false,
+        error: {
+          kind: 'insecure-context',
+          message: 'Local network access requires a secure context (HTTPS or localhost)',
+        },
+      }
+    }
+
+    const before = await queryPermission()
+    if (!before.ok) {
+      return before
+    }
+    if (before.value === 'granted') {
+      return { ok: true, value: { state: 'granted', prompted: false } }
+    }
+    if (before.value === 'denied') {
+      return {
+        ok: false,
+        error: {
+          kind: 'denied',
+          message: 'Local network access is blocked for this site',
+          prompted: false,
+        },
+      }
+    }
+
+    const response = await send(trigger, signal)
+    const after = await queryPermission()
+    if (!after.ok) {
+      return after
+    }
+    if (after.value === 'granted') {
+      return { ok: true, value: { state: 'granted', prompted: true, response } }
+    }
+    if (after.value === 'denied') {
+      return {
+        ok: false,
+        error: {
+          kind: 'denied',
+          message: 'Local network access was blocked at the prompt',
+          prompted: true,
+        },
+      }
+    }
+    return {
+      ok: false,
+      error: {
+        kind: 'dismissed',
+        message: 'The permission prompt was dismissed without a decision',
+        response,
+      },
+    }
+  }
+
+  return { context, queryPermission, watchPermission, send, ensurePermission }
+}
@@ -0,0 +1,437 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MockPermissionStatus,
+  USER_AGENTS,
+  createTestClient,
+  hangUntilAborted,
+  mockFetch,
+  mockPermissions,
+  mockResponse,
+  stubNavigator,
+} from '@/test/mocks'
+import { HttpError } from './fetch-errors'
+import {
+  DEFAULT_PROBE_TIMEOUT_MS,
+  makeLocalNetworkRequest,
+  probeRequest,
+  queryLNAPermission,
+  runLocalNetworkRequest,
+  watchLNAPermission,
+} from './lna-permissions'
+import { isLnaHeader } from './response-body'
+
+beforeEach(() => {
+  stubNavigator({ userAgent: USER_AGENTS.chrome142 })
+})
+
+describe('queryLNAPermission', () => {
+  it.each(['granted', 'prompt', 'denied'] as const)(
+    'reports %s from the browser',
+    async (state) => {
+      const client = createTestClient({
+        permissions: mockPermissions(new MockPermissionStatus(state)),
+      })
+
+      const status = await queryLNAPermission(client)
+
+      expect(status).toMatchObject({
+        state,
+        isSecureContext: true,
+        browserSupport: { isSupported: true },
+      })
+      expect(status.browserSupport.reason).toBeUndefined()
+    }
+  )
+
+  it('attaches browser info from the user agent', async () => {
+    const status = await queryLNAPermission(createTestClient())
+
+    expect(status.browserSupport.browserInfo).toMatchObject({
+      name: 'Chrome',
+      supportEntryId: 'chrome',
+      isLikelySupported: true,
+    })
+  })
+
+  it('reports no state without the Permissions API', async () => {
+    const status = await queryLNAPermission(createTestClient({ permissions: null }))
+
+    expect(status).toMatchObject({
+      state: null,
+      browserSupport: { isSupported: false, reason: 'Permissions API not available' },
+    })
+  })
+
+  it('reports no state and logs when the permission is not recognized', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const cause = new TypeError('not a valid enum value')
+
+    const status = await queryLNAPermission(
+      createTestClient({ permissions: mockPermissions(cause) })
+    )
+
+    expect(status).toMatchObject({
+      state: null,
+      browserSupport: {
+        isSupported: false,
+        reason: 'local-network-access permission not recognized by browser',
+      },
+    })
+    expect(log).toHaveBeenCalledWith('LNA permission query error:', cause)
+  })
+
+  it('flags an insecure context while still reporting the state', async () => {
+    const status = await queryLNAPermission(createTestClient({ isSecureContext: false }))
+
+    expect(status).toMatchObject({
+      state: 'granted',
+      isSecureContext: false,
+      browserSupport: { isSupported: true, reason: 'HTTPS required (not in secure context)' },
+    })
+  })
+
+  it('prefers the query failure over the insecure context reason', async () => {
+    const status = await queryLNAPermission(
+      createTestClient({ isSecureContext: false, permissions: null })
+    )
+
+    expect(status.browserSupport.reason).toBe('Permissions API not available')
+  })
+
+  it('queries navigator.permissions through the default client', async () => {
+    const permissions = mockPermissions(new MockPermissionStatus('prompt'))
+    stubNavigator({ permissions })
+
+    const status = await queryLNAPermission()
+
+    expect(status.state).toBe('prompt')
+    expect(permissions.query).toHaveBeenCalledWith({ name: 'local-network-access' })
+  })
+})
+
+describe('watchLNAPermission', () => {
+  it('reports changes until stopped', async () => {
+    const status = new MockPermissionStatus('prompt')
+    const onChange = vi.fn()
+    const stop = await watchLNAPermission(
+      onChange,
+      createTestClient({ permissions: mockPermissions(status) })
+    )
+
+    status.change('denied')
+    stop()
+    status.change('granted')
+
+    expect(onChange.mock.calls).toEqual([['denied']])
+  })
+})
+
+describe('makeLocalNetworkRequest', () => {
+  it('sends a GET with the target address space through the global fetch', async () => {
+    const fetch = mockFetch(() => mockResponse('ok'))
+    vi.stubGlobal('fetch', fetch)
+
+    await makeLocalNetworkRequest('http://192.168.1.10/status')
+
+    expect(fetch).toHaveBeenCalledWith(
+      'http://192.168.1.10/status',
+      expect.objectContaining({ method: 'GET', targetAddressSpace: 'local' })
+    )
+  })
+
+  it('forwards method, headers and body', async () => {
+    const fetch = mockFetch(() => mockResponse('ok'))
+    vi.stubGlobal('fetch', fetch)
+
+    await makeLocalNetworkRequest('http://10.0.0.2/api', 'private', {
+      method: 'POST',
+      headers: { 'X-Token': 'abc' },
+      body: 'on',
+    })
+
+    expect(fetch.mock.calls[0][1]).toMatchObject({
+      method: 'POST',
+      headers: { 'X-Token': 'abc' },
+      body: 'on',
+      targetAddressSpace: 'private',
+    })
+  })
+
+  it('collects every response header under its lowercase name', async () => {
+    vi.stubGlobal(
+      'fetch',
+      mockFetch(() =>
+        mockResponse('ok', {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Private-Network': 'true',
+          'Private-Network-Access-ID': '00:11:22:33:44:55',
+          'Content-Type': 'text/plain',
+          'X-Device': 'lamp',
+        })
+      )
+    )
+
+    const { headers } = await makeLocalNetworkRequest('http://192.168.1.10/')
+
+    expect(headers).toEqual({
+      'access-control-allow-origin': '*',
+      'access-control-allow-private-network': 'true',
+      'private-network-access-id': '00:11:22:33:44:55',
+      'content-type': 'text/plain',
+      'x-device': 'lamp',
+    })
+    expect(Object.keys(headers).filter(isLnaHeader)).toEqual([
+      'access-control-allow-origin',
+      'access-control-allow-private-network',
+      'private-network-access-id',
+    ])
+  })
+
+  it.each([
+    ['application/json', '{"on":true}', 'json', { on: true }],
+    ['application/problem+json; charset=utf-8', '{"title":"x"}', 'json', { title: 'x' }],
+    ['application/json', 'not json', 'text', 'not json'],
+    ['text/plain', 'hello', 'text', 'hello'],
+    ['text/html', '<p>hi</p>', 'text', '<p>hi</p>'],
+    ['image/svg+xml', '<svg/>', 'text', '<svg/>'],
+    ['application/xml', '<a/>', 'text', '<a/>'],
+  ] as const)('reads %s bodies as %s', async (contentType, text, kind, data) => {
+    vi.stubGlobal(
+      'fetch',
+      mockFetch(() => mockResponse(text, { 'Content-Type': contentType }))
+    )
+
+    const response = await makeLocalNetworkRequest('http://192.168.1.10/')
+
+    expect(response.data).toEqual(data)
+    expect(response.body).toMatchObject({ kind, contentType, text, size: text.length })
+  })
+
+  it('reads a body without a content type as text', async () => {
+    // Unlike a string, a byte body gets no implicit text/plain from the Response constructor
+    vi.stubGlobal(
+      'fetch',
+      mockFetch(() => mockResponse(new TextEncoder().encode('untyped')))
+    )
+
+    const response = await makeLocalNetworkRequest('http://192.168.1.10/')
+
+    expect(response.data).toBe('untyped')
+    expect(response.body).toMatchObject({ kind: 'text', contentType: '' })
+  })
+
+  it('keeps images and binary bodies as base64', async () => {
+    const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47])
+    vi.stubGlobal(
+      'fetch',
+      mockFetch((url) =>
+        mockResponse(bytes, {
+          'Content-Type': url.endsWith('.png') ? 'image/png' : 'application/octet-stream',
+        })
+      )
+    )
+
+    const image = await makeLocalNetworkRequest('http://192.168.1.10/snapshot.png')
+    const binary = await makeLocalNetworkRequest('http://192.168.1.10/firmware.bin')
+
+    expect(image.data).toBeUndefined()
+    expect(image.body).toEqual({
+      kind: 'image',
+      contentType: 'image/png',
+      size: 4,
+      base64: 'iVBORw==',
+    })
+    expect(binary.body).toMatchObject({ kind: 'binary', size: 4, base64: 'iVBORw==' })
+  })
+
+  it('reports an empty body', async () => {
+    vi.stubGlobal(
+      'fetch',
+      mockFetch(() => mockResponse(null, { 'Content-Type': 'application/json' }, { status: 204 }))
+    )
+
+    const response = await makeLocalNetworkRequest('http://192.168.1.10/')
+
+    expect(response.data).toBe('')
+    expect(response.body).toEqual({ kind: 'empty', contentType: 'application/json', size: 0 })
+    expect(response.meta.status).toBe(204)
+  })
+
+  it('throws an HttpError for non-2xx responses', async () => {
+    vi.stubGlobal(
+      'fetch',
+      mockFetch(() =>
+        mockResponse(
+          'busy',
+          { 'Retry-After': '5' },
+          { status: 503, statusText: 'Service Unavailable' }
+        )
+      )
+    )
+
+    const error = await makeLocalNetworkRequest('http://192.168.1.10/').catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(HttpError)
+    expect(error).toMatchObject({
+      status: 503,
+      statusText: 'Service Unavailable',
+      response: { data: 'busy', headers: { 'retry-after': '5' }, meta: { status: 503 } },
+    })
+  })
+
+  it('rethrows the original network error', async () => {
+    const cause = new TypeError('Failed to fetch')
+    vi.stubGlobal(
+      'fetch',
+      mockFetch(() => Promise.reject(cause))
+    )
+
+    await expect(makeLocalNetworkRequest('http://192.168.1.10/')).rejects.toBe(cause)
+  })
+})
+
+describe('runLocalNetworkRequest', () => {
+  it('resolves to a success response', async () => {
+    const client = createTestClient({
+      fetch: mockFetch(() => mockResponse('{"on":true}', { 'Content-Type': 'application/json' })),
+    })
+
+    const response = await runLocalNetworkRequest(
+      'http://192.168.1.10/',
+      'local',
+      {},
+      undefined,
+      client
+    )
+
+    expect(response).toMatchObject({ status: 'success', data: { on: true }, meta: { status: 200 } })
+  })
+
+  it('classifies the target address space when none is given', async () => {
+    const fetch = mockFetch(() => mockResponse('ok'))
+    const client = createTestClient({ fetch })
+
+    await runLocalNetworkRequest('http://127.0.0.1:8080/', undefined, {}, undefined, client)
+
+    expect(fetch.mock.calls[0][1]).toMatchObject({ targetAddressSpace: 'loopback' })
+  })
+
+  it.each([
+    [
+      'permission-denied',
+      { permissions: mockPermissions(new MockPermissionStatus('denied')) },
+      'http://192.168.1.10/',
+    ],
+    ['insecure-context', { isSecureContext: false }, 'http://192.168.1.10/'],
+    ['mixed-content', {}, 'http://example.com/'],
+    ['missing-private-network-header', {}, 'http://192.168.1.10/'],
+  ] as const)('explains a failed fetch as %s', async (category, options, url) => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const client = createTestClient({
+      fetch: mockFetch(() => Promise.reject(new TypeError('Failed to fetch'))),
+      ...options,
+    })
+
+    const response = await runLocalNetworkRequest(url, 'local', {}, undefined, client)
+
+    expect(response.status).toBe('error')
+    expect(response.error?.category).toBe(category)
+    expect(response.timing).toBeDefined()
+  })
+
+  it('reports cancellation as aborted', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const controller = new AbortController()
+    const client = createTestClient({ fetch: mockFetch(hangUntilAborted) })
+
+    const pending = runLocalNetworkRequest(
+      'http://192.168.1.10/',
+      'local',
+      {},
+      controller.signal,
+      client
+    )
+    controller.abort()
+
+    await expect(pending).resolves.toMatchObject({
+      status: 'error',
+      error: { category: 'aborted' },
+    })
+  })
+
+  it('keeps what the device answered on an HTTP error', async () => {
+    const client = createTestClient({
+      fetch: mockFetch(() =>
+        mockResponse('login required', {}, { status: 401, statusText: 'Unauthorized' })
+      ),
+    })
+
+    const response = await runLocalNetworkRequest(
+      'http://192.168.1.10/',
+      'local',
+      {},
+      undefined,
+      client
+    )
+
+    expect(response).toMatchObject({
+      status: 'error',
+      error: { category: 'http-error', status: 401 },
+      data: 'login required',
+      meta: { status: 401, statusText: 'Unauthorized' },
+      body: { kind: 'text' },
+    })
+  })
+})
+
+describe('probeRequest', () => {
+  it('summarizes a success', async () => {
+    vi.stubGlobal(
+      'fetch',
+      mockFetch(() => mockResponse('ok', { 'Access-Control-Allow-Private-Network': 'true' }))
+    )
+
+    const outcome = await probeRequest('http://192.168.1.10/', 'local', {})
+
+    expect(outcome).toMatchObject({
+      status: 'success',
+      httpStatus: 200,
+      headers: { 'access-control-allow-private-network': 'true' },
+    })
+    expect(Number.isInteger(outcome.durationMs)).toBe(true)
+  })
+
+  it('summarizes a failure with its HTTP status', async () => {
+    vi.stubGlobal(
+      'fetch',
+      mockFetch(() =>
+        mockResponse(
+          '',
+          { 'Private-Network-Access-Name': 'camera' },
+          { status: 403, statusText: 'Forbidden' }
+        )
+      )
+    )
+
+    const outcome = await probeRequest('http://192.168.1.10/', 'local', {})
+
+    expect(outcome).toMatchObject({
+      status: 'error',
+      httpStatus: 403,
+      error: { category: 'http-error' },
+      headers: { 'private-network-access-name': 'camera' },
+    })
+  })
+
+  it('times out by default and stops when cancelled', async () => {
+    vi.stubGlobal('fetch', mockFetch(hangUntilAborted))
+    const timeout = vi.spyOn(AbortSignal, 'timeout')
+    const controller = new AbortController()
+
+    const pending = probeRequest('http://192.168.1.10/', 'local', {}, controller.signal)
+    controller.abort()
+
+    expect(timeout).toHaveBeenCalledWith(DEFAULT_PROBE_TIMEOUT_MS)
+    expect(await pending).toMatchObject({ status: 'error', error: { category: 'aborted' } })
+  })
+})
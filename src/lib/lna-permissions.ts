@@ -1,12 +1,36 @@
-import type { LNAPermissionStatus, BrowserSupport } from '@/types/lna'
+import type {
+  LNAClient,
+  LNAPermissionStatus,
+  BrowserSupport,
+  FetchResponse,
+  LNARequestFailure,
+  LNAResponse,
+  LNAResult,
+  PermissionState,
+  ProbeOutcome,
+  RequestOptions,
+  TargetAddressSpace,
+} from '@/types/lna'
 import { getBrowserInfo } from './browser-detection'
+import { buildLNARequest, createLNAClient } from './lna-client'
 
-export async function queryLNAPermission(): Promise<LNAPermissionStatus> {
+// Explorer-facing adapters over the headless client. Everything in this module only touches
+// globalThis, so it also runs inside workers.
+export const defaultLNAClient = createLNAClient()
+
+// Probes without a timeout from the form still give up, so a host that drops packets cannot keep
+// a comparison running forever
+export const DEFAULT_PROBE_TIMEOUT_MS = 10000
+
+export async function queryLNAPermission(
+  client: LNAClient = defaultLNAClient
+): Promise<LNAPermissionStatus> {
   const browserInfo = getBrowserInfo()
-  const isSecureContext = window.isSecureContext
+  const { isSecureContext } = client.context()
+  const result = await client.queryPermission()
 
   const browserSupport: BrowserSupport = {
-    isSupported: true,
+    isSupported: result.ok,
     browserInfo,
   }
 
@@ -14,75 +38,100 @@ export async function queryLNAPermission(): Promise<LNAPermissionStatus> {
     browserSupport.reason = 'HTTPS required (not in secure context)'
   }
 
-  if (!navigator.permissions || !navigator.permissions.query) {
-    browserSupport.isSupported = false
-    browserSupport.reason = 'Permissions API not available'
+  if (!result.ok) {
+    browserSupport.reason = result.error.message
+    if (result.error.cause) {
+      console.log('LNA permission query error:', result.error.cause)
+    }
     return {
-      state: 'denied',
+      state: null,
       isSecureContext,
       browserSupport,
     }
   }
 
-  try {
-    const permissionStatus = await navigator.permissions.query({
-      name: 'local-network-access' as PermissionName,
-    })
-
-    return {
-      state: permissionStatus.state as 'granted' | 'prompt' | 'denied',
-      isSecureContext,
-      browserSupport,
-    }
-  } catch (error) {
-    browserSupport.isSupported = false
-    browserSupport.reason = 'local-network-access permission not recognized by browser'
-    console.log('LNA permission query error:', error)
-    return {
-      state: 'denied',
-      isSecureContext,
-      browserSupport,
-    }
+  return {
+    state: result.value,
+    isSecureContext,
+    browserSupport,
   }
 }
 
+export async function watchLNAPermission(
+  onChange: (state: PermissionState) => void,
+  client: LNAClient = defaultLNAClient
+): Promise<() => void> {
+  return client.watchPermission(onChange)
+}
+
 export async function makeLocalNetworkRequest(
   url: string,
-  targetAddressSpace: 'local' | 'private' | 'public' | 'loopback' | 'unknown' | 'none' = 'local'
-): Promise<{ data: unknown; headers: Record<string, string> }> {
-  const fetchOptions: RequestInit = {
-    method: 'GET',
+  targetAddressSpace: TargetAddressSpace = 'local',
+  options: RequestOptions = {},
+  signal?: AbortSignal
+): Promise<LNAResponse> {
+  const result = await defaultLNAClient.send(
+    buildLNARequest(url, targetAddressSpace, options),
+    signal
+  )
+  if (!result.ok) {
+    throw result.error.cause
   }
+  return result.value
+}
 
-  if (targetAddressSpace !== 'none') {
-    // @ts-expect-error - targetAddressSpace is experimental
-    fetchOptions.targetAddressSpace = targetAddressSpace
+export function toFetchResponse(result: LNAResult<LNAResponse, LNARequestFailure>): FetchResponse {
+  if (result.ok) {
+    return { status: 'success', ...result.value }
   }
+  const { error, timing, response } = result.error
+  return { status: 'error', error, timing, ...response }
+}
 
-  const response = await fetch(url, fetchOptions)
-
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+// Sends the request and settles into a FetchResponse either way, explaining failures. Without a
+// targetAddressSpace the request is classified from its host.
+export async function runLocalNetworkRequest(
+  url: string,
+  targetAddressSpace?: TargetAddressSpace,
+  options: RequestOptions = {},
+  signal?: AbortSignal,
+  client: LNAClient = defaultLNAClient
+): Promise<FetchResponse> {
+  const result = await client.send(buildLNARequest(url, targetAddressSpace, options), signal)
+  if (!result.ok) {
+    console.log('Fetch error:', result.error.error.category, result.error.cause)
   }
+  return toFetchResponse(result)
+}
 
-  const headers: Record<string, string> = {}
-  response.headers.forEach((value, key) => {
-    if (
-      key.toLowerCase().includes('private-network') ||
-      key.toLowerCase().includes('access-control')
-    ) {
-      headers[key] = value
+// Sends one request and folds the outcome into a plain result, for views that fire many requests
+// and only need a summary of each (address space matrix, HTTP vs HTTPS comparison)
+export async function probeRequest(
+  url: string,
+  targetAddressSpace: TargetAddressSpace,
+  options: RequestOptions,
+  signal?: AbortSignal
+): Promise<ProbeOutcome> {
+  const result = await defaultLNAClient.send(
+    buildLNARequest(url, targetAddressSpace, {
+      ...options,
+      timeoutMs: options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS,
+    }),
+    signal
+  )
+  if (result.ok) {
+    return {
+      status: 'success',
+      durationMs: Math.round(result.value.timing.durationMs),
+      httpStatus: result.value.meta.status,
+      headers: result.value.headers,
     }
-  })
-
-  const contentType = response.headers.get('content-type')
-  let data: unknown
-
-  if (contentType && contentType.includes('application/json')) {
-    data = await response.json()
-  } else {
-    data = await response.text()
   }
-
-  return { data, headers }
+  return {
+    status: 'error',
+    durationMs: Math.round(result.error.timing.durationMs),
+    httpStatus: result.error.error.status,
+    error: result.error.error,
+    headers: result.error.response?.headers,
+  }
 }
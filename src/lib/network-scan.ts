@@ -0,0 +1,119 @@
+import type { ScanTarget, TargetAddressSpace } from '@/types/lna'
+import { classifyAddressSpace } from './address-space'
+
+export const MAX_SCAN_TARGETS = 4096
+// More in-flight probes than this only queue up in the browser's per-host socket pool
+export const MAX_SCAN_CONCURRENCY = 64
+
+export class ScanInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScanInputError'
+  }
+}
+
+function ipv4ToInt(ip: string): number {
+  const octets = ip.split('.')
+  if (octets.length !== 4 || !octets.every((o) => /^\d{1,3}$/.test(o) && Number(o) <= 255)) {
+    throw new ScanInputError(`Invalid IPv4 address: ${ip}`)
+  }
+  return octets.reduce((acc, octet) => acc * 256 + Number(octet), 0)
+}
+
+function intToIpv4(value: number): string {
+  return [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join('.')
+}
+
+export function parseCidr(cidr: string): string[] {
+  const [ip, prefixText = '32'] = cidr.trim().split('/')
+  const prefix = Number(prefixText)
+  if (!/^\d{1,2}$/.test(prefixText) || prefix > 32) {
+    throw new ScanInputError(`Invalid prefix length: /${prefixText}`)
+  }
+
+  const size = 2 ** (32 - prefix)
+  const network = Math.floor(ipv4ToInt(ip) / size) * size
+  if (size > MAX_SCAN_TARGETS) {
+    throw new ScanInputError(`/${prefix} has ${size} addresses; use /20 or smaller`)
+  }
+
+  // Skip the network and broadcast addresses, which never belong to a device
+  const [first, last] = size > 2 ? [network + 1, network + size - 2] : [network, network + size - 1]
+  const hosts: string[] = []
+  for (let value = first; value <= last; value++) {
+    hosts.push(intToIpv4(value))
+  }
+  return hosts
+}
+
+export function parsePorts(input: string): number[] {
+  const ports = new Set<number>()
+  input
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .forEach((part) => {
+      const [startText, endText = startText] = part.split('-').map((p) => p.trim())
+      const start = Number(startText)
+      const end = Number(endText)
+      if (
+        !Number.isInteger(start) ||
+        !Number.isInteger(end) ||
+        start < 1 ||
+        end > 65535 ||
+        start > end
+      ) {
+        throw new ScanInputError(`Invalid port or range: ${part}`)
+      }
+      for (let port = start; port <= end; port++) {
+        ports.add(port)
+      }
+    })
+
+  if (ports.size === 0) {
+    throw new ScanInputError('At least one port is required')
+  }
+  return [...ports]
+}
+
+export function buildScanTargets(
+  cidr: string,
+  portsInput: string,
+  scheme: 'http' | 'https',
+  path: string
+): ScanTarget[] {
+  const hosts = parseCidr(cidr)
+  const ports = parsePorts(portsInput)
+  if (hosts.length * ports.length > MAX_SCAN_TARGETS) {
+    throw new ScanInputError(
+      `${hosts.length} hosts × ${ports.length} ports exceeds ${MAX_SCAN_TARGETS} probes`
+    )
+  }
+
+  const normalizedPath = path.startsWith('/') ? path : `/${path}`
+  return hosts.flatMap((host) => {
+    const targetAddressSpace: TargetAddressSpace =
+      classifyAddressSpace(host)?.targetAddressSpace ?? 'private'
+    return ports.map((port) => ({
+      host,
+      port,
+      url: `${scheme}://${host}:${port}${normalizedPath}`,
+      targetAddressSpace,
+    }))
+  })
+}
+
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++])
+    }
+  })
+  await Promise.all(runners)
+}
@@ -0,0 +1,149 @@
+import type {
+  BrowserInfo,
+  FetchErrorCategory,
+  FetchResponse,
+  PermissionState,
+  PromptOutcome,
+  ResetInstructions,
+} from '@/types/lna'
+import { shippingBrowsers } from './browser-support'
+
+const EXPLAINER_KEY = 'lna-explorer:skip-permission-explainer'
+
+const RETURN_STEP = 'Come back to this tab; the explorer checks the permission again automatically'
+
+export function loadSkipExplainer(): boolean {
+  try {
+    return localStorage.getItem(EXPLAINER_KEY) === 'true'
+  } catch (error) {
+    console.log('Failed to load explainer preference:', error)
+    return false
+  }
+}
+
+export function saveSkipExplainer(skip: boolean) {
+  try {
+    if (skip) {
+      localStorage.setItem(EXPLAINER_KEY, 'true')
+    } else {
+      localStorage.removeItem(EXPLAINER_KEY)
+    }
+  } catch (error) {
+    console.log('Failed to save explainer preference:', error)
+  }
+}
+
+// Categories a failed request gets when the browser held it back rather than the network failing
+// it; a dismissed prompt fails the request fast, which the classifier reads as a missing header
+const BLOCKED_CATEGORIES: FetchErrorCategory[] = [
+  'permission-denied',
+  'missing-private-network-header',
+]
+
+// How a prompt that was pending before the request ended, or null when none was answered. A
+// state still at 'prompt' only means a dismissal when the request was blocked; one that went
+// through never needed the permission, and one the network failed never showed a prompt.
+export function promptOutcomeOf(
+  state: PermissionState | null,
+  response?: FetchResponse
+): PromptOutcome | null {
+  switch (state) {
+    case 'granted':
+      return 'granted'
+    case 'denied':
+      return 'blocked'
+    case 'prompt':
+      return response?.error && BLOCKED_CATEGORIES.includes(response.error.category)
+        ? 'dismissed'
+        : null
+    default:
+      return null
+  }
+}
+
+function chromiumSteps(browser: string, scheme: string, origin: string): ResetInstructions {
+  return {
+    browser,
+    steps: [
+      'Click the site information icon to the left of the address bar',
+      'Open "Site settings"',
+      'Find "Local network access" under Permissions and set it to "Ask" or "Allow"',
+      RETURN_STEP,
+    ],
+    settingsUrl: `${scheme}://settings/content/siteDetails?site=${encodeURIComponent(origin)}`,
+  }
+}
+
+export function getResetInstructions(
+  browserInfo: BrowserInfo | undefined,
+  origin: string = globalThis.location.origin
+): ResetInstructions {
+  const name = browserInfo?.name ?? 'this browser'
+
+  switch (browserInfo?.supportEntryId) {
+    case 'chrome':
+      if (browserInfo.os === 'Android') {
+        return {
+          browser: 'Chrome for Android',
+          steps: [
+            'Tap the site information icon to the left of the address',
+            'Tap "Permissions"',
+            'Tap "Reset permissions", or open "Site settings" and change "Local network access"',
+            RETURN_STEP,
+          ],
+        }
+      }
+      return chromiumSteps('Chrome', 'chrome', origin)
+    case 'edge':
+      return {
+        browser: 'Edge',
+        steps: [
+          'Click "View site information" (the lock icon) in the address bar',
+          'Choose "Permissions for this site"',
+          'Set "Local network access" to "Ask" or "Allow", or click "Reset permissions"',
+          RETURN_STEP,
+        ],
+        settingsUrl: `edge://settings/content/siteDetails?site=${encodeURIComponent(origin)}`,
+      }
+    case 'opera':
+      return chromiumSteps('Opera', 'opera', origin)
+    case 'brave':
+      return chromiumSteps('Brave', 'brave', origin)
+    case 'other-chromium':
+      return chromiumSteps(name, 'chrome', origin)
+    case 'samsung-internet':
+      return {
+        browser: 'Samsung Internet',
+        steps: [
+          'Open the menu and go to Settings',
+          'Open "Sites and downloads", then "Site permissions"',
+          'Select this site and reset "Local network access"',
+          RETURN_STEP,
+        ],
+      }
+    case 'electron':
+      return {
+        browser: 'Electron',
+        steps: [
+          "The app's session.setPermissionRequestHandler decides this permission, not a browser prompt",
+          'Clear the decision the app stored, or change the handler, then reload the window',
+        ],
+      }
+    case 'android-webview':
+      return {
+        browser: 'Android WebView',
+        steps: [
+          'The app that embeds this WebView controls network access',
+          "Check the app's own settings, or reinstall it to reset its permissions",
+        ],
+      }
+    default:
+      return {
+        browser: name,
+        steps: [
+          `${name} does not implement the local-network-access permission, so there is nothing to reset`,
+          `Open the explorer in ${shippingBrowsers().join(' or ')} to test the prompt`,
+        ],
+      }
+  }
+}
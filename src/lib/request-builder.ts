@@ -0,0 +1,141 @@
+import type {
+  BodyMode,
+  HttpMethod,
+  KeyValueRow,
+  RequestDraft,
+  RequestOptions,
+  RequestPreset,
+} from '@/types/lna'
+
+export const HTTP_METHODS: HttpMethod[] = [
+  'GET',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'HEAD',
+  'OPTIONS',
+]
+
+const CONTENT_TYPES: Record<Exclude<BodyMode, 'none' | 'raw'>, string> = {
+  json: 'application/json',
+  form: 'application/x-www-form-urlencoded',
+}
+
+export function methodAllowsBody(method: HttpMethod): boolean {
+  return method !== 'GET' && method !== 'HEAD'
+}
+
+export function rowsToRecord(rows: KeyValueRow[]): Record<string, string> {
+  const record: Record<string, string> = {}
+  rows.forEach((row) => {
+    const key = row.key.trim()
+    if (row.enabled && key) {
+      record[key] = row.value
+    }
+  })
+  return record
+}
+
+export function encodeFormBody(rows: KeyValueRow[]): string {
+  const params = new URLSearchParams()
+  rows.forEach((row) => {
+    const key = row.key.trim()
+    if (row.enabled && key) {
+      params.append(key, row.value)
+    }
+  })
+  return params.toString()
+}
+
+export function validateJsonBody(text: string): string | undefined {
+  if (!text.trim()) {
+    return undefined
+  }
+  try {
+    JSON.parse(text)
+    return undefined
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid JSON'
+  }
+}
+
+export function buildRequestOptions(
+  method: HttpMethod,
+  headerRows: KeyValueRow[],
+  bodyMode: BodyMode,
+  bodyText: string,
+  formRows: KeyValueRow[]
+): RequestOptions {
+  const headers = rowsToRecord(headerRows)
+
+  if (!methodAllowsBody(method) || bodyMode === 'none') {
+    return { method, headers }
+  }
+
+  const body = bodyMode === 'form' ? encodeFormBody(formRows) : bodyText
+
+  if (bodyMode !== 'raw') {
+    const hasContentType = Object.keys(headers).some((key) => key.toLowerCase() === 'content-type')
+    if (!hasContentType) {
+      headers['Content-Type'] = CONTENT_TYPES[bodyMode]
+    }
+  }
+
+  return { method, headers, body }
+}
+
+function emptyRow(): KeyValueRow {
+  return { key: '', value: '', enabled: true }
+}
+
+export function presetToDraft(preset?: RequestPreset): RequestDraft {
+  const options = preset?.options ?? {}
+  const headerRows = Object.entries(options.headers ?? {}).map(([key, value]) => ({
+    key,
+    value,
+    enabled: true,
+  }))
+  const contentType =
+    Object.entries(options.headers ?? {}).find(
+      ([key]) => key.toLowerCase() === 'content-type'
+    )?.[1] ?? ''
+
+  let bodyMode: BodyMode = 'none'
+  let formRows: KeyValueRow[] = [emptyRow()]
+  if (options.body !== undefined) {
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      bodyMode = 'form'
+      formRows = [...new URLSearchParams(options.body)].map(([key, value]) => ({
+        key,
+        value,
+        enabled: true,
+      }))
+    } else {
+      bodyMode = contentType.includes('json') ? 'json' : 'raw'
+    }
+  }
+
+  return {
+    url: preset?.url ?? '',
+    targetAddressSpace: preset?.targetAddressSpace ?? 'local',
+    method: options.method ?? 'GET',
+    headerRows,
+    bodyMode,
+    bodyText: bodyMode === 'form' ? '' : (options.body ?? ''),
+    formRows,
+    timeoutSeconds: options.timeoutMs ? String(options.timeoutMs / 1000) : '',
+  }
+}
+
+export function draftToRequestOptions(draft: RequestDraft): RequestOptions {
+  const options = buildRequestOptions(
+    draft.method,
+    draft.headerRows,
+    draft.bodyMode,
+    draft.bodyText,
+    draft.formRows
+  )
+  const timeoutMs = Math.round(parseFloat(draft.timeoutSeconds) * 1000)
+  return timeoutMs > 0 ? { ...options, timeoutMs } : options
+}
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { HistoryEntry } from '@/types/lna'
+import { compactForStorage, loadHistory, saveHistory } from './request-history'
+
+function entry(id: string, overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    id,
+    pinned: false,
+    url: `http://192.168.1.10/${id}`,
+    targetAddressSpace: 'local',
+    options: { method: 'GET' },
+    response: {
+      status: 'success',
+      data: 'ok',
+      body: { kind: 'text', contentType: 'text/plain', size: 2, text: 'ok' },
+    },
+    startedAt: 0,
+    durationMs: 1,
+    permissionState: 'granted',
+    ...overrides,
+  }
+}
+
+function withImage(id: string, bytes: number): HistoryEntry {
+  return entry(id, {
+    response: {
+      status: 'success',
+      body: { kind: 'image', contentType: 'image/png', size: bytes, base64: 'A'.repeat(bytes) },
+    },
+  })
+}
+
+afterEach(() => {
+  localStorage.clear()
+})
+
+describe('compactForStorage', () => {
+  it('keeps small bodies', () => {
+    const small = entry('a')
+
+    expect(compactForStorage(small)).toBe(small)
+  })
+
+  it('strips large bodies but keeps their description', () => {
+    const compacted = compactForStorage(withImage('a', 100_000))
+
+    expect(compacted.response.body).toEqual({
+      kind: 'image',
+      contentType: 'image/png',
+      size: 100_000,
+      stripped: true,
+    })
+    expect(compacted.response.data).toBeUndefined()
+  })
+})
+
+describe('saveHistory', () => {
+  it('round-trips through localStorage with large bodies stripped', () => {
+    saveHistory([entry('a'), withImage('b', 100_000)])
+
+    const loaded = loadHistory()
+    expect(loaded.map((e) => e.id)).toEqual(['a', 'b'])
+    expect(loaded[1].response.body?.stripped).toBe(true)
+  })
+
+  it('leaves out the oldest unpinned entries when the quota is exceeded', () => {
+    const setItem = Storage.prototype.setItem
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (
+      this: Storage,
+      key: string,
+      value: string
+    ) {
+      if ((JSON.parse(value) as unknown[]).length > 2) {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError')
+      }
+      setItem.call(this, key, value)
+    })
+
+    saveHistory([entry('new'), entry('pinned', { pinned: true }), entry('mid'), entry('old')])
+
+    expect(loadHistory().map((e) => e.id)).toEqual(['new', 'pinned'])
+  })
+
+  it('gives up without throwing when pinned entries alone do not fit', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError')
+    })
+
+    expect(() => saveHistory([entry('pinned', { pinned: true })])).not.toThrow()
+    expect(log).toHaveBeenCalled()
+  })
+})
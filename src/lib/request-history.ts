@@ -0,0 +1,88 @@
+import type { HistoryEntry } from '@/types/lna'
+
+const STORAGE_KEY = 'lna-explorer:request-history'
+const MAX_UNPINNED_ENTRIES = 50
+// Larger bodies stay in memory for the session but are not written to localStorage
+const MAX_STORED_BODY_CHARS = 16 * 1024
+
+export function loadHistory(): HistoryEntry[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) {
+      return []
+    }
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed) ? (parsed as HistoryEntry[]) : []
+  } catch (error) {
+    console.log('Failed to load request history:', error)
+    return []
+  }
+}
+
+export function compactForStorage(entry: HistoryEntry): HistoryEntry {
+  const { body } = entry.response
+  if (!body || body.stripped) {
+    return entry
+  }
+  const stored = body.base64 ?? body.text ?? ''
+  if (stored.length <= MAX_STORED_BODY_CHARS) {
+    return entry
+  }
+  return {
+    ...entry,
+    response: {
+      ...entry.response,
+      data: undefined,
+      body: { kind: body.kind, contentType: body.contentType, size: body.size, stripped: true },
+    },
+  }
+}
+
+function isQuotaExceeded(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  )
+}
+
+// Entries are newest first, so the oldest unpinned one is the last; null when none is left
+function dropOldestUnpinned(entries: HistoryEntry[]): HistoryEntry[] | null {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (!entries[i].pinned) {
+      return [...entries.slice(0, i), ...entries.slice(i + 1)]
+    }
+  }
+  return null
+}
+
+// On a full quota the oldest unpinned entries are left out of storage until the rest fits
+export function saveHistory(entries: HistoryEntry[]) {
+  let stored: HistoryEntry[] | null = entries.map(compactForStorage)
+  while (stored) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+      return
+    } catch (error) {
+      if (!isQuotaExceeded(error)) {
+        console.log('Failed to save request history:', error)
+        return
+      }
+      stored = dropOldestUnpinned(stored)
+    }
+  }
+  console.log('Failed to save request history: pinned entries alone exceed the storage quota')
+}
+
+export function createHistoryId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// Newest first; pinned entries are never trimmed
+export function trimHistory(entries: HistoryEntry[]): HistoryEntry[] {
+  let unpinned = 0
+  return entries.filter((entry) => entry.pinned || ++unpinned <= MAX_UNPINNED_ENTRIES)
+}
+
+export function describeEntry(entry: HistoryEntry): string {
+  return entry.name || `${entry.options.method ?? 'GET'} ${entry.url}`
+}
@@ -0,0 +1,35 @@
+import type { RequestTiming } from '@/types/lna'
+
+function findEntry(url: string, startedAt: number): PerformanceResourceTiming | undefined {
+  let name: string
+  try {
+    name = new URL(url, globalThis.location.href).href
+  } catch {
+    return undefined
+  }
+  const entries = performance.getEntriesByName(name, 'resource') as PerformanceResourceTiming[]
+  // Earlier requests to the same URL leave entries behind; take the latest one from this request
+  return entries.filter((entry) => entry.startTime >= startedAt - 1).pop()
+}
+
+export function collectTiming(url: string, startedAt: number): RequestTiming {
+  const durationMs = performance.now() - startedAt
+  const entry = findEntry(url, startedAt)
+
+  // Cross-origin entries without Timing-Allow-Origin report zero for every phase
+  if (!entry || entry.requestStart === 0) {
+    return { durationMs, detailed: false }
+  }
+
+  return {
+    durationMs,
+    detailed: true,
+    queueMs: entry.domainLookupStart - entry.startTime,
+    dnsMs: entry.domainLookupEnd - entry.domainLookupStart,
+    connectMs: entry.connectEnd - entry.connectStart,
+    tlsMs:
+      entry.secureConnectionStart > 0 ? entry.connectEnd - entry.secureConnectionStart : undefined,
+    ttfbMs: entry.responseStart - entry.requestStart,
+    downloadMs: entry.responseEnd - entry.responseStart,
+  }
+}
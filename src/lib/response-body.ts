@@ -0,0 +1,85 @@
+import type { ResponseBody } from '@/types/lna'
+
+const TEXT_CONTENT_TYPES = ['text/', 'xml', 'javascript', 'x-www-form-urlencoded', 'svg']
+
+export function isLnaHeader(key: string): boolean {
+  const lower = key.toLowerCase()
+  return lower.includes('private-network') || lower.includes('access-control')
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export function hexDump(bytes: Uint8Array, limit = 4096): string {
+  const lines: string[] = []
+  const end = Math.min(bytes.length, limit)
+  for (let offset = 0; offset < end; offset += 16) {
+    const row = bytes.subarray(offset, Math.min(offset + 16, end))
+    const hex = Array.from(row, (b) => b.toString(16).padStart(2, '0'))
+      .join(' ')
+      .padEnd(47, ' ')
+    const ascii = Array.from(row, (b) =>
+      b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.'
+    ).join('')
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex}  |${ascii}|`)
+  }
+  return lines.join('\n')
+}
+
+function isTextContentType(contentType: string): boolean {
+  return TEXT_CONTENT_TYPES.some((type) => contentType.includes(type))
+}
+
+export async function readResponseBody(
+  response: Response
+): Promise<{ data: unknown; body: ResponseBody }> {
+  const contentType = (response.headers.get('content-type') ?? '').toLowerCase()
+  const bytes = new Uint8Array(await response.arrayBuffer())
+  const size = bytes.byteLength
+
+  if (size === 0) {
+    return { data: '', body: { kind: 'empty', contentType, size } }
+  }
+
+  if (contentType.startsWith('image/') && !contentType.includes('svg')) {
+    return {
+      data: undefined,
+      body: { kind: 'image', contentType, size, base64: bytesToBase64(bytes) },
+    }
+  }
+
+  const looksTextual =
+    !contentType || contentType.includes('json') || isTextContentType(contentType)
+  if (!looksTextual) {
+    return {
+      data: undefined,
+      body: { kind: 'binary', contentType, size, base64: bytesToBase64(bytes) },
+    }
+  }
+
+  const text = new TextDecoder().decode(bytes)
+  if (contentType.includes('json')) {
+    try {
+      return { data: JSON.parse(text), body: { kind: 'json', contentType, size, text } }
+    } catch {
+      // Mislabelled body: fall through and show it as text
+    }
+  }
+
+  return { data: text, body: { kind: 'text', contentType, size, text } }
+}
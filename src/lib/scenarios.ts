@@ -0,0 +1,35 @@
+import type { ScenarioOverrides, ServerScenario } from '@/types/lna'
+import { classifyAddressSpace } from './address-space'
+import { makeLocalNetworkRequest } from './lna-permissions'
+
+export const DEFAULT_SCENARIO_SERVER = 'http://localhost:8080'
+
+export function trimBase(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '')
+}
+
+export async function fetchScenarios(baseUrl: string): Promise<ServerScenario[]> {
+  const url = `${trimBase(baseUrl)}/__scenarios`
+  const targetAddressSpace = classifyAddressSpace(url)?.targetAddressSpace ?? 'local'
+  const { data } = await makeLocalNetworkRequest(url, targetAddressSpace)
+  const scenarios = (data as { scenarios?: ServerScenario[] } | null)?.scenarios
+  if (!Array.isArray(scenarios)) {
+    throw new Error(`${url} did not return a scenario list`)
+  }
+  return scenarios
+}
+
+export function buildScenarioUrl(
+  baseUrl: string,
+  name: string,
+  overrides: ScenarioOverrides = {}
+): string {
+  const params = new URLSearchParams()
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value))
+    }
+  })
+  const query = params.toString()
+  return `${trimBase(baseUrl)}/scenario/${encodeURIComponent(name)}${query ? `?${query}` : ''}`
+}
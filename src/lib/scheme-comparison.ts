@@ -0,0 +1,42 @@
+import type { SchemePorts, UrlScheme } from '@/types/lna'
+
+// Matches the test server defaults (`npm run test-server -- --https`)
+export const DEFAULT_SCHEME_PORTS: SchemePorts = { http: 8080, https: 8443 }
+
+const STANDARD_PORTS: SchemePorts = { http: 80, https: 443 }
+
+export function schemeOf(url: string): UrlScheme | null {
+  try {
+    const protocol = new URL(url).protocol
+    return protocol === 'http:' || protocol === 'https:'
+      ? (protocol.slice(0, -1) as UrlScheme)
+      : null
+  } catch {
+    return null
+  }
+}
+
+// Guesses which port the same device uses for the other scheme: standard ports map to each other,
+// the test server ports map to each other, and anything else is assumed to serve both schemes.
+export function guessSchemePorts(url: string): SchemePorts {
+  const scheme = schemeOf(url)
+  if (!scheme) {
+    return DEFAULT_SCHEME_PORTS
+  }
+  const parsed = new URL(url)
+  const port = parsed.port ? Number(parsed.port) : STANDARD_PORTS[scheme]
+
+  for (const pair of [STANDARD_PORTS, DEFAULT_SCHEME_PORTS]) {
+    if (pair[scheme] === port) {
+      return pair
+    }
+  }
+  return { http: port, https: port }
+}
+
+export function withScheme(url: string, scheme: UrlScheme, port: number): string {
+  const parsed = new URL(url)
+  parsed.protocol = `${scheme}:`
+  parsed.port = port === STANDARD_PORTS[scheme] ? '' : String(port)
+  return parsed.toString()
+}
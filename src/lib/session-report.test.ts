@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import type { HistoryEntry } from '@/types/lna'
+import {
+  ReportImportError,
+  buildSessionReport,
+  parseSessionReport,
+  serializeReport,
+} from './session-report'
+
+const failed: HistoryEntry = {
+  id: 'a',
+  pinned: false,
+  url: 'http://192.168.1.10/',
+  targetAddressSpace: 'local',
+  options: { method: 'GET' },
+  response: {
+    status: 'error',
+    error: { category: 'permission-denied', confidence: 'high', message: 'Blocked' },
+  },
+  startedAt: 0,
+  durationMs: 5,
+  permissionState: 'denied',
+}
+
+function reportJson(patch: Record<string, unknown> = {}) {
+  return JSON.stringify({ ...buildSessionReport(null, [], [failed]), ...patch })
+}
+
+describe('parseSessionReport', () => {
+  it.each(['json', 'har'] as const)('reads back a %s export', (format) => {
+    const report = buildSessionReport(null, [], [failed])
+
+    expect(parseSessionReport(serializeReport(report, format))).toEqual(report)
+  })
+
+  it('accepts a response with a body and timing', () => {
+    const report = buildSessionReport(
+      null,
+      [],
+      [
+        {
+          ...failed,
+          response: {
+            status: 'success',
+            body: {
+              kind: 'binary',
+              contentType: 'application/octet-stream',
+              size: 3,
+              base64: 'AAEC',
+            },
+            timing: { durationMs: 12, detailed: true, ttfbMs: 4 },
+          },
+        },
+      ]
+    )
+
+    expect(parseSessionReport(serializeReport(report, 'json'))).toEqual(report)
+  })
+
+  it.each([
+    ['not JSON', '{', 'File is not JSON'],
+    ['another file', '{"requests":{}}', 'not an LNA Explorer report'],
+    ['a missing page', reportJson({ page: undefined }), 'page details'],
+    ['a missing browser', reportJson({ browser: 'Chrome' }), 'browser details'],
+    ['a malformed permission', reportJson({ permission: { state: 'granted' } }), 'permission'],
+    ['a malformed permission history', reportJson({ permissionHistory: [{}] }), 'history'],
+    ['a request without options', reportJson({ requests: [{ url: 'x' }] }), 'Request 1'],
+    [
+      'an unknown error category',
+      reportJson({
+        requests: [{ ...failed, response: { status: 'error', error: { category: 'toString' } } }],
+      }),
+      'unknown error category: toString',
+    ],
+    [
+      'a request without a start time',
+      reportJson({ requests: [{ ...failed, startedAt: 'now' }] }),
+      'start time',
+    ],
+    [
+      'a body that is not base64',
+      reportJson({
+        requests: [
+          {
+            ...failed,
+            response: {
+              status: 'success',
+              body: { kind: 'binary', contentType: '', size: 3, base64: '%%%' },
+            },
+          },
+        ],
+      }),
+      'response body',
+    ],
+    [
+      'a body of an unknown kind',
+      reportJson({
+        requests: [
+          {
+            ...failed,
+            response: { status: 'success', body: { kind: 'video', contentType: '', size: 0 } },
+          },
+        ],
+      }),
+      'response body',
+    ],
+    [
+      'timing without a duration',
+      reportJson({
+        requests: [{ ...failed, response: { status: 'success', timing: { detailed: false } } }],
+      }),
+      'timing',
+    ],
+  ])('rejects %s', (_label, text, message) => {
+    expect(() => parseSessionReport(text)).toThrow(ReportImportError)
+    expect(() => parseSessionReport(text)).toThrow(message)
+  })
+})
@@ -0,0 +1,393 @@
+import type {
+  HistoryEntry,
+  LNAPermissionStatus,
+  PermissionTransition,
+  ReportFormat,
+  ResponseBodyKind,
+  SessionReport,
+} from '@/types/lna'
+import { getBrowserInfo } from './browser-detection'
+import { FETCH_ERROR_EXPLANATIONS } from './fetch-errors'
+
+export const REPORT_VERSION = 1
+
+export const REPORT_FORMATS: { format: ReportFormat; label: string; extension: string }[] = [
+  { format: 'json', label: 'JSON', extension: 'json' },
+  { format: 'markdown', label: 'Markdown', extension: 'md' },
+  { format: 'har', label: 'HAR', extension: 'har' },
+]
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  json: 'application/json',
+  markdown: 'text/markdown',
+  har: 'application/json',
+}
+
+export class ReportImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReportImportError'
+  }
+}
+
+export function buildSessionReport(
+  permission: LNAPermissionStatus | null,
+  permissionHistory: PermissionTransition[],
+  entries: HistoryEntry[]
+): SessionReport {
+  return {
+    version: REPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    page: { url: window.location.href, isSecureContext: window.isSecureContext },
+    userAgent: navigator.userAgent,
+    browser: getBrowserInfo(),
+    permission,
+    permissionHistory,
+    requests: [...entries].sort((a, b) => a.startedAt - b.startedAt),
+  }
+}
+
+function outcomeOf(entry: HistoryEntry): string {
+  const { response } = entry
+  if (response.status === 'success') {
+    return `success (${response.meta?.status ?? 200})`
+  }
+  if (response.error) {
+    const status = response.error.status ? ` ${response.error.status}` : ''
+    return `${response.error.category}${status}`
+  }
+  return response.status
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ')
+}
+
+function headerBlock(headers: Record<string, string> = {}): string {
+  const lines = Object.entries(headers).map(([key, value]) => `${key}: ${value}`)
+  return lines.length > 0 ? ['```', ...lines, '```'].join('\n') : '_none_'
+}
+
+export function reportToMarkdown(report: SessionReport): string {
+  const permission = report.permission
+  const lines = [
+    '# LNA Permissions Explorer session report',
+    '',
+    `Generated ${report.generatedAt}`,
+    '',
+    '## Environment',
+    '',
+    '| | |',
+    '| --- | --- |',
+    `| Browser | ${report.browser.name} ${report.browser.version} |`,
+    `| Likely supported | ${report.browser.isLikelySupported ? 'yes' : 'no'}${report.browser.supportReason ? ` (${escapeCell(report.browser.supportReason)})` : ''} |`,
+    ...(report.browser.features
+      ? [
+          `| Engine | ${report.browser.engine} ${report.browser.engineVersion} (${report.browser.os}) |`,
+          `| LNA features | ${report.browser.features.map((f) => `${f.feature}: ${f.status}`).join(', ')} (support table v${report.browser.supportTableVersion}) |`,
+        ]
+      : []),
+    `| User agent | \`${escapeCell(report.userAgent)}\` |`,
+    `| Page | ${report.page.url} |`,
+    `| Secure context | ${report.page.isSecureContext ? 'yes' : 'no'} |`,
+    `| Permission state | ${permission ? (permission.state ?? 'unsupported') : 'unknown'}${permission && !permission.browserSupport.isSupported ? ` (${escapeCell(permission.browserSupport.reason ?? 'unsupported')})` : ''} |`,
+    '',
+  ]
+
+  if (report.permissionHistory.length > 0) {
+    lines.push('## Permission changes', '')
+    report.permissionHistory.forEach((t) => {
+      lines.push(
+        `- ${new Date(t.timestamp).toISOString()}: ${t.from ?? '(none)'} → ${t.to} (${t.source})`
+      )
+    })
+    lines.push('')
+  }
+
+  lines.push('## Requests', '')
+  if (report.requests.length === 0) {
+    lines.push('_No requests recorded._')
+    return lines.join('\n')
+  }
+
+  lines.push(
+    '| # | Started | Method | URL | Address space | Outcome | Duration |',
+    '| --- | --- | --- | --- | --- | --- | --- |'
+  )
+  report.requests.forEach((entry, index) => {
+    lines.push(
+      `| ${index + 1} | ${new Date(entry.startedAt).toISOString()} | ${entry.options.method ?? 'GET'} | ${escapeCell(entry.url)} | ${entry.targetAddressSpace} | ${escapeCell(outcomeOf(entry))} | ${entry.durationMs}ms |`
+    )
+  })
+
+  report.requests.forEach((entry, index) => {
+    const { response } = entry
+    lines.push('', `### ${index + 1}. ${entry.options.method ?? 'GET'} ${entry.url}`, '')
+    if (entry.name) {
+      lines.push(`**${entry.name}**`, '')
+    }
+    lines.push(
+      `- Target address space: \`${entry.targetAddressSpace}\``,
+      `- Permission at send time: ${entry.permissionState ?? 'unknown'}`,
+      `- Outcome: ${outcomeOf(entry)}`
+    )
+    if (response.error) {
+      lines.push(
+        `- Error: ${FETCH_ERROR_EXPLANATIONS[response.error.category].title} — ${response.error.name ? `${response.error.name}: ` : ''}${response.error.message}`
+      )
+    }
+    if (response.timing) {
+      const t = response.timing
+      const phases = [
+        ['queue', t.queueMs],
+        ['dns', t.dnsMs],
+        ['connect', t.connectMs],
+        ['tls', t.tlsMs],
+        ['ttfb', t.ttfbMs],
+        ['download', t.downloadMs],
+      ]
+        .filter(([, value]) => value !== undefined)
+        .map(([label, value]) => `${label} ${Math.round(value as number)}ms`)
+      lines.push(
+        `- Timing: ${Math.round(t.durationMs)}ms total${phases.length > 0 ? ` (${phases.join(', ')})` : ''}`
+      )
+    }
+    lines.push('', 'Request headers:', '', headerBlock(entry.options.headers))
+    if (entry.options.body) {
+      lines.push('', 'Request body:', '', '```', entry.options.body, '```')
+    }
+    lines.push('', 'Response headers:', '', headerBlock(response.headers))
+  })
+
+  return lines.join('\n')
+}
+
+function toNameValue(record: Record<string, string> = {}) {
+  return Object.entries(record).map(([name, value]) => ({ name, value }))
+}
+
+function harTimings(entry: HistoryEntry) {
+  const timing = entry.response.timing
+  if (!timing?.detailed) {
+    return {
+      blocked: -1,
+      dns: -1,
+      connect: -1,
+      ssl: -1,
+      send: 0,
+      wait: Math.round(timing?.durationMs ?? entry.durationMs),
+      receive: 0,
+    }
+  }
+  return {
+    blocked: timing.queueMs ?? -1,
+    dns: timing.dnsMs ?? -1,
+    // HAR counts TLS inside connect
+    connect: timing.connectMs !== undefined ? timing.connectMs + (timing.tlsMs ?? 0) : -1,
+    ssl: timing.tlsMs ?? -1,
+    send: 0,
+    wait: timing.ttfbMs ?? 0,
+    receive: timing.downloadMs ?? 0,
+  }
+}
+
+function harEntry(entry: HistoryEntry) {
+  const { response } = entry
+  const method = entry.options.method ?? 'GET'
+  let queryString: { name: string; value: string }[] = []
+  try {
+    queryString = [...new URL(entry.url).searchParams].map(([name, value]) => ({ name, value }))
+  } catch {
+    // Unparseable URLs are still exported as typed
+  }
+  const contentType =
+    Object.entries(entry.options.headers ?? {}).find(
+      ([key]) => key.toLowerCase() === 'content-type'
+    )?.[1] ?? 'text/plain'
+  const body = response.body
+
+  return {
+    startedDateTime: new Date(entry.startedAt).toISOString(),
+    time: entry.durationMs,
+    request: {
+      method,
+      url: entry.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValue(entry.options.headers),
+      queryString,
+      headersSize: -1,
+      bodySize: entry.options.body ? entry.options.body.length : 0,
+      ...(entry.options.body
+        ? { postData: { mimeType: contentType, text: entry.options.body } }
+        : {}),
+    },
+    response: {
+      // HAR uses status 0 for requests that never got a response
+      status: response.meta?.status ?? response.error?.status ?? 0,
+      statusText: response.meta?.statusText ?? response.error?.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValue(response.headers),
+      content: {
+        size: body?.size ?? 0,
+        mimeType: body?.contentType || 'x-unknown',
+        ...(body?.text !== undefined ? { text: body.text } : {}),
+        ...(body?.base64 !== undefined ? { text: body.base64, encoding: 'base64' } : {}),
+      },
+      redirectURL: response.meta?.redirected ? response.meta.url : '',
+      headersSize: -1,
+      bodySize: body?.size ?? -1,
+      ...(response.error ? { _error: response.error.message } : {}),
+    },
+    cache: {},
+    timings: harTimings(entry),
+    _targetAddressSpace: entry.targetAddressSpace,
+    _permissionState: entry.permissionState,
+    ...(response.error ? { _errorCategory: response.error.category } : {}),
+  }
+}
+
+// HAR 1.2; the full report rides along in log._lnaExplorer so the HAR can be imported back
+export function reportToHar(report: SessionReport) {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'LNA Permissions Explorer', version: String(REPORT_VERSION) },
+      browser: { name: report.browser.name, version: report.browser.version },
+      pages: [],
+      entries: report.requests.map(harEntry),
+      comment: `Permission: ${report.permission?.state ?? 'unknown'}, secure context: ${report.page.isSecureContext}`,
+      _lnaExplorer: report,
+    },
+  }
+}
+
+export function serializeReport(report: SessionReport, format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2)
+    case 'markdown':
+      return reportToMarkdown(report)
+    case 'har':
+      return JSON.stringify(reportToHar(report), null, 2)
+  }
+}
+
+export function downloadReport(report: SessionReport, format: ReportFormat) {
+  const extension = REPORT_FORMATS.find((f) => f.format === format)?.extension ?? 'txt'
+  const stamp = report.generatedAt.replace(/[:.]/g, '-')
+  const blob = new Blob([serializeReport(report, format)], { type: MIME_TYPES[format] })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `lna-report-${stamp}.${extension}`
+  link.click()
+  // Revoking in the same task can cancel the download before the browser has started it
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validatePermission(permission: unknown) {
+  if (permission !== null && !(isRecord(permission) && isRecord(permission.browserSupport))) {
+    throw new ReportImportError('Report has a malformed permission status')
+  }
+}
+
+function validatePermissionHistory(history: unknown) {
+  const isTransition = (t: unknown) =>
+    isRecord(t) && typeof t.to === 'string' && typeof t.timestamp === 'number'
+  if (!Array.isArray(history) || !history.every(isTransition)) {
+    throw new ReportImportError('Report has a malformed permission history')
+  }
+}
+
+const BODY_KINDS: ResponseBodyKind[] = ['json', 'text', 'image', 'binary', 'empty']
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/
+const TIMING_PHASES = ['queueMs', 'dnsMs', 'connectMs', 'tlsMs', 'ttfbMs', 'downloadMs'] as const
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+// The viewer decodes base64 bodies with atob, which throws on anything malformed
+function isValidBody(body: unknown): boolean {
+  return (
+    isRecord(body) &&
+    typeof body.kind === 'string' &&
+    (BODY_KINDS as string[]).includes(body.kind) &&
+    typeof body.contentType === 'string' &&
+    isFiniteNumber(body.size) &&
+    (body.base64 === undefined || (typeof body.base64 === 'string' && BASE64.test(body.base64))) &&
+    (body.text === undefined || typeof body.text === 'string')
+  )
+}
+
+function isValidTiming(timing: unknown): boolean {
+  return (
+    isRecord(timing) &&
+    isFiniteNumber(timing.durationMs) &&
+    typeof timing.detailed === 'boolean' &&
+    TIMING_PHASES.every((phase) => timing[phase] === undefined || isFiniteNumber(timing[phase]))
+  )
+}
+
+function validateRequest(entry: unknown, index: number) {
+  const label = `Request ${index + 1}`
+  if (!isRecord(entry) || typeof entry.url !== 'string' || !isRecord(entry.options)) {
+    throw new ReportImportError(`${label} is missing its URL or request options`)
+  }
+  if (!isFiniteNumber(entry.startedAt)) {
+    throw new ReportImportError(`${label} has no valid start time`)
+  }
+  const { response } = entry
+  if (!isRecord(response) || typeof response.status !== 'string') {
+    throw new ReportImportError(`${label} is missing its response`)
+  }
+  if (response.body !== undefined && !isValidBody(response.body)) {
+    throw new ReportImportError(`${label} has a malformed response body`)
+  }
+  if (response.timing !== undefined && !isValidTiming(response.timing)) {
+    throw new ReportImportError(`${label} has malformed timing`)
+  }
+  if (response.error === undefined) {
+    return
+  }
+  const category = isRecord(response.error) ? response.error.category : undefined
+  if (typeof category !== 'string' || !Object.hasOwn(FETCH_ERROR_EXPLANATIONS, category)) {
+    throw new ReportImportError(`${label} has an unknown error category: ${String(category)}`)
+  }
+}
+
+// Accepts the JSON report or a HAR exported by this app. Everything the viewer reads is checked
+// here, so a hand-edited or truncated file fails with a message instead of a blank page.
+export function parseSessionReport(text: string): SessionReport {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ReportImportError('File is not JSON. Import a .json or .har report exported here.')
+  }
+
+  const candidate = ((data as { log?: { _lnaExplorer?: unknown } })?.log?._lnaExplorer ??
+    data) as Partial<SessionReport> | null
+  if (!candidate || typeof candidate !== 'object' || !Array.isArray(candidate.requests)) {
+    throw new ReportImportError('File is not an LNA Explorer report')
+  }
+  if (candidate.version !== REPORT_VERSION) {
+    throw new ReportImportError(`Unsupported report version ${String(candidate.version)}`)
+  }
+  if (!isRecord(candidate.page) || typeof candidate.page.url !== 'string') {
+    throw new ReportImportError('Report is missing its page details')
+  }
+  if (!isRecord(candidate.browser) || typeof candidate.browser.name !== 'string') {
+    throw new ReportImportError('Report is missing its browser details')
+  }
+  validatePermission(candidate.permission ?? null)
+  validatePermissionHistory(candidate.permissionHistory)
+  candidate.requests.forEach(validateRequest)
+  return candidate as SessionReport
+}
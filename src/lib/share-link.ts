@@ -0,0 +1,112 @@
+import type {
+  BodyMode,
+  HttpMethod,
+  KeyValueRow,
+  RequestDraft,
+  TargetAddressSpace,
+} from '@/types/lna'
+import { HTTP_METHODS, presetToDraft } from './request-builder'
+import { TARGET_ADDRESS_SPACES } from './address-space'
+
+const BODY_MODES: BodyMode[] = ['none', 'raw', 'json', 'form']
+
+export const AUTORUN_PARAM = 'autorun'
+
+function enabledRows(rows: KeyValueRow[]) {
+  return rows.filter((row) => row.enabled && row.key.trim())
+}
+
+// Serializes only what differs from a blank form, so links stay short:
+// ?url=…&tas=…&method=POST&header=Name:%20value&bodyMode=json&body=…&field=k=v&timeout=5
+export function draftToSearchParams(draft: RequestDraft, autorun = false): URLSearchParams {
+  const params = new URLSearchParams()
+  if (!draft.url.trim()) {
+    return params
+  }
+
+  params.set('url', draft.url.trim())
+  params.set('tas', draft.targetAddressSpace)
+  if (draft.method !== 'GET') {
+    params.set('method', draft.method)
+  }
+  enabledRows(draft.headerRows).forEach((row) =>
+    params.append('header', `${row.key}: ${row.value}`)
+  )
+  if (draft.bodyMode !== 'none') {
+    params.set('bodyMode', draft.bodyMode)
+    if (draft.bodyMode === 'form') {
+      enabledRows(draft.formRows).forEach((row) =>
+        params.append('field', `${row.key}=${row.value}`)
+      )
+    } else if (draft.bodyText) {
+      params.set('body', draft.bodyText)
+    }
+  }
+  if (draft.timeoutSeconds) {
+    params.set('timeout', draft.timeoutSeconds)
+  }
+  if (autorun) {
+    params.set(AUTORUN_PARAM, '1')
+  }
+  return params
+}
+
+function splitPair(value: string, separator: string): KeyValueRow {
+  const index = value.indexOf(separator)
+  return index === -1
+    ? { key: value.trim(), value: '', enabled: true }
+    : {
+        key: value.slice(0, index).trim(),
+        value: value.slice(index + 1).trimStart(),
+        enabled: true,
+      }
+}
+
+// Reads a link produced by draftToSearchParams. Unknown values fall back to the form defaults
+// instead of failing, since links may be hand-edited. Returns null when there is no url param.
+export function searchParamsToDraft(
+  params: URLSearchParams
+): { draft: RequestDraft; autorun: boolean } | null {
+  const url = params.get('url')
+  if (!url) {
+    return null
+  }
+
+  const defaults = presetToDraft({ url })
+  const method = params.get('method')?.toUpperCase() as HttpMethod | undefined
+  const tas = params.get('tas') as TargetAddressSpace | null
+  const bodyMode = params.get('bodyMode') as BodyMode | null
+  const headerRows = params.getAll('header').map((header) => splitPair(header, ':'))
+  const formRows = params.getAll('field').map((field) => splitPair(field, '='))
+  const timeout = params.get('timeout')
+
+  const draft: RequestDraft = {
+    ...defaults,
+    targetAddressSpace:
+      tas && TARGET_ADDRESS_SPACES.includes(tas) ? tas : defaults.targetAddressSpace,
+    method: method && HTTP_METHODS.includes(method) ? method : defaults.method,
+    headerRows: headerRows.length > 0 ? headerRows : defaults.headerRows,
+    bodyMode: bodyMode && BODY_MODES.includes(bodyMode) ? bodyMode : defaults.bodyMode,
+    bodyText: params.get('body') ?? defaults.bodyText,
+    formRows: formRows.length > 0 ? formRows : defaults.formRows,
+    timeoutSeconds: timeout && parseFloat(timeout) > 0 ? timeout : defaults.timeoutSeconds,
+  }
+
+  const autorunValue = params.get(AUTORUN_PARAM)
+  return {
+    draft,
+    autorun: autorunValue !== null && autorunValue !== '0' && autorunValue !== 'false',
+  }
+}
+
+// A link can be crafted by anyone, so only safe methods run without the user confirming
+export function canAutorunWithoutConfirm(draft: RequestDraft): boolean {
+  return draft.method === 'GET' || draft.method === 'HEAD'
+}
+
+export function buildShareUrl(draft: RequestDraft, autorun: boolean): string {
+  const url = new URL(window.location.href)
+  url.search = draftToSearchParams(draft, autorun).toString()
+  url.hash = ''
+  return url.toString()
+}
@@ -0,0 +1,98 @@
+import type { LNAPermissionStatus, RequestTransport, StreamTransport } from '@/types/lna'
+import { classifyAddressSpace } from './address-space'
+
+export const STREAM_EVENT_DONE = 'done'
+
+export const WEBSOCKET_CLOSE_CODES: Record<number, string> = {
+  1000: 'Normal closure',
+  1001: 'Going away',
+  1002: 'Protocol error',
+  1003: 'Unsupported data',
+  1005: 'No status code received',
+  1006: 'Abnormal closure: the connection dropped or never opened',
+  1007: 'Invalid frame payload data',
+  1008: 'Policy violation',
+  1009: 'Message too big',
+  1010: 'Missing extension',
+  1011: 'Internal server error',
+  1015: 'TLS handshake failure',
+}
+
+export function describeCloseCode(code: number): string {
+  if (WEBSOCKET_CLOSE_CODES[code]) {
+    return WEBSOCKET_CLOSE_CODES[code]
+  }
+  if (code >= 4000 && code <= 4999) {
+    return 'Application-defined'
+  }
+  if (code >= 3000 && code <= 3999) {
+    return 'Registered by a library or framework'
+  }
+  return 'Unknown'
+}
+
+// WebSocket.close() throws InvalidAccessError for anything else
+export function isValidClientCloseCode(code: number): boolean {
+  return code === 1000 || (code >= 3000 && code <= 4999)
+}
+
+export const MAX_CLOSE_REASON_BYTES = 123
+
+// WebSocket.close() throws SyntaxError for a longer reason; the limit counts UTF-8 bytes
+export function isValidCloseReason(reason: string): boolean {
+  return new TextEncoder().encode(reason).length <= MAX_CLOSE_REASON_BYTES
+}
+
+// Rewrites the scheme so the same host can be tried over each transport: ws(s):// for WebSocket,
+// http(s):// for fetch and EventSource. Leaves unparseable input alone.
+export function toTransportUrl(url: string, transport: RequestTransport): string {
+  try {
+    const parsed = new URL(url)
+    const secure = parsed.protocol === 'https:' || parsed.protocol === 'wss:'
+    const protocol =
+      transport === 'websocket' ? (secure ? 'wss:' : 'ws:') : secure ? 'https:' : 'http:'
+    if (parsed.protocol === protocol) {
+      return url
+    }
+    return `${protocol}${url.slice(parsed.protocol.length)}`
+  } catch {
+    return url
+  }
+}
+
+export function parseEventNames(value: string): string[] {
+  return value
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name && name !== 'message')
+}
+
+// WebSocket and EventSource errors carry no detail at all, so the best we can do is combine what
+// the page knows (secure context, scheme, permission state) into a likely cause.
+export function describeStreamFailure(
+  transport: StreamTransport,
+  url: string,
+  permission: LNAPermissionStatus | null,
+  opened: boolean
+): string {
+  if (opened) {
+    return 'The connection dropped after it was established.'
+  }
+
+  const insecureScheme = url.startsWith('ws:') || url.startsWith('http:')
+  // Loopback counts as potentially trustworthy, so ws://localhost is not mixed content
+  const isLoopback = classifyAddressSpace(url)?.targetAddressSpace === 'loopback'
+  if (window.location.protocol === 'https:' && insecureScheme && !isLoopback) {
+    return `Mixed content: a secure page cannot open ${transport === 'websocket' ? 'ws://' : 'http://'} URLs. Use ${transport === 'websocket' ? 'wss://' : 'https://'} instead.`
+  }
+  if (permission?.state === 'denied') {
+    return 'Local Network Access permission is denied for this site, so the browser blocked the connection.'
+  }
+  if (permission?.state === 'prompt') {
+    return 'Local Network Access permission has not been granted yet. A dismissed prompt fails the connection silently.'
+  }
+  if (transport === 'eventsource') {
+    return 'The stream failed. Common causes: the server is unreachable, answered with a non-200 status or a Content-Type other than text/event-stream, or did not send Access-Control-Allow-Origin.'
+  }
+  return 'The handshake failed. Common causes: the server is unreachable, rejected the upgrade, or presented an untrusted certificate.'
+}
@@ -0,0 +1,152 @@
+import type { SubresourceKind, SubresourceOutcome, SubresourceProbeResult } from '@/types/lna'
+
+export const SUBRESOURCE_KINDS: { kind: SubresourceKind; label: string }[] = [
+  { kind: 'img', label: '<img>' },
+  { kind: 'iframe', label: '<iframe>' },
+  { kind: 'script', label: '<script>' },
+  { kind: 'stylesheet', label: '<link rel=stylesheet>' },
+  { kind: 'form', label: 'Form POST' },
+  { kind: 'popup', label: 'window.open' },
+]
+
+const DEFAULT_PROBE_TIMEOUT_MS = 10000
+
+type Settle = (outcome: SubresourceOutcome, detail?: string) => void
+
+// Mounts an element off-screen, waits for load/error (or the timeout) and always removes it again
+function probeElement(
+  element: HTMLElement,
+  timeoutMs: number,
+  onSettle: Settle,
+  describeLoad?: () => string | undefined
+) {
+  let done = false
+  const finish: Settle = (outcome, detail) => {
+    if (done) {
+      return
+    }
+    done = true
+    clearTimeout(timer)
+    element.remove()
+    onSettle(outcome, detail)
+  }
+  const timer = setTimeout(() => finish('timeout'), timeoutMs)
+
+  element.addEventListener('load', () => finish('load', describeLoad?.()))
+  element.addEventListener('error', () => finish('error'))
+  element.style.cssText = 'position:absolute;width:1px;height:1px;left:-9999px;visibility:hidden'
+  return element
+}
+
+function uniqueName(prefix: string) {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function startProbe(kind: SubresourceKind, url: string, timeoutMs: number, settle: Settle) {
+  switch (kind) {
+    case 'img': {
+      const img = new Image()
+      probeElement(img, timeoutMs, settle, () => `${img.naturalWidth}×${img.naturalHeight}`)
+      img.src = url
+      document.body.appendChild(img)
+      return
+    }
+    case 'iframe': {
+      const iframe = document.createElement('iframe')
+      // Without delegation a cross-origin frame cannot use the LNA permission at all
+      iframe.allow = 'local-network-access'
+      probeElement(iframe, timeoutMs, settle, () => 'load also fires for error pages')
+      iframe.src = url
+      document.body.appendChild(iframe)
+      return
+    }
+    case 'script': {
+      const script = document.createElement('script')
+      probeElement(script, timeoutMs, settle)
+      script.src = url
+      document.body.appendChild(script)
+      return
+    }
+    case 'stylesheet': {
+      const link = document.createElement('link')
+      link.rel = 'stylesheet'
+      probeElement(link, timeoutMs, settle)
+      link.href = url
+      document.head.appendChild(link)
+      return
+    }
+    case 'form': {
+      // The response lands in a hidden frame; its load event is the only signal we get
+      const name = uniqueName('lna-form-probe')
+      const iframe = document.createElement('iframe')
+      iframe.name = name
+      iframe.allow = 'local-network-access'
+      const form = document.createElement('form')
+      form.method = 'POST'
+      form.action = url
+      form.target = name
+      form.style.display = 'none'
+      const field = document.createElement('input')
+      field.type = 'hidden'
+      field.name = 'probe'
+      field.value = 'lna-explorer'
+      form.appendChild(field)
+
+      // The frame's own about:blank load fires as soon as it is attached. It submits the form
+      // and is kept from the probe; only the load after the submit says anything about the POST
+      iframe.src = 'about:blank'
+      iframe.addEventListener(
+        'load',
+        (event) => {
+          event.stopImmediatePropagation()
+          form.submit()
+        },
+        { once: true }
+      )
+      probeElement(iframe, timeoutMs, (outcome, detail) => {
+        form.remove()
+        settle(outcome, detail)
+      })
+      document.body.appendChild(form)
+      document.body.appendChild(iframe)
+      return
+    }
+    case 'popup': {
+      // Must run inside the click handler: popups need transient user activation
+      const popup = window.open(url, uniqueName('lna-popup-probe'))
+      if (!popup) {
+        settle('blocked', 'The popup blocker prevented window.open')
+        return
+      }
+      settle('opened', 'Cross-origin popups cannot be observed; check the new window')
+      return
+    }
+  }
+}
+
+// Loads the URL the way a page would for the given element or navigation. Browsers hide why a
+// subresource failed, so only load/error and the elapsed time are reported. Probes start
+// synchronously, which keeps the popup inside the user gesture that triggered it.
+export function probeSubresource(
+  kind: SubresourceKind,
+  url: string,
+  timeoutMs: number = DEFAULT_PROBE_TIMEOUT_MS
+): Promise<SubresourceProbeResult> {
+  const startedAt = performance.now()
+  return new Promise((resolve) => {
+    const settle: Settle = (outcome, detail) => {
+      resolve({
+        kind,
+        status: outcome === 'load' || outcome === 'opened' ? 'success' : 'error',
+        outcome,
+        durationMs: Math.round(performance.now() - startedAt),
+        detail,
+      })
+    }
+    try {
+      startProbe(kind, url, timeoutMs, settle)
+    } catch (error) {
+      settle('error', error instanceof Error ? error.message : String(error))
+    }
+  })
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createTestClient, mockFetch, mockResponse } from '@/test/mocks'
+import { SAMPLE_SUITE, SuiteParseError, executeCase, parseSuite } from './test-suite'
+
+type ScenarioModel = { allowOrigin?: 'omit'; preflight?: 'reject'; delayMs?: number }
+
+// BUILTIN_SCENARIOS from test-server.cjs as a browser with LNA sees them: a missing
+// Access-Control-Allow-Private-Network header no longer fails anything, while CORS still does
+const SCENARIOS: Record<string, ScenarioModel> = {
+  ok: {},
+  'no-private-network-header': {},
+  'reject-preflight': { preflight: 'reject' },
+  'no-cors': { allowOrigin: 'omit' },
+  slow: { delayMs: 5000 },
+}
+
+function needsPreflight(init: RequestInit) {
+  const contentType = new Headers(init.headers).get('content-type')
+  return (
+    !['GET', 'HEAD', 'POST'].includes(init.method ?? 'GET') ||
+    (!!contentType && !contentType.startsWith('text/plain'))
+  )
+}
+
+function waitOrAbort(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    })
+  })
+}
+
+// Answers like `npm run test-server` would, after the browser's CORS checks
+async function testServer(url: string, init: RequestInit): Promise<Response> {
+  const { pathname, search, searchParams } = new URL(url)
+  const name = pathname.match(/^\/scenario\/([^/]+)/)?.[1] ?? 'ok'
+  const scenario = SCENARIOS[name]
+  if (!scenario) {
+    throw new Error(`Scenario ${name} is not modelled here`)
+  }
+  if (
+    scenario.allowOrigin === 'omit' ||
+    (scenario.preflight === 'reject' && needsPreflight(init))
+  ) {
+    throw new TypeError('Failed to fetch')
+  }
+  if (scenario.delayMs) {
+    await waitOrAbort(scenario.delayMs, init.signal)
+  }
+
+  const status = Number(searchParams.get('status') ?? 200)
+  const body = {
+    message: 'Hello from local network!',
+    path: pathname + search,
+    method: init.method ?? 'GET',
+    body: typeof init.body === 'string' ? init.body : '',
+    serverInfo: { platform: 'linux' },
+  }
+  return mockResponse(
+    JSON.stringify(body),
+    {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Private-Network': 'true',
+      'Private-Network-Access-Name': 'test-server',
+      'Private-Network-Access-ID': '00:11:22:33:44:55',
+    },
+    { status }
+  )
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+describe('SAMPLE_SUITE', () => {
+  const suite = parseSuite(SAMPLE_SUITE)
+  const client = createTestClient({ fetch: mockFetch(testServer) })
+
+  it.each(suite.cases.map((testCase) => [testCase.name, testCase] as const))(
+    '%s',
+    async (_name, testCase) => {
+      const result = await executeCase(suite, testCase, undefined, client)
+
+      expect(result.assertions.filter((a) => !a.passed)).toEqual([])
+      expect(result.status).toBe('passed')
+    }
+  )
+
+  it('includes at least one expected failure', () => {
+    expect(suite.cases.some((c) => c.expect?.outcome && c.expect.outcome !== 'success')).toBe(true)
+  })
+})
+
+describe('parseSuite', () => {
+  const suiteWith = (fields: string) => `cases:\n  - url: http://localhost:8080/\n${fields}`
+
+  it.each([
+    ['a negative timeout', '    timeoutMs: -1'],
+    ['a timeout with a unit', '    timeoutMs: "5s"'],
+    ['a NaN timeout', '    timeoutMs: .nan'],
+    ['a non-integer status', '    expect:\n      status: "200"'],
+    ['a header assertion that is not a map', '    expect:\n      headers: [x-id]'],
+    ['a header assertion set to false', '    expect:\n      headers:\n        x-id: false'],
+    ['an unknown method', '    method: FETCH'],
+  ])('rejects %s', (_name, fields) => {
+    expect(() => parseSuite(suiteWith(fields))).toThrow(SuiteParseError)
+  })
+
+  it('reads unquoted header values as strings', () => {
+    const suite = parseSuite(suiteWith('    expect:\n      headers:\n        content-length: 12'))
+
+    expect(suite.cases[0].expect?.headers).toEqual({ 'content-length': '12' })
+  })
+})
@@ -0,0 +1,424 @@
+import { parse as parseYaml } from 'yaml'
+import type {
+  AssertionResult,
+  FetchErrorCategory,
+  FetchResponse,
+  JsonPathAssertion,
+  LNAClient,
+  RequestOptions,
+  SuiteCase,
+  SuiteCaseResult,
+  TestSuite,
+} from '@/types/lna'
+import { TARGET_ADDRESS_SPACES } from './address-space'
+import { FETCH_ERROR_EXPLANATIONS } from './fetch-errors'
+import { defaultLNAClient, runLocalNetworkRequest } from './lna-permissions'
+import { HTTP_METHODS } from './request-builder'
+
+const STORAGE_KEY = 'lna-explorer:test-suite'
+
+export const SAMPLE_SUITE = `# Runs against \`npm run test-server\`
+name: Test server smoke suite
+baseUrl: http://localhost:8080
+cases:
+  - name: Permissive device answers with LNA headers
+    url: /scenario/ok/status
+    targetAddressSpace: loopback
+    expect:
+      outcome: success
+      status: 200
+      headers:
+        access-control-allow-private-network: "true"
+        private-network-access-id: true
+      json:
+        - path: $.message
+          equals: Hello from local network!
+        - path: $.serverInfo.platform
+          exists: true
+  - name: POST body is echoed back
+    url: /scenario/ok/echo
+    targetAddressSpace: loopback
+    method: POST
+    headers:
+      Content-Type: application/json
+    body: '{"ping":1}'
+    expect:
+      json:
+        - path: $.method
+          equals: POST
+        - path: $.body
+          matches: ping
+  - name: Server error surfaces as an HTTP error
+    url: /scenario/ok/?status=503
+    targetAddressSpace: loopback
+    expect:
+      outcome: http-error
+      status: 503
+  - name: Slow device is cut off by the request timeout
+    url: /scenario/slow/
+    targetAddressSpace: loopback
+    timeoutMs: 1000
+    expect:
+      outcome: timeout
+`
+
+export function loadSuiteText(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? SAMPLE_SUITE
+  } catch (error) {
+    console.log('Failed to load test suite:', error)
+    return SAMPLE_SUITE
+  }
+}
+
+export function saveSuiteText(text: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, text)
+  } catch (error) {
+    console.log('Failed to save test suite:', error)
+  }
+}
+
+export class SuiteParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SuiteParseError'
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value)
+}
+
+function validateCase(raw: unknown, index: number): SuiteCase {
+  const where = `cases[${index}]`
+  if (!isRecord(raw)) {
+    throw new SuiteParseError(`${where} must be an object`)
+  }
+  if (typeof raw.url !== 'string' || !raw.url) {
+    throw new SuiteParseError(`${where}.url is required`)
+  }
+  if (
+    raw.targetAddressSpace !== undefined &&
+    !isOneOf(TARGET_ADDRESS_SPACES, raw.targetAddressSpace)
+  ) {
+    throw new SuiteParseError(
+      `${where}.targetAddressSpace must be one of ${TARGET_ADDRESS_SPACES.join(', ')}`
+    )
+  }
+  if (raw.method !== undefined && !isOneOf(HTTP_METHODS, raw.method)) {
+    throw new SuiteParseError(`${where}.method must be one of ${HTTP_METHODS.join(', ')}`)
+  }
+  if (raw.headers !== undefined && !isRecord(raw.headers)) {
+    throw new SuiteParseError(`${where}.headers must be a map of header names to values`)
+  }
+  // AbortSignal.timeout throws on anything else, and YAML reads .nan or "5s" without complaint
+  if (
+    raw.timeoutMs !== undefined &&
+    !(typeof raw.timeoutMs === 'number' && Number.isFinite(raw.timeoutMs) && raw.timeoutMs > 0)
+  ) {
+    throw new SuiteParseError(`${where}.timeoutMs must be a positive number of milliseconds`)
+  }
+
+  const expect = raw.expect
+  if (expect !== undefined) {
+    if (!isRecord(expect)) {
+      throw new SuiteParseError(`${where}.expect must be an object`)
+    }
+    if (
+      expect.outcome !== undefined &&
+      expect.outcome !== 'success' &&
+      !(String(expect.outcome) in FETCH_ERROR_EXPLANATIONS)
+    ) {
+      throw new SuiteParseError(
+        `${where}.expect.outcome must be success or one of ${Object.keys(FETCH_ERROR_EXPLANATIONS).join(', ')}`
+      )
+    }
+    if (expect.status !== undefined && !Number.isInteger(expect.status)) {
+      throw new SuiteParseError(`${where}.expect.status must be an integer`)
+    }
+    if (
+      expect.headers !== undefined &&
+      !(
+        isRecord(expect.headers) &&
+        Object.values(expect.headers).every(
+          (v) => v === true || typeof v === 'string' || typeof v === 'number'
+        )
+      )
+    ) {
+      throw new SuiteParseError(
+        `${where}.expect.headers must map header names to a value or true for any value`
+      )
+    }
+    if (expect.json !== undefined) {
+      if (!Array.isArray(expect.json)) {
+        throw new SuiteParseError(`${where}.expect.json must be a list of assertions`)
+      }
+      expect.json.forEach((assertion, i) => {
+        if (!isRecord(assertion) || typeof assertion.path !== 'string') {
+          throw new SuiteParseError(`${where}.expect.json[${i}].path is required`)
+        }
+      })
+    }
+  }
+
+  return {
+    ...raw,
+    name: typeof raw.name === 'string' && raw.name ? raw.name : `Case ${index + 1}`,
+    // YAML turns unquoted values such as 1 or true into non-strings
+    headers: raw.headers
+      ? Object.fromEntries(Object.entries(raw.headers).map(([k, v]) => [k, String(v)]))
+      : undefined,
+    body: raw.body === undefined ? undefined : String(raw.body),
+    expect:
+      isRecord(expect) && isRecord(expect.headers)
+        ? {
+            ...expect,
+            headers: Object.fromEntries(
+              Object.entries(expect.headers).map(([k, v]) => [k, v === true ? v : String(v)])
+            ),
+          }
+        : expect,
+  } as SuiteCase
+}
+
+// JSON is valid YAML, so one parser handles both; the JSON path only exists for better errors
+export function parseSuite(text: string): TestSuite {
+  let data: unknown
+  try {
+    data = text.trimStart().startsWith('{') ? JSON.parse(text) : parseYaml(text)
+  } catch (error) {
+    throw new SuiteParseError(
+      `Could not parse suite: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  if (!isRecord(data)) {
+    throw new SuiteParseError('A suite must be an object with a cases list')
+  }
+  if (!Array.isArray(data.cases) || data.cases.length === 0) {
+    throw new SuiteParseError('The suite has no cases')
+  }
+  if (data.baseUrl !== undefined && typeof data.baseUrl !== 'string') {
+    throw new SuiteParseError('baseUrl must be a string')
+  }
+
+  return {
+    name: typeof data.name === 'string' && data.name ? data.name : 'Untitled suite',
+    description: typeof data.description === 'string' ? data.description : undefined,
+    baseUrl: data.baseUrl,
+    cases: data.cases.map(validateCase),
+  }
+}
+
+export function resolveCaseUrl(suite: TestSuite, testCase: SuiteCase): string {
+  try {
+    return new URL(testCase.url, suite.baseUrl).toString()
+  } catch {
+    return testCase.url
+  }
+}
+
+export function caseToRequestOptions(testCase: SuiteCase): RequestOptions {
+  return {
+    method: testCase.method ?? 'GET',
+    headers: testCase.headers,
+    body: testCase.body,
+    timeoutMs: testCase.timeoutMs,
+  }
+}
+
+const PATH_TOKEN = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(['"])(.*?)\3\]/y
+
+export function parseJsonPath(path: string): (string | number)[] {
+  if (!path.startsWith('$')) {
+    throw new SuiteParseError(`JSON path "${path}" must start with $`)
+  }
+  const segments: (string | number)[] = []
+  PATH_TOKEN.lastIndex = 1
+  while (PATH_TOKEN.lastIndex < path.length) {
+    const start = PATH_TOKEN.lastIndex
+    const match = PATH_TOKEN.exec(path)
+    if (!match) {
+      throw new SuiteParseError(`JSON path "${path}" is not supported at "${path.slice(start)}"`)
+    }
+    segments.push(match[1] ?? (match[2] !== undefined ? Number(match[2]) : match[4]))
+  }
+  return segments
+}
+
+export function resolveJsonPath(data: unknown, path: string): { found: boolean; value?: unknown } {
+  let current = data
+  for (const segment of parseJsonPath(path)) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) {
+      return { found: false }
+    }
+    current = (current as Record<string | number, unknown>)[segment]
+  }
+  return { found: true, value: current }
+}
+
+function show(value: unknown): string {
+  if (value === undefined) {
+    return '(missing)'
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function checkJson(data: unknown, assertion: JsonPathAssertion): AssertionResult[] {
+  let resolved: { found: boolean; value?: unknown }
+  try {
+    resolved = resolveJsonPath(data, assertion.path)
+  } catch (error) {
+    return [
+      {
+        label: assertion.path,
+        passed: false,
+        expected: 'a valid JSON path',
+        actual: error instanceof Error ? error.message : String(error),
+      },
+    ]
+  }
+
+  const results: AssertionResult[] = []
+  const actual = resolved.found ? show(resolved.value) : '(missing)'
+
+  if (assertion.exists !== undefined) {
+    results.push({
+      label: `${assertion.path} exists`,
+      passed: resolved.found === assertion.exists,
+      expected: assertion.exists ? 'present' : 'absent',
+      actual: resolved.found ? 'present' : 'absent',
+    })
+  }
+  if (assertion.equals !== undefined) {
+    results.push({
+      label: `${assertion.path} equals`,
+      passed: resolved.found && isDeepEqual(resolved.value, assertion.equals),
+      expected: show(assertion.equals),
+      actual,
+    })
+  }
+  if (assertion.matches !== undefined) {
+    let passed = false
+    try {
+      passed = resolved.found && new RegExp(assertion.matches).test(show(resolved.value))
+    } catch {
+      passed = false
+    }
+    results.push({
+      label: `${assertion.path} matches`,
+      passed,
+      expected: `/${assertion.matches}/`,
+      actual,
+    })
+  }
+  // A bare path is an existence check
+  if (results.length === 0) {
+    results.push({
+      label: `${assertion.path} exists`,
+      passed: resolved.found,
+      expected: 'present',
+      actual: resolved.found ? 'present' : 'absent',
+    })
+  }
+  return results
+}
+
+export function evaluateCase(testCase: SuiteCase, response: FetchResponse): AssertionResult[] {
+  const expect = testCase.expect ?? {}
+  const outcome: 'success' | FetchErrorCategory =
+    response.status === 'success' ? 'success' : (response.error?.category ?? 'unknown')
+  const expectedOutcome = expect.outcome ?? 'success'
+  const results: AssertionResult[] = [
+    {
+      label: 'outcome',
+      passed: outcome === expectedOutcome,
+      expected: expectedOutcome,
+      actual: outcome,
+    },
+  ]
+
+  if (expect.status !== undefined) {
+    const status = response.meta?.status ?? response.error?.status
+    results.push({
+      label: 'status',
+      passed: status === expect.status,
+      expected: String(expect.status),
+      actual: status === undefined ? '(none)' : String(status),
+    })
+  }
+
+  Object.entries(expect.headers ?? {}).forEach(([name, expected]) => {
+    const actual = response.headers?.[name.toLowerCase()]
+    results.push({
+      label: `header ${name}`,
+      passed: expected === true ? actual !== undefined : actual === String(expected),
+      expected: expected === true ? 'present' : String(expected),
+      actual: actual ?? '(missing)',
+    })
+  })
+
+  expect.json?.forEach((assertion) => {
+    results.push(...checkJson(response.data, assertion))
+  })
+
+  return results
+}
+
+// What a case that could not run at all reports, so one broken case does not stop the suite
+export function failedCaseResult(
+  suite: TestSuite,
+  testCase: SuiteCase,
+  error: unknown
+): SuiteCaseResult {
+  return {
+    name: testCase.name,
+    url: resolveCaseUrl(suite, testCase),
+    method: testCase.method ?? 'GET',
+    status: 'failed',
+    assertions: [
+      {
+        label: 'run',
+        passed: false,
+        expected: 'the case to run',
+        actual: error instanceof Error ? error.message : String(error),
+      },
+    ],
+  }
+}
+
+// Sends one case and judges the response; shared by the runner page and the automation API
+export async function executeCase(
+  suite: TestSuite,
+  testCase: SuiteCase,
+  signal?: AbortSignal,
+  client: LNAClient = defaultLNAClient
+): Promise<SuiteCaseResult> {
+  const url = resolveCaseUrl(suite, testCase)
+  const response = await runLocalNetworkRequest(
+    url,
+    testCase.targetAddressSpace ?? 'local',
+    caseToRequestOptions(testCase),
+    signal,
+    client
+  )
+  const assertions = evaluateCase(testCase, response)
+  return {
+    name: testCase.name,
+    url,
+    method: testCase.method ?? 'GET',
+    status: assertions.every((a) => a.passed) ? 'passed' : 'failed',
+    assertions,
+    durationMs: response.timing ? Math.round(response.timing.durationMs) : undefined,
+    response,
+  }
+}
@@ -4,3 +4,9 @@ import { twMerge } from 'tailwind-merge'
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatTime(timestamp: number) {
+  const date = new Date(timestamp)
+  const ms = date.getMilliseconds().toString().padStart(3, '0')
+  return `${date.toLocaleTimeString([], { hour12: false })}.${ms}`
+}
@@ -1,6 +1,11 @@
+import { useMemo } from 'react'
 import { Link } from 'react-router-dom'
+import { BrowserSupportTable } from '@/components/BrowserSupportTable'
+import { getBrowserInfo } from '@/lib/browser-detection'
 
 export default function About() {
+  const browserInfo = useMemo(() => getBrowserInfo(), [])
+
   return (
     <div className="min-h-screen bg-background p-8">
       <div className="max-w-4xl mx-auto">
@@ -13,6 +18,9 @@ export default function About() {
             Home
           </Link>
         </nav>
+        <div className="mt-8">
+          <BrowserSupportTable browserInfo={browserInfo} />
+        </div>
       </div>
     </div>
   )
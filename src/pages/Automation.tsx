@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import type { AutomationResult } from '@/types/lna'
+import { useLNAPermission } from '@/hooks/useLNAPermission'
+import { Card } from '@/components/ui/Card'
+import { AUTOMATION_API_VERSION, createAutomationApi, installAutomationApi } from '@/lib/automation'
+
+const USAGE = `await page.waitForFunction(() => window.__lnaExplorer)
+const result = await page.evaluate(() =>
+  window.__lnaExplorer.sendRequest({
+    url: 'http://localhost:8080/scenario/ok/',
+    targetAddressSpace: 'loopback',
+  })
+)`
+
+export default function Automation() {
+  const { permissionStatus } = useLNAPermission()
+  const [results, setResults] = useState<AutomationResult[]>([])
+  const [api] = useState(() => createAutomationApi(setResults))
+
+  useEffect(() => installAutomationApi(api), [api])
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <header className="mb-8">
+          <h1 className="text-4xl font-bold mb-2">Automation</h1>
+          <p className="text-lg text-gray-600">
+            Drive the explorer from a test harness through <code>window.__lnaExplorer</code>.
+          </p>
+          <nav className="space-x-4 mt-2">
+            <Link to="/" className="text-blue-600 hover:underline">
+              Home
+            </Link>
+          </nav>
+        </header>
+
+        <Card data-testid="automation-api">
+          <h2 className="text-xl font-semibold mb-4">API v{AUTOMATION_API_VERSION}</h2>
+          <p className="text-sm text-gray-600 mb-2">
+            sendRequest, runSuite, getPermissionStatus, getBrowserInfo, getResults and clearResults
+            all resolve to plain JSON, so <code>page.evaluate</code> can return them directly.
+          </p>
+          <pre className="text-xs bg-gray-50 rounded p-3 overflow-x-auto">{USAGE}</pre>
+        </Card>
+
+        <Card data-testid="automation-permission">
+          <h2 className="text-xl font-semibold mb-4">Permission</h2>
+          <pre className="text-xs bg-gray-50 rounded p-3 overflow-x-auto">
+            {permissionStatus
+              ? JSON.stringify(
+                  {
+                    state: permissionStatus.state,
+                    isSecureContext: permissionStatus.isSecureContext,
+                    isSupported: permissionStatus.browserSupport.isSupported,
+                  },
+                  null,
+                  2
+                )
+              : 'Checking...'}
+          </pre>
+        </Card>
+
+        <Card data-testid="automation-results">
+          <h2 className="text-xl font-semibold mb-4">Results ({results.length})</h2>
+          <pre className="text-xs bg-gray-50 rounded p-3 overflow-x-auto max-h-96">
+            {JSON.stringify(
+              results.map(({ id, request, permissionBefore, permissionAfter, response }) => ({
+                id,
+                url: request.url,
+                permissionBefore,
+                permissionAfter,
+                status: response.status,
+                httpStatus: response.meta?.status ?? response.error?.status,
+                error: response.error?.category,
+              })),
+              null,
+              2
+            )}
+          </pre>
+        </Card>
+      </div>
+    </div>
+  )
+}
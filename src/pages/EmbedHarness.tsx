@@ -0,0 +1,374 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { Link } from 'react-router-dom'
+import type {
+  EmbedFrameConfig,
+  EmbedFrameSource,
+  EmbedProbeReport,
+  TargetAddressSpace,
+} from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Input'
+import { Button } from '@/components/ui/Button'
+import { Select } from '@/components/ui/Select'
+import {
+  DEFAULT_EMBED_FRAMES,
+  buildFrameSrc,
+  createFrameId,
+  isEmbedProbeReport,
+} from '@/lib/embed-harness'
+import { DEFAULT_SCENARIO_SERVER } from '@/lib/scenarios'
+import { TARGET_ADDRESS_SPACES } from '@/lib/address-space'
+import { cn } from '@/lib/utils'
+import { Play, Plus, Trash2 } from 'lucide-react'
+
+type HarnessRun = {
+  key: number
+  serverUrl: string
+  target: string
+  targetAddressSpace: TargetAddressSpace
+  frames: EmbedFrameConfig[]
+}
+
+function formatFlag(value: boolean | null) {
+  return value === null ? 'n/a' : String(value)
+}
+
+export default function EmbedHarness() {
+  const [serverUrl, setServerUrl] = useState(DEFAULT_SCENARIO_SERVER)
+  const [target, setTarget] = useState(`${DEFAULT_SCENARIO_SERVER}/scenario/ok`)
+  const [targetAddressSpace, setTargetAddressSpace] = useState<TargetAddressSpace>('loopback')
+  const [frames, setFrames] = useState<EmbedFrameConfig[]>(DEFAULT_EMBED_FRAMES)
+  const [run, setRun] = useState<HarnessRun | null>(null)
+  const [reports, setReports] = useState<Record<string, EmbedProbeReport>>({})
+
+  const runKey = run?.key
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      // A frame from the previous run can still report after Reload Frames cleared the table
+      if (isEmbedProbeReport(event.data) && event.data.runKey === String(runKey)) {
+        const report = event.data
+        setReports((prev) => ({ ...prev, [report.frameId]: report }))
+      }
+    }
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [runKey])
+
+  const updateFrame = (id: string, patch: Partial<EmbedFrameConfig>) => {
+    setFrames((prev) => prev.map((frame) => (frame.id === id ? { ...frame, ...patch } : frame)))
+  }
+
+  const addFrame = () => {
+    setFrames((prev) => [
+      ...prev,
+      {
+        id: createFrameId(),
+        label: 'Custom frame',
+        source: 'test-server',
+        allow: 'local-network-access',
+        sandbox: null,
+        permissionsPolicy: '',
+      },
+    ])
+  }
+
+  const handleRun = (e: FormEvent) => {
+    e.preventDefault()
+    setReports({})
+    setRun({
+      key: (run?.key ?? 0) + 1,
+      serverUrl,
+      target: target.trim(),
+      targetAddressSpace,
+      frames,
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <header className="mb-8">
+          <h1 className="text-4xl font-bold mb-2">Embed Harness</h1>
+          <p className="text-lg text-gray-600">
+            Embed probe pages in iframes with different allow, sandbox and Permissions-Policy
+            settings and compare what each frame is allowed to do.
+          </p>
+          <nav className="space-x-4 mt-2">
+            <Link to="/" className="text-blue-600 hover:underline">
+              Home
+            </Link>
+          </nav>
+        </header>
+
+        <Card data-testid="embed-harness-form">
+          <h2 className="text-xl font-semibold mb-4">Frames</h2>
+          <form onSubmit={handleRun} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <label className="text-sm">
+                <span className="block font-medium mb-2">Test server (frame origin)</span>
+                <Input
+                  value={serverUrl}
+                  onChange={(e) => setServerUrl(e.target.value)}
+                  data-testid="embed-server-input"
+                />
+              </label>
+              <label className="text-sm">
+                <span className="block font-medium mb-2">Target URL (fetched by each frame)</span>
+                <Input
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  data-testid="embed-target-input"
+                />
+              </label>
+              <label className="text-sm">
+                <span className="block font-medium mb-2">Target address space</span>
+                <Select
+                  value={targetAddressSpace}
+                  onChange={(e) => setTargetAddressSpace(e.target.value as TargetAddressSpace)}
+                  data-testid="embed-address-space-select"
+                  className="w-full"
+                >
+                  {TARGET_ADDRESS_SPACES.map((space) => (
+                    <option key={space} value={space}>
+                      {space}
+                    </option>
+                  ))}
+                </Select>
+              </label>
+            </div>
+
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="text-left border-b border-gray-200">
+                  <th className="py-2 pr-2">Label</th>
+                  <th className="py-2 pr-2">Page</th>
+                  <th className="py-2 pr-2">allow</th>
+                  <th className="py-2 pr-2">sandbox</th>
+                  <th className="py-2 pr-2">Permissions-Policy</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {frames.map((frame) => (
+                  <tr
+                    key={frame.id}
+                    className="border-b border-gray-100"
+                    data-testid="embed-frame-config"
+                  >
+                    <td className="py-1 pr-2">
+                      <Input
+                        aria-label="Frame label"
+                        value={frame.label}
+                        onChange={(e) => updateFrame(frame.id, { label: e.target.value })}
+                        className="text-xs"
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <Select
+                        aria-label="Frame page"
+                        value={frame.source}
+                        onChange={(e) =>
+                          updateFrame(frame.id, { source: e.target.value as EmbedFrameSource })
+                        }
+                        className="text-xs"
+                      >
+                        <option value="test-server">Test server</option>
+                        <option value="explorer">Explorer</option>
+                      </Select>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <Input
+                        aria-label="allow attribute"
+                        value={frame.allow}
+                        placeholder="(none)"
+                        onChange={(e) => updateFrame(frame.id, { allow: e.target.value })}
+                        className="text-xs font-mono"
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          aria-label="Sandbox the frame"
+                          checked={frame.sandbox !== null}
+                          onChange={(e) =>
+                            updateFrame(frame.id, {
+                              sandbox: e.target.checked ? 'allow-scripts' : null,
+                            })
+                          }
+                        />
+                        <Input
+                          aria-label="sandbox attribute"
+                          value={frame.sandbox ?? ''}
+                          disabled={frame.sandbox === null}
+                          onChange={(e) => updateFrame(frame.id, { sandbox: e.target.value })}
+                          className="text-xs font-mono"
+                        />
+                      </div>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <Input
+                        aria-label="Permissions-Policy header"
+                        value={frame.permissionsPolicy}
+                        placeholder="(none)"
+                        disabled={frame.source === 'explorer'}
+                        onChange={(e) =>
+                          updateFrame(frame.id, { permissionsPolicy: e.target.value })
+                        }
+                        className="text-xs font-mono"
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        onClick={() => setFrames((prev) => prev.filter((f) => f.id !== frame.id))}
+                        aria-label="Remove frame"
+                        className="p-2 py-2 inline-flex"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <p className="text-xs text-gray-500">
+              Test server frames load {serverUrl.replace(/\/+$/, '')}/__embed, a different origin
+              from this page, and get their Permissions-Policy header from the last column. Explorer
+              frames are same-origin and use the dev server&apos;s headers.
+            </p>
+
+            <div className="flex gap-3">
+              <Button
+                type="submit"
+                disabled={frames.length === 0}
+                data-testid="embed-run-button"
+                className="flex items-center gap-2"
+              >
+                <Play className="w-4 h-4" />
+                {run ? 'Reload Frames' : 'Load Frames'}
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={addFrame}
+                data-testid="embed-add-frame"
+                className="flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Add Frame
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        {run && (
+          <Card data-testid="embed-results">
+            <h2 className="text-xl font-semibold mb-4">Reports</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr className="text-left border-b border-gray-200">
+                    <th className="py-2 pr-4">Frame</th>
+                    <th className="py-2 pr-4">Origin</th>
+                    <th className="py-2 pr-4">Policy allows</th>
+                    <th className="py-2 pr-4">Permission</th>
+                    <th className="py-2 pr-4">Fetch</th>
+                    <th className="py-2">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {run.frames.map((frame) => {
+                    const report = reports[frame.id]
+                    return (
+                      <tr
+                        key={frame.id}
+                        className="border-b border-gray-100 align-top"
+                        data-testid={`embed-report-${frame.id}`}
+                      >
+                        <td className="py-2 pr-4">{frame.label}</td>
+                        {report ? (
+                          <>
+                            <td className="py-2 pr-4 font-mono text-xs">
+                              {report.origin}
+                              {!report.isSecureContext && (
+                                <div className="text-orange-700">insecure context</div>
+                              )}
+                            </td>
+                            <td className="py-2 pr-4 font-mono">
+                              {formatFlag(report.policyAllows)}
+                            </td>
+                            <td className="py-2 pr-4 font-mono">
+                              {report.permission.supported
+                                ? report.permission.state
+                                : 'unsupported'}
+                            </td>
+                            <td
+                              className={cn(
+                                'py-2 pr-4 font-mono',
+                                report.fetch?.status === 'success'
+                                  ? 'text-green-700'
+                                  : 'text-red-600'
+                              )}
+                            >
+                              {report.fetch
+                                ? `${report.fetch.status}${report.fetch.httpStatus ? ` (${report.fetch.httpStatus})` : ''} ${report.fetch.durationMs}ms`
+                                : '—'}
+                            </td>
+                            <td className="py-2 text-xs text-red-600 break-words">
+                              {report.fetch?.category && (
+                                <span className="font-mono">{report.fetch.category} </span>
+                              )}
+                              {report.fetch?.error ?? report.permission.error}
+                            </td>
+                          </>
+                        ) : (
+                          <td colSpan={5} className="py-2 text-gray-500">
+                            Waiting for report...
+                          </td>
+                        )}
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500 mt-3">
+              A frame that never reports either failed to load (is the test server running?) or was
+              blocked from running scripts by its sandbox.
+            </p>
+          </Card>
+        )}
+
+        {run && (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4" data-testid="embed-frames">
+            {run.frames.map((frame) => (
+              <div key={`${run.key}-${frame.id}`}>
+                <div className="text-xs text-gray-600 mb-1 truncate" title={frame.label}>
+                  {frame.label}
+                </div>
+                <iframe
+                  title={frame.label}
+                  src={buildFrameSrc(
+                    frame,
+                    run.serverUrl,
+                    run.target,
+                    run.targetAddressSpace,
+                    run.key
+                  )}
+                  allow={frame.allow || undefined}
+                  sandbox={frame.sandbox ?? undefined}
+                  className="w-full h-48 border border-gray-300 rounded bg-white"
+                  data-testid={`embed-frame-${frame.id}`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
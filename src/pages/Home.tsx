@@ -1,12 +1,209 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import type {
+  FetchResponse,
+  HistoryEntry,
+  MatrixMode,
+  PermissionState,
+  RequestDraft,
+  RequestOptions,
+  RequestPreset,
+  StreamTransport,
+  SubresourceKind,
+  TargetAddressSpace,
+} from '@/types/lna'
 import { useLNAPermission } from '@/hooks/useLNAPermission'
 import { useLNAFetch } from '@/hooks/useLNAFetch'
+import { usePermissionGuide } from '@/hooks/usePermissionGuide'
+import { useRequestHistory } from '@/hooks/useRequestHistory'
+import { useAddressSpaceMatrix } from '@/hooks/useAddressSpaceMatrix'
+import { useDeviceRegistry } from '@/hooks/useDeviceRegistry'
+import { useSchemeComparison } from '@/hooks/useSchemeComparison'
+import { useExchangeLog } from '@/hooks/useExchangeLog'
+import { useStreamConnection } from '@/hooks/useStreamConnection'
+import { useSubresourceProbes } from '@/hooks/useSubresourceProbes'
+import { useContextComparison } from '@/hooks/useContextComparison'
 import { PermissionStatus } from '@/components/PermissionStatus'
+import { PermissionGuide } from '@/components/PermissionGuide'
+import { PermissionExplainerDialog } from '@/components/PermissionExplainerDialog'
 import { RequestForm } from '@/components/RequestForm'
 import { ResponseDisplay } from '@/components/ResponseDisplay'
+import { RequestHistory } from '@/components/RequestHistory'
+import { HistoryDiff } from '@/components/HistoryDiff'
+import { MatrixResults } from '@/components/MatrixResults'
+import { DeviceRegistry } from '@/components/DeviceRegistry'
+import { SessionExport } from '@/components/SessionExport'
+import { SchemeComparison } from '@/components/SchemeComparison'
+import { ContextComparison } from '@/components/ContextComparison'
+import { PreflightInspector } from '@/components/PreflightInspector'
+import { StreamConnectionPanel } from '@/components/StreamConnectionPanel'
+import { hostFromUrl } from '@/lib/device-registry'
+import { classifyAddressSpace } from '@/lib/address-space'
+import {
+  canAutorunWithoutConfirm,
+  draftToSearchParams,
+  searchParamsToDraft,
+} from '@/lib/share-link'
+import { draftToRequestOptions } from '@/lib/request-builder'
+import { SUPPORT_TABLE, shippingBrowsers } from '@/lib/browser-support'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Play } from 'lucide-react'
 
 export default function Home() {
-  const { permissionStatus, isLoading, refresh } = useLNAPermission()
-  const { response, sendRequest, clear } = useLNAFetch()
+  const { permissionStatus, isLoading, refresh, recheck, history } = useLNAPermission()
+  const guide = usePermissionGuide(permissionStatus, recheck)
+  const { response, sendRequest, cancel, clear } = useLNAFetch()
+  const requestHistory = useRequestHistory()
+  const matrix = useAddressSpaceMatrix()
+  const deviceRegistry = useDeviceRegistry()
+  const schemeComparison = useSchemeComparison()
+  const exchangeLog = useExchangeLog()
+  const stream = useStreamConnection()
+  const probes = useSubresourceProbes()
+  const contextComparison = useContextComparison()
+  const [comparing, setComparing] = useState<[HistoryEntry, HistoryEntry] | null>(null)
+  const location = useLocation()
+  const navigate = useNavigate()
+  const preset = location.state as RequestPreset | null
+  // A Scanner preset wins over query params; either way only the first render's value matters
+  const [shared] = useState(() =>
+    preset ? null : searchParamsToDraft(new URLSearchParams(location.search))
+  )
+  // Anything but GET/HEAD waits for the user to confirm instead of running on load
+  const autorunRef = useRef(!!shared?.autorun && canAutorunWithoutConfirm(shared.draft))
+  const [autorunToConfirm, setAutorunToConfirm] = useState(() =>
+    shared?.autorun && !canAutorunWithoutConfirm(shared.draft) ? shared.draft : null
+  )
+
+  const handleSubmit = (
+    url: string,
+    targetAddressSpace: TargetAddressSpace,
+    options: RequestOptions
+  ) => guide.guard(url, () => sendAndRecord(url, targetAddressSpace, options), targetAddressSpace)
+
+  // Every way the form reaches the network goes through the guide, not just Send
+  const handleRunMatrix = (url: string, options: RequestOptions, mode: MatrixMode) =>
+    guide.guard(url, () => matrix.run(url, options, mode))
+
+  const handleCompareSchemes = (
+    url: string,
+    targetAddressSpace: TargetAddressSpace,
+    options: RequestOptions
+  ) =>
+    guide.guard(
+      url,
+      () => schemeComparison.run(url, targetAddressSpace, options),
+      targetAddressSpace
+    )
+
+  const handleCompareContexts = (
+    url: string,
+    targetAddressSpace: TargetAddressSpace,
+    options: RequestOptions
+  ) =>
+    guide.guard(
+      url,
+      () => contextComparison.run(url, targetAddressSpace, options),
+      targetAddressSpace
+    )
+
+  // Sockets cannot trigger the prompt, so the guide sends a GET for them; it goes into history
+  // like any other request
+  const handleConnect = (transport: StreamTransport, url: string, eventNames: string[]) =>
+    guide.guard(
+      url,
+      () => stream.connect(transport, url, eventNames),
+      undefined,
+      (triggerUrl, result) => {
+        const targetAddressSpace = classifyAddressSpace(triggerUrl)?.targetAddressSpace ?? 'local'
+        const startedAt = Date.now() - Math.round(result.timing?.durationMs ?? 0)
+        recordResponse(triggerUrl, targetAddressSpace, {}, result, startedAt, 'prompt')
+      }
+    )
+
+  const handleProbe = (url: string, kinds: SubresourceKind[], timeoutMs?: number) =>
+    guide.guard(url, () => probes.run(url, kinds, timeoutMs))
+
+  const recordResponse = (
+    url: string,
+    targetAddressSpace: TargetAddressSpace,
+    options: RequestOptions,
+    result: FetchResponse,
+    startedAt: number,
+    permissionState: PermissionState | null
+  ) => {
+    requestHistory.addEntry({
+      url,
+      targetAddressSpace,
+      options,
+      response: result,
+      startedAt,
+      durationMs: Math.round(result.timing?.durationMs ?? Date.now() - startedAt),
+      permissionState,
+    })
+
+    const host = hostFromUrl(result.meta?.url || url)
+    if (host && result.headers) {
+      deviceRegistry.observe({
+        host,
+        id: result.headers['private-network-access-id'],
+        name: result.headers['private-network-access-name'],
+      })
+    }
+  }
+
+  const sendAndRecord = async (
+    url: string,
+    targetAddressSpace: TargetAddressSpace,
+    options: RequestOptions
+  ) => {
+    const permissionState = permissionStatus?.state ?? null
+    const startedAt = Date.now()
+    const result = await sendRequest(url, targetAddressSpace, options)
+    recordResponse(url, targetAddressSpace, options, result, startedAt, permissionState)
+    return result
+  }
+
+  // Mirrors the form into the query string so a reload or a copied address bar restores it
+  const handleDraftChange = useCallback(
+    (draft: RequestDraft) => {
+      const search = draftToSearchParams(draft).toString()
+      if (search !== window.location.search.replace(/^\?/, '')) {
+        navigate({ search }, { replace: true })
+      }
+    },
+    [navigate]
+  )
+
+  const submitDraft = (draft: RequestDraft) => {
+    handleSubmit(draft.url, draft.targetAddressSpace, draftToRequestOptions(draft))
+  }
+
+  // ?autorun=1 sends the shared request once the permission has loaded, so the guard and the
+  // history entry see the real state
+  useEffect(() => {
+    if (autorunRef.current && shared && !isLoading) {
+      autorunRef.current = false
+      submitDraft(shared.draft)
+    }
+  })
+
+  const handleConfirmAutorun = () => {
+    if (autorunToConfirm) {
+      submitDraft(autorunToConfirm)
+    }
+    setAutorunToConfirm(null)
+  }
+
+  const handleClear = () => {
+    clear()
+    probes.clear()
+  }
+
+  const handleReplay = (entry: HistoryEntry) => {
+    handleSubmit(entry.url, entry.targetAddressSpace, entry.options)
+  }
 
   return (
     <div className="min-h-screen bg-gray-50 p-8">
@@ -17,24 +214,181 @@ export default function Home() {
             Test Local Network Access (LNA) permissions across different browsers and permission
             states.
           </p>
+          <nav className="space-x-4 mt-2">
+            <Link to="/scanner" className="text-blue-600 hover:underline">
+              Device Scanner
+            </Link>
+            <Link to="/embed-harness" className="text-blue-600 hover:underline">
+              Embed Harness
+            </Link>
+            <Link to="/suites" className="text-blue-600 hover:underline">
+              Test Suites
+            </Link>
+            <Link to="/about" className="text-blue-600 hover:underline">
+              About
+            </Link>
+          </nav>
         </header>
 
-        <PermissionStatus status={permissionStatus} isLoading={isLoading} onRefresh={refresh} />
+        <PermissionStatus
+          status={permissionStatus}
+          isLoading={isLoading}
+          onRefresh={refresh}
+          history={history}
+        />
+
+        <PermissionGuide
+          status={permissionStatus}
+          phase={guide.phase}
+          onRecheck={recheck}
+          onDismiss={guide.reset}
+        />
+
+        <PermissionExplainerDialog
+          open={guide.phase === 'explaining'}
+          onConfirm={guide.confirm}
+          onCancel={guide.cancel}
+        />
+
+        {autorunToConfirm && (
+          <Card data-testid="autorun-confirm">
+            <p className="text-sm text-gray-700 mb-3">
+              This link asks to send a{' '}
+              <span className="font-mono font-semibold">{autorunToConfirm.method}</span> request to{' '}
+              <span className="font-mono break-all">{autorunToConfirm.url}</span>. Requests other
+              than GET and HEAD can change a device, so they only run once you confirm.
+            </p>
+            <div className="flex gap-3">
+              <Button
+                onClick={handleConfirmAutorun}
+                disabled={isLoading}
+                data-testid="autorun-confirm-button"
+                className="flex items-center gap-2 text-sm"
+              >
+                <Play className="w-4 h-4" />
+                Send Request
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => setAutorunToConfirm(null)}
+                data-testid="autorun-dismiss-button"
+                className="text-sm"
+              >
+                Dismiss
+              </Button>
+            </div>
+          </Card>
+        )}
 
         <RequestForm
-          onSubmit={sendRequest}
-          onClear={clear}
+          preset={preset ?? undefined}
+          draft={shared?.draft}
+          onDraftChange={handleDraftChange}
+          onSubmit={handleSubmit}
+          onRunMatrix={handleRunMatrix}
+          onCompareSchemes={handleCompareSchemes}
+          onCompareContexts={handleCompareContexts}
+          onConnect={handleConnect}
+          onProbe={handleProbe}
+          onClear={handleClear}
+          isLoading={
+            response.status === 'loading' ||
+            matrix.isRunning ||
+            schemeComparison.isRunning ||
+            contextComparison.isRunning
+          }
+          hasResponse={response.status !== 'idle' || probes.results.length > 0}
+          onCancel={cancel}
+          canCancel={response.status === 'loading'}
+        />
+
+        <ResponseDisplay response={response} probes={probes.results} />
+
+        <StreamConnectionPanel
+          transport={stream.transport}
+          url={stream.url}
+          state={stream.state}
+          log={stream.log}
+          closeInfo={stream.closeInfo}
+          onSend={stream.send}
+          onClose={stream.close}
+          onReset={stream.reset}
+        />
+
+        <MatrixResults
+          cells={matrix.cells}
+          isRunning={matrix.isRunning}
+          onCancel={matrix.cancel}
+          onClear={matrix.clear}
+        />
+
+        <SchemeComparison
+          rows={schemeComparison.rows}
+          ports={schemeComparison.ports}
+          isRunning={schemeComparison.isRunning}
+          error={schemeComparison.error}
+          onRerun={schemeComparison.rerun}
+          onCancel={schemeComparison.cancel}
+          onClear={schemeComparison.clear}
+        />
+
+        <ContextComparison
+          results={contextComparison.results}
+          isRunning={contextComparison.isRunning}
+          onCancel={contextComparison.cancel}
+          onClear={contextComparison.clear}
+        />
+
+        <PreflightInspector
+          entries={requestHistory.entries}
+          exchanges={exchangeLog.exchanges}
+          connection={exchangeLog.connection}
+          error={exchangeLog.error}
+          onConnect={exchangeLog.connect}
+          onDisconnect={exchangeLog.disconnect}
+          onClear={exchangeLog.clear}
+        />
+
+        <DeviceRegistry
+          devices={deviceRegistry.devices}
+          warnings={deviceRegistry.warnings}
+          onToggleTrusted={deviceRegistry.toggleTrusted}
+          onForget={deviceRegistry.forget}
+          onClearWarnings={deviceRegistry.clearWarnings}
+        />
+
+        <RequestHistory
+          entries={requestHistory.entries}
           isLoading={response.status === 'loading'}
-          hasResponse={response.status !== 'idle'}
+          onReplay={handleReplay}
+          onTogglePin={requestHistory.togglePin}
+          onRename={requestHistory.renameEntry}
+          onRemove={requestHistory.removeEntry}
+          onClear={requestHistory.clearUnpinned}
+          onCompare={(left, right) => setComparing([left, right])}
         />
 
-        <ResponseDisplay response={response} />
+        {comparing && (
+          <HistoryDiff
+            left={comparing[0]}
+            right={comparing[1]}
+            onClose={() => setComparing(null)}
+          />
+        )}
+
+        <SessionExport
+          permission={permissionStatus}
+          permissionHistory={history}
+          entries={requestHistory.entries}
+        />
 
         <footer className="mt-12 pt-6 border-t border-gray-200">
           <h3 className="font-semibold mb-2">Testing Notes:</h3>
           <ul className="text-sm text-gray-600 space-y-1 list-disc list-inside">
             <li>LNA requires HTTPS (secure context) - use localhost or deploy to HTTPS server</li>
-            <li>Chrome 142+ and Edge 143+ support LNA (late 2025)</li>
+            <li>
+              {shippingBrowsers().join(' and ')} support LNA (as of {SUPPORT_TABLE.updated})
+            </li>
             <li>
               Server must respond with CORS header: Access-Control-Allow-Private-Network: true
             </li>
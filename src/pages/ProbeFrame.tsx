@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import type { EmbedProbeReport, TargetAddressSpace } from '@/types/lna'
+import { queryLNAPermission, runLocalNetworkRequest } from '@/lib/lna-permissions'
+import { buildEmbedReport } from '@/lib/embed-harness'
+
+// Minimal page for the embed harness: runs one permission query and one fetch, then reports both
+// to the parent window. Query: frameId, run, target, targetAddressSpace.
+export default function ProbeFrame() {
+  const [searchParams] = useSearchParams()
+  const [report, setReport] = useState<EmbedProbeReport | null>(null)
+
+  const frameId = searchParams.get('frameId') ?? ''
+  const runKey = searchParams.get('run') ?? ''
+  const target = searchParams.get('target')
+  const targetAddressSpace = (searchParams.get('targetAddressSpace') ??
+    'local') as TargetAddressSpace
+
+  useEffect(() => {
+    let cancelled = false
+
+    const probe = async () => {
+      const permission = await queryLNAPermission()
+      const response = target ? await runLocalNetworkRequest(target, targetAddressSpace) : null
+      if (cancelled) {
+        return
+      }
+      const result = buildEmbedReport(frameId, runKey, permission, response)
+      setReport(result)
+      if (window.parent !== window) {
+        window.parent.postMessage(result, '*')
+      }
+    }
+    probe()
+
+    return () => {
+      cancelled = true
+    }
+  }, [frameId, runKey, target, targetAddressSpace])
+
+  return (
+    <pre className="p-2 text-xs font-mono whitespace-pre-wrap" data-testid="probe-frame-report">
+      {report ? JSON.stringify(report, null, 2) : 'Running...'}
+    </pre>
+  )
+}
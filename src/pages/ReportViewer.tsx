@@ -0,0 +1,168 @@
+import { useState, type ChangeEvent } from 'react'
+import { Link } from 'react-router-dom'
+import type { HistoryEntry, SessionReport } from '@/types/lna'
+import { Card } from '@/components/ui/Card'
+import { ResponseDisplay } from '@/components/ResponseDisplay'
+import { PermissionTimeline } from '@/components/PermissionTimeline'
+import { ReportImportError, parseSessionReport } from '@/lib/session-report'
+import { cn, formatTime } from '@/lib/utils'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+
+function RequestRow({ entry, index }: { entry: HistoryEntry; index: number }) {
+  const [isOpen, setIsOpen] = useState(false)
+  const { response } = entry
+
+  return (
+    <li className="border border-gray-200 rounded" data-testid="report-request">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left"
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <span className="text-gray-500 font-mono">{index + 1}.</span>
+        <span className="font-mono text-gray-500">{formatTime(entry.startedAt)}</span>
+        <span className="font-mono">{entry.options.method ?? 'GET'}</span>
+        <span className="font-mono truncate flex-1">{entry.url}</span>
+        <span className="font-mono text-xs bg-gray-100 rounded px-2">
+          {entry.targetAddressSpace}
+        </span>
+        <span
+          className={cn(
+            'font-mono text-xs',
+            response.status === 'success' ? 'text-green-700' : 'text-red-600'
+          )}
+        >
+          {response.error?.category ?? response.meta?.status ?? response.status}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2">
+          <p className="text-xs text-gray-600">
+            Permission when sent: {entry.permissionState ?? 'unknown'}
+            {entry.name && ` • ${entry.name}`}
+          </p>
+          <ResponseDisplay response={response} />
+        </div>
+      )}
+    </li>
+  )
+}
+
+export default function ReportViewer() {
+  const [report, setReport] = useState<SessionReport | null>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) {
+      return
+    }
+    try {
+      setReport(parseSessionReport(await file.text()))
+      setFileName(file.name)
+      setImportError(null)
+    } catch (error) {
+      // A rethrow from an async handler never reaches the error boundary, so report everything here
+      if (error instanceof ReportImportError) {
+        setImportError(error.message)
+        return
+      }
+      console.log('Report import failed:', error)
+      setImportError('Could not read this file. Check that it is a report exported from here.')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <header className="mb-8">
+          <h1 className="text-4xl font-bold mb-2">Saved Report</h1>
+          <p className="text-lg text-gray-600">
+            View a session report exported from the explorer. Nothing here is re-sent.
+          </p>
+          <nav className="space-x-4 mt-2">
+            <Link to="/" className="text-blue-600 hover:underline">
+              Home
+            </Link>
+          </nav>
+        </header>
+
+        <Card data-testid="report-import">
+          <label htmlFor="report-file" className="block text-sm font-medium mb-2">
+            Report file (.json or .har)
+          </label>
+          <input
+            id="report-file"
+            type="file"
+            accept=".json,.har,application/json"
+            onChange={handleFile}
+            data-testid="report-file-input"
+            className="text-sm"
+          />
+          {importError && (
+            <p className="text-sm text-red-600 mt-2" data-testid="report-import-error">
+              {importError}
+            </p>
+          )}
+        </Card>
+
+        {report && (
+          <>
+            <Card data-testid="report-environment">
+              <h2 className="text-xl font-semibold mb-4">Environment</h2>
+              <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+                <dt className="text-gray-600">File</dt>
+                <dd className="font-mono">{fileName}</dd>
+                <dt className="text-gray-600">Generated</dt>
+                <dd className="font-mono">{report.generatedAt}</dd>
+                <dt className="text-gray-600">Browser</dt>
+                <dd>
+                  {report.browser.name} {report.browser.version}
+                  {report.browser.supportReason && (
+                    <span className="text-gray-500"> — {report.browser.supportReason}</span>
+                  )}
+                </dd>
+                <dt className="text-gray-600">User agent</dt>
+                <dd className="font-mono text-xs break-all">{report.userAgent}</dd>
+                <dt className="text-gray-600">Page</dt>
+                <dd className="font-mono text-xs break-all">{report.page.url}</dd>
+                <dt className="text-gray-600">Secure context</dt>
+                <dd>{report.page.isSecureContext ? 'Yes' : 'No'}</dd>
+                <dt className="text-gray-600">Permission</dt>
+                <dd data-testid="report-permission-state">
+                  {report.permission?.state ?? 'unknown'}
+                  {report.permission && !report.permission.browserSupport.isSupported && (
+                    <span className="text-gray-500">
+                      {' '}
+                      ({report.permission.browserSupport.reason ?? 'unsupported'})
+                    </span>
+                  )}
+                </dd>
+              </dl>
+              {report.permissionHistory.length > 0 && (
+                <div className="mt-4">
+                  <PermissionTimeline history={report.permissionHistory} />
+                </div>
+              )}
+            </Card>
+
+            <Card data-testid="report-requests">
+              <h2 className="text-xl font-semibold mb-4">Requests ({report.requests.length})</h2>
+              {report.requests.length > 0 ? (
+                <ul className="space-y-2">
+                  {report.requests.map((entry, index) => (
+                    <RequestRow key={entry.id} entry={entry} index={index} />
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-600">No requests were recorded in this session.</p>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
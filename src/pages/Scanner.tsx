@@ -0,0 +1,288 @@
+import { useState, type FormEvent } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import type { RequestPreset, ScanResult } from '@/types/lna'
+import { useLNAPermission } from '@/hooks/useLNAPermission'
+import { usePermissionGuide } from '@/hooks/usePermissionGuide'
+import { useNetworkScan } from '@/hooks/useNetworkScan'
+import { useDeviceRegistry } from '@/hooks/useDeviceRegistry'
+import { PermissionGuide } from '@/components/PermissionGuide'
+import { PermissionExplainerDialog } from '@/components/PermissionExplainerDialog'
+import { Card } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Input'
+import { Button } from '@/components/ui/Button'
+import { Select } from '@/components/ui/Select'
+import { buildScanTargets, MAX_SCAN_CONCURRENCY, ScanInputError } from '@/lib/network-scan'
+import { ArrowRight, Radar, XCircle } from 'lucide-react'
+
+export default function Scanner() {
+  const navigate = useNavigate()
+  const { permissionStatus, recheck } = useLNAPermission()
+  const guide = usePermissionGuide(permissionStatus, recheck)
+  const { results, progress, isScanning, start, cancel } = useNetworkScan()
+  const { observe } = useDeviceRegistry()
+  const [cidr, setCidr] = useState('192.168.1.0/24')
+  const [ports, setPorts] = useState('80, 8080')
+  const [scheme, setScheme] = useState<'http' | 'https'>('http')
+  const [path, setPath] = useState('/')
+  const [concurrency, setConcurrency] = useState('16')
+  const [timeoutSeconds, setTimeoutSeconds] = useState('2')
+  const [inputError, setInputError] = useState<string | null>(null)
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    try {
+      const targets = buildScanTargets(cidr, ports, scheme, path)
+      const limit = Math.min(MAX_SCAN_CONCURRENCY, Math.max(1, parseInt(concurrency, 10) || 1))
+      setConcurrency(String(limit))
+      setInputError(null)
+      const settings = {
+        concurrency: limit,
+        timeoutMs: Math.max(100, Math.round(parseFloat(timeoutSeconds) * 1000) || 2000),
+      }
+      // The prompt is answered for the first target before the rest of the range goes out
+      guide.guard(
+        targets[0].url,
+        () =>
+          start(targets, settings, (result) =>
+            observe({ host: result.host, id: result.deviceId, name: result.deviceName })
+          ),
+        targets[0].targetAddressSpace
+      )
+    } catch (error) {
+      if (error instanceof ScanInputError) {
+        setInputError(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  const openInRequestForm = (result: ScanResult) => {
+    const preset: RequestPreset = {
+      url: result.url,
+      targetAddressSpace: result.targetAddressSpace,
+    }
+    navigate('/', { state: preset })
+  }
+
+  const percent = progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <header className="mb-8">
+          <h1 className="text-4xl font-bold mb-2">Device Scanner</h1>
+          <p className="text-lg text-gray-600">
+            Probe a local subnet for hosts that answer LNA requests.
+          </p>
+          <nav className="space-x-4 mt-2">
+            <Link to="/" className="text-blue-600 hover:underline">
+              Home
+            </Link>
+          </nav>
+        </header>
+
+        <PermissionGuide
+          status={permissionStatus}
+          phase={guide.phase}
+          onRecheck={recheck}
+          onDismiss={guide.reset}
+        />
+
+        <PermissionExplainerDialog
+          open={guide.phase === 'explaining'}
+          onConfirm={guide.confirm}
+          onCancel={guide.cancel}
+        />
+
+        <Card data-testid="scan-form">
+          <h2 className="text-xl font-semibold mb-4">Scan Range</h2>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="cidr-input" className="block text-sm font-medium mb-2">
+                  CIDR Range
+                </label>
+                <Input
+                  id="cidr-input"
+                  value={cidr}
+                  onChange={(e) => setCidr(e.target.value)}
+                  disabled={isScanning}
+                  placeholder="192.168.1.0/24"
+                  data-testid="cidr-input"
+                />
+              </div>
+              <div>
+                <label htmlFor="ports-input" className="block text-sm font-medium mb-2">
+                  Ports
+                </label>
+                <Input
+                  id="ports-input"
+                  value={ports}
+                  onChange={(e) => setPorts(e.target.value)}
+                  disabled={isScanning}
+                  placeholder="80, 8080, 8000-8010"
+                  data-testid="ports-input"
+                />
+              </div>
+              <div>
+                <label htmlFor="path-input" className="block text-sm font-medium mb-2">
+                  Path
+                </label>
+                <div className="flex gap-2">
+                  <Select
+                    aria-label="Scheme"
+                    value={scheme}
+                    onChange={(e) => setScheme(e.target.value as 'http' | 'https')}
+                    disabled={isScanning}
+                    data-testid="scheme-select"
+                  >
+                    <option value="http">http</option>
+                    <option value="https">https</option>
+                  </Select>
+                  <Input
+                    id="path-input"
+                    value={path}
+                    onChange={(e) => setPath(e.target.value)}
+                    disabled={isScanning}
+                    data-testid="path-input"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label htmlFor="concurrency-input" className="block text-sm font-medium mb-2">
+                    Concurrency
+                  </label>
+                  <Input
+                    id="concurrency-input"
+                    type="number"
+                    min="1"
+                    max={MAX_SCAN_CONCURRENCY}
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(e.target.value)}
+                    disabled={isScanning}
+                    data-testid="concurrency-input"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="scan-timeout-input" className="block text-sm font-medium mb-2">
+                    Timeout (s)
+                  </label>
+                  <Input
+                    id="scan-timeout-input"
+                    type="number"
+                    min="0.1"
+                    step="0.5"
+                    value={timeoutSeconds}
+                    onChange={(e) => setTimeoutSeconds(e.target.value)}
+                    disabled={isScanning}
+                    data-testid="scan-timeout-input"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {inputError && (
+              <p className="text-sm text-red-600" data-testid="scan-input-error">
+                {inputError}
+              </p>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Each probe is a real LNA request, so the permission prompt is settled before the scan
+              starts. Hosts that refuse CORS look the same as hosts that do not answer. Devices that
+              send Private-Network-Access-ID are added to the Known Devices registry.
+            </p>
+
+            <div className="flex gap-3">
+              <Button
+                type="submit"
+                disabled={isScanning}
+                data-testid="start-scan-button"
+                className="flex items-center gap-2"
+              >
+                <Radar className="w-4 h-4" />
+                Start Scan
+              </Button>
+              {isScanning && (
+                <Button
+                  type="button"
+                  variant="danger"
+                  onClick={cancel}
+                  data-testid="cancel-scan-button"
+                  className="flex items-center gap-2"
+                >
+                  <XCircle className="w-4 h-4" />
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </Card>
+
+        {progress && (
+          <Card data-testid="scan-results">
+            <h2 className="text-xl font-semibold mb-4">Responsive Endpoints</h2>
+            <div className="mb-4">
+              <div className="h-2 bg-gray-200 rounded">
+                <div className="h-2 bg-blue-600 rounded" style={{ width: `${percent}%` }} />
+              </div>
+              <p className="text-sm text-gray-600 mt-1" data-testid="scan-progress">
+                {progress.completed} / {progress.total} probed • {progress.responsive} responsive
+              </p>
+            </div>
+
+            {results.length > 0 ? (
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr className="text-left border-b border-gray-200">
+                    <th className="py-2 pr-4">Endpoint</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-4">Latency</th>
+                    <th className="py-2 pr-4">Device</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((result) => (
+                    <tr
+                      key={result.url}
+                      className="border-b border-gray-100"
+                      data-testid="scan-result"
+                    >
+                      <td className="py-2 pr-4 font-mono">
+                        {result.host}:{result.port}
+                      </td>
+                      <td className="py-2 pr-4 font-mono">{result.httpStatus ?? '—'}</td>
+                      <td className="py-2 pr-4 font-mono">{result.durationMs}ms</td>
+                      <td className="py-2 pr-4 font-mono text-xs">
+                        {result.deviceName && <div>{result.deviceName}</div>}
+                        {result.deviceId && <div className="text-gray-500">{result.deviceId}</div>}
+                      </td>
+                      <td className="py-2 text-right">
+                        <Button
+                          variant="secondary"
+                          onClick={() => openInRequestForm(result)}
+                          data-testid="scan-open-request"
+                          className="flex items-center gap-1 text-sm py-1"
+                        >
+                          Open
+                          <ArrowRight className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-600">
+                {isScanning ? 'No responsive endpoints yet...' : 'No responsive endpoints found.'}
+              </p>
+            )}
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
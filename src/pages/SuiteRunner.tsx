@@ -0,0 +1,257 @@
+import { useState, type ChangeEvent } from 'react'
+import { Link } from 'react-router-dom'
+import type { SuiteCaseResult, SuiteCaseStatus, TestSuite } from '@/types/lna'
+import { useLNAPermission } from '@/hooks/useLNAPermission'
+import { usePermissionGuide } from '@/hooks/usePermissionGuide'
+import { useSuiteRunner } from '@/hooks/useSuiteRunner'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Textarea } from '@/components/ui/Textarea'
+import { ResponseDisplay } from '@/components/ResponseDisplay'
+import { PermissionGuide } from '@/components/PermissionGuide'
+import { PermissionExplainerDialog } from '@/components/PermissionExplainerDialog'
+import { isLocalNetworkTarget } from '@/lib/address-space'
+import {
+  SAMPLE_SUITE,
+  SuiteParseError,
+  loadSuiteText,
+  parseSuite,
+  resolveCaseUrl,
+  saveSuiteText,
+} from '@/lib/test-suite'
+import { cn } from '@/lib/utils'
+import { ChevronDown, ChevronRight, ListChecks, XCircle } from 'lucide-react'
+
+const STATUS_STYLES: Record<SuiteCaseStatus, string> = {
+  pending: 'text-gray-500',
+  running: 'text-blue-600',
+  passed: 'text-green-700',
+  failed: 'text-red-600',
+  skipped: 'text-gray-400',
+}
+
+function CaseRow({ result }: { result: SuiteCaseResult }) {
+  const [isOpen, setIsOpen] = useState(false)
+  const canOpen = result.assertions.length > 0
+
+  return (
+    <li
+      className="border border-gray-200 rounded"
+      data-testid="suite-case"
+      data-status={result.status}
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!canOpen}
+        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left"
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <span className={cn('font-mono text-xs uppercase w-16', STATUS_STYLES[result.status])}>
+          {result.status}
+        </span>
+        <span className="flex-1">{result.name}</span>
+        <span className="font-mono text-xs text-gray-500 truncate max-w-xs">
+          {result.method} {result.url}
+        </span>
+        {result.durationMs !== undefined && (
+          <span className="font-mono text-xs text-gray-500">{result.durationMs}ms</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3">
+          <table className="w-full text-xs border-collapse" data-testid="suite-assertions">
+            <thead>
+              <tr className="text-left border-b border-gray-200">
+                <th className="py-1 pr-4">Assertion</th>
+                <th className="py-1 pr-4">Expected</th>
+                <th className="py-1">Actual</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.assertions.map((assertion, index) => (
+                <tr
+                  key={`${assertion.label}-${index}`}
+                  className={cn('border-b border-gray-100', !assertion.passed && 'bg-red-50')}
+                  data-testid="suite-assertion"
+                  data-passed={assertion.passed}
+                >
+                  <td className="py-1 pr-4">
+                    {assertion.passed ? '✓' : '✗'} {assertion.label}
+                  </td>
+                  <td className="py-1 pr-4 font-mono break-all text-green-700">
+                    {assertion.expected}
+                  </td>
+                  <td
+                    className={cn(
+                      'py-1 font-mono break-all',
+                      assertion.passed ? 'text-gray-700' : 'text-red-700'
+                    )}
+                  >
+                    {assertion.actual}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {result.response && <ResponseDisplay response={result.response} />}
+        </div>
+      )}
+    </li>
+  )
+}
+
+export default function SuiteRunner() {
+  const { permissionStatus, recheck } = useLNAPermission()
+  const guide = usePermissionGuide(permissionStatus, recheck)
+  const { results, isRunning, run, cancel } = useSuiteRunner()
+  const [text, setText] = useState(loadSuiteText)
+  const [suite, setSuite] = useState<TestSuite | null>(null)
+  const [parseError, setParseError] = useState<string | null>(null)
+
+  const updateText = (next: string) => {
+    setText(next)
+    saveSuiteText(next)
+  }
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      updateText(await file.text())
+    }
+  }
+
+  const handleRun = () => {
+    try {
+      const parsed = parseSuite(text)
+      setSuite(parsed)
+      setParseError(null)
+      // Cases run in order, so the first local one is the request that meets the prompt
+      const urls = parsed.cases.map((testCase) => resolveCaseUrl(parsed, testCase))
+      guide.guard(urls.find(isLocalNetworkTarget) ?? urls[0], () => run(parsed))
+    } catch (error) {
+      if (error instanceof SuiteParseError) {
+        setParseError(error.message)
+        return
+      }
+      throw error
+    }
+  }
+
+  const passed = results.filter((r) => r.status === 'passed').length
+  const failed = results.filter((r) => r.status === 'failed').length
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <header className="mb-8">
+          <h1 className="text-4xl font-bold mb-2">Test Suites</h1>
+          <p className="text-lg text-gray-600">
+            Run a list of LNA requests with expectations and see which ones regressed.
+          </p>
+          <nav className="space-x-4 mt-2">
+            <Link to="/" className="text-blue-600 hover:underline">
+              Home
+            </Link>
+          </nav>
+        </header>
+
+        <PermissionGuide
+          status={permissionStatus}
+          phase={guide.phase}
+          onRecheck={recheck}
+          onDismiss={guide.reset}
+        />
+
+        <PermissionExplainerDialog
+          open={guide.phase === 'explaining'}
+          onConfirm={guide.confirm}
+          onCancel={guide.cancel}
+        />
+
+        <Card data-testid="suite-editor">
+          <h2 className="text-xl font-semibold mb-4">Suite</h2>
+          <div className="flex items-center gap-3 mb-3">
+            <input
+              type="file"
+              accept=".json,.yaml,.yml,application/json"
+              aria-label="Import suite file"
+              onChange={handleFile}
+              data-testid="suite-file-input"
+              className="text-sm flex-1"
+            />
+            <button
+              type="button"
+              onClick={() => updateText(SAMPLE_SUITE)}
+              className="text-sm text-blue-600 hover:underline"
+              data-testid="suite-load-sample"
+            >
+              Load sample
+            </button>
+          </div>
+          <Textarea
+            aria-label="Suite definition (YAML or JSON)"
+            value={text}
+            onChange={(e) => updateText(e.target.value)}
+            rows={16}
+            spellCheck={false}
+            data-testid="suite-text"
+          />
+          <p className="text-xs text-gray-500 mt-2">
+            Each case takes url, targetAddressSpace, method, headers, body and timeoutMs. Its expect
+            block checks outcome (success or an error category), status, headers (true for present,
+            or an exact value) and json assertions with path plus equals, exists or matches.
+          </p>
+          {parseError && (
+            <p className="text-sm text-red-600 mt-2" data-testid="suite-parse-error">
+              {parseError}
+            </p>
+          )}
+          <div className="flex gap-3 mt-4">
+            <Button
+              onClick={handleRun}
+              disabled={isRunning}
+              data-testid="run-suite-button"
+              className="flex items-center gap-2"
+            >
+              <ListChecks className="w-4 h-4" />
+              Run Suite
+            </Button>
+            {isRunning && (
+              <Button
+                variant="danger"
+                onClick={cancel}
+                data-testid="cancel-suite-button"
+                className="flex items-center gap-2"
+              >
+                <XCircle className="w-4 h-4" />
+                Cancel
+              </Button>
+            )}
+          </div>
+        </Card>
+
+        {results.length > 0 && (
+          <Card data-testid="suite-results">
+            <div className="flex items-baseline justify-between mb-4">
+              <h2 className="text-xl font-semibold">{suite?.name ?? 'Results'}</h2>
+              <p className="text-sm" data-testid="suite-summary">
+                <span className="text-green-700">{passed} passed</span> •{' '}
+                <span className="text-red-600">{failed} failed</span> • {results.length} cases
+              </p>
+            </div>
+            {suite?.description && (
+              <p className="text-sm text-gray-600 mb-3">{suite.description}</p>
+            )}
+            <ul className="space-y-2">
+              {results.map((result, index) => (
+                <CaseRow key={`${result.name}-${index}`} result={result} />
+              ))}
+            </ul>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+import { vi } from 'vitest'
+import type { LNAClientOptions, PermissionState } from '@/types/lna'
+import { createLNAClient } from '@/lib/lna-client'
+
+// Real user agent strings, one per row of the support table plus the edge cases around it
+export const USER_AGENTS = {
+  chrome142:
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/142.0.0.0 Safari/537.36',
+  chrome141:
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36',
+  edge143:
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36 Edg/143.0.0.0',
+  edge142:
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/142.0.0.0 Safari/537.36 Edg/142.0.0.0',
+  firefox: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:145.0) Gecko/20100101 Firefox/145.0',
+  safari:
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/26.0 Safari/605.1.15',
+  chromeIos:
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 18_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/142.0.7444.46 Mobile/15E148 Safari/604.1',
+  androidWebView:
+    'Mozilla/5.0 (Linux; Android 14; Pixel 8; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/142.0.0.0 Mobile Safari/537.36',
+  electron:
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) my-app/1.0.0 Chrome/142.0.0.0 Electron/39.0.0 Safari/537.36',
+  opera:
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/142.0.0.0 Safari/537.36 OPR/126.0.0.0',
+  samsungInternet:
+    'Mozilla/5.0 (Linux; Android 14; SM-S921B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/28.0 Chrome/130.0.0.0 Mobile Safari/537.36',
+  vivaldi:
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/142.0.0.0 Safari/537.36 Vivaldi/7.7.3851.48',
+  curl: 'curl/8.5.0',
+}
+
+export type UserAgentData = {
+  brands: { brand: string; version: string }[]
+  mobile: boolean
+  platform: string
+}
+
+// Brand list as navigator.userAgentData reports it, GREASE entry included
+export function clientHints(brands: Record<string, string>, platform = 'Windows'): UserAgentData {
+  return {
+    brands: [
+      { brand: 'Not_A Brand', version: '99' },
+      ...Object.entries(brands).map(([brand, version]) => ({ brand, version })),
+    ],
+    mobile: false,
+    platform,
+  }
+}
+
+// Stand-in for the PermissionStatus that navigator.permissions.query resolves to
+export class MockPermissionStatus extends EventTarget {
+  readonly name = 'local-network-access'
+  state: PermissionState
+  onchange: ((this: PermissionStatus, ev: Event) => unknown) | null = null
+  // Lets tests wait for a subscription and check it is torn down again
+  changeListeners = 0
+
+  constructor(state: PermissionState) {
+    super()
+    this.state = state
+  }
+
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: AddEventListenerOptions | boolean
+  ) {
+    if (type === 'change') {
+      this.changeListeners++
+    }
+    super.addEventListener(type, listener, options)
+  }
+
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: EventListenerOptions | boolean
+  ) {
+    if (type === 'change') {
+      this.changeListeners--
+    }
+    super.removeEventListener(type, listener, options)
+  }
+
+  // Like the browser, the new state is readable by the time listeners run
+  change(state: PermissionState) {
+    this.state = state
+    this.dispatchEvent(new Event('change'))
+  }
+}
+
+// Resolves with the status, or rejects the way browsers do for an unknown permission name
+export function mockPermissions(status: MockPermissionStatus | Error) {
+  return {
+    query: vi.fn(async () => {
+      if (status instanceof Error) {
+        throw status
+      }
+      return status as unknown as PermissionStatus
+    }),
+  }
+}
+
+type NavigatorStubs = {
+  userAgent?: string
+  userAgentData?: UserAgentData
+  permissions?: ReturnType<typeof mockPermissions>
+}
+
+const stubbedNavigatorKeys = new Set<string>()
+
+// jsdom defines these as prototype getters (or not at all), so the stubs are own properties
+export function stubNavigator(stubs: NavigatorStubs) {
+  for (const [key, value] of Object.entries(stubs)) {
+    Object.defineProperty(navigator, key, { value, configurable: true })
+    stubbedNavigatorKeys.add(key)
+  }
+}
+
+export function restoreNavigator() {
+  for (const key of stubbedNavigatorKeys) {
+    delete (navigator as unknown as Record<string, unknown>)[key]
+  }
+  stubbedNavigatorKeys.clear()
+}
+
+export function mockResponse(
+  body: BodyInit | null,
+  headers: Record<string, string> = {},
+  init: { status?: number; statusText?: string } = {}
+): Response {
+  return new Response(body, { status: 200, statusText: 'OK', ...init, headers })
+}
+
+export function mockFetch(
+  respond: (url: string, init: RequestInit) => Response | Promise<Response>
+) {
+  return vi.fn(async (input: RequestInfo | URL, init: RequestInit = {}) =>
+    respond(String(input), init)
+  )
+}
+
+// Never settles on its own; rejects with the signal's reason like fetch does on abort or timeout
+export function hangUntilAborted(_url: string, init: RequestInit): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(init.signal?.reason), { once: true })
+  })
+}
+
+// A client on a secure HTTPS page; override any global through options
+export function createTestClient(options: LNAClientOptions = {}) {
+  return createLNAClient({
+    isSecureContext: true,
+    pageProtocol: 'https:',
+    permissions: mockPermissions(new MockPermissionStatus('granted')),
+    ...options,
+  })
+}
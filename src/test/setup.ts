@@ -0,0 +1,15 @@
+import '@testing-library/jest-dom/vitest'
+import { cleanup } from '@testing-library/react'
+import { afterEach } from 'vitest'
+import { restoreNavigator } from './mocks'
+
+// jsdom's Performance has no Resource Timing; an empty buffer is what a cross-origin request
+// without Timing-Allow-Origin looks like anyway
+if (typeof performance.getEntriesByName !== 'function') {
+  performance.getEntriesByName = () => []
+}
+
+afterEach(() => {
+  cleanup()
+  restoreNavigator()
+})
@@ -5,6 +5,66 @@ export type BrowserInfo = {
   version: string
   isLikelySupported: boolean
   supportReason?: string
+  // Absent in reports saved before the support table existed
+  engine?: string
+  engineVersion?: string
+  os?: string
+  usedClientHints?: boolean
+  supportEntryId?: string
+  supportTableVersion?: number
+  features?: FeatureSupport[]
+}
+
+export type LNAFeature = 'permission-query' | 'target-address-space' | 'iframe-allow'
+
+// 'expected' marks Chromium derivatives that inherit LNA but have not been verified
+export type FeatureSupportStatus = 'supported' | 'expected' | 'unsupported' | 'unknown'
+
+export type FeatureSupportRule = {
+  status: FeatureSupportStatus
+  // Major version from the entry's versionSource
+  since?: number
+  note?: string
+}
+
+// Every listed criterion must match; names and brands match if either list contains the value
+export type BrowserMatcher = {
+  browsers?: string[]
+  brands?: string[]
+  engines?: string[]
+  os?: string[]
+}
+
+export type BrowserSupportEntry = {
+  id: string
+  label: string
+  match: BrowserMatcher
+  versionSource: 'browser' | 'engine'
+  features: Record<LNAFeature, FeatureSupportRule>
+}
+
+export type BrowserSupportTable = {
+  version: number
+  updated: string
+  features: { feature: LNAFeature; label: string; api: string }[]
+  // First match wins
+  entries: BrowserSupportEntry[]
+}
+
+export type BrowserEnvironment = {
+  name: string
+  version: string
+  engine: string
+  engineVersion: string
+  os: string
+  brands: string[]
+  usedClientHints: boolean
+}
+
+export type FeatureSupport = {
+  feature: LNAFeature
+  status: FeatureSupportStatus
+  detail: string
 }
 
 export type BrowserSupport = {
@@ -14,18 +74,532 @@ export type BrowserSupport = {
 }
 
 export type LNAPermissionStatus = {
-  state: PermissionState
+  // null when the browser cannot report the permission; browserSupport.reason says why
+  state: PermissionState | null
   isSecureContext: boolean
   browserSupport: BrowserSupport
 }
 
+// 'recheck' is the silent query made when the tab becomes visible or focused again
+export type PermissionTransitionSource = 'initial' | 'change' | 'refresh' | 'recheck'
+
+export type PermissionTransition = {
+  from: PermissionState | null
+  to: PermissionState
+  timestamp: number
+  source: PermissionTransitionSource
+}
+
 export type RequestStatus = 'idle' | 'loading' | 'success' | 'error'
 
 export type TargetAddressSpace = 'local' | 'private' | 'public' | 'loopback' | 'unknown' | 'none'
 
+export type FetchErrorCategory =
+  | 'permission-denied'
+  | 'insecure-context'
+  | 'mixed-content'
+  | 'cors-rejected'
+  | 'missing-private-network-header'
+  | 'network-unreachable'
+  | 'timeout'
+  | 'aborted'
+  | 'http-error'
+  | 'unknown'
+
+export type FetchError = {
+  category: FetchErrorCategory
+  message: string
+  name?: string
+  status?: number
+  statusText?: string
+  // 'low' when the category is a best guess from context rather than read off the error itself
+  confidence: 'high' | 'low'
+}
+
+export type RequestTiming = {
+  durationMs: number
+  // false when Resource Timing has no entry or the server did not send Timing-Allow-Origin
+  detailed: boolean
+  queueMs?: number
+  dnsMs?: number
+  connectMs?: number
+  tlsMs?: number
+  ttfbMs?: number
+  downloadMs?: number
+}
+
+export type ResponseMeta = {
+  status: number
+  statusText: string
+  url: string
+  redirected: boolean
+  type: ResponseType
+}
+
+export type ResponseBodyKind = 'json' | 'text' | 'image' | 'binary' | 'empty'
+
+export type ResponseBody = {
+  kind: ResponseBodyKind
+  contentType: string
+  size: number
+  // Raw bytes for image and binary bodies, base64 encoded so history entries stay serializable
+  base64?: string
+  text?: string
+  // Set when the bytes were dropped to keep saved history within the localStorage quota
+  stripped?: boolean
+}
+
 export type FetchResponse = {
   status: RequestStatus
   data?: unknown
-  error?: string
+  error?: FetchError
+  headers?: Record<string, string>
+  timing?: RequestTiming
+  meta?: ResponseMeta
+  body?: ResponseBody
+}
+
+export type LNAResult<T, E> = { ok: true; value: T } | { ok: false; error: E }
+
+export type PermissionQueryError = {
+  kind: 'unsupported'
+  reason: 'no-permissions-api' | 'permission-not-recognized'
+  message: string
+  cause?: unknown
+}
+
+export type LNARequest = {
+  url: string
+  targetAddressSpace: TargetAddressSpace
+  init: RequestInit
+  // Applied when the request is sent, not when it is built
+  timeoutMs?: number
+}
+
+export type LNAResponse = {
+  data: unknown
+  headers: Record<string, string>
+  timing: RequestTiming
+  meta: ResponseMeta
+  body: ResponseBody
+}
+
+// What the device answered with, minus timing; kept on HTTP error failures too
+export type LNAResponseContent = Omit<LNAResponse, 'timing'>
+
+export type LNARequestFailure = {
+  error: FetchError
+  // The original rejection, e.g. an HttpError or the TypeError fetch() threw
+  cause: unknown
+  timing: RequestTiming
+  // Only set for http-error failures, where the response itself arrived
+  response?: LNAResponseContent
+}
+
+export type EnsuredPermission = {
+  state: 'granted'
+  // true when the trigger request had to be sent to get the browser prompt
+  prompted: boolean
+  // The trigger request's outcome; it can fail for reasons unrelated to the permission
+  response?: LNAResult<LNAResponse, LNARequestFailure>
+}
+
+export type EnsurePermissionError =
+  | PermissionQueryError
+  | { kind: 'insecure-context'; message: string }
+  | { kind: 'denied'; message: string; prompted: boolean }
+  | { kind: 'dismissed'; message: string; response: LNAResult<LNAResponse, LNARequestFailure> }
+
+export type LNAClientOptions = {
+  fetch?: typeof fetch
+  // null simulates a browser without the Permissions API
+  permissions?: Pick<Permissions, 'query'> | null
+  isSecureContext?: boolean
+  pageProtocol?: string
+}
+
+export type LNAClient = {
+  context: () => { isSecureContext: boolean; pageProtocol: string }
+  queryPermission: () => Promise<LNAResult<PermissionState, PermissionQueryError>>
+  watchPermission: (onChange: (state: PermissionState) => void) => Promise<() => void>
+  send: (
+    request: LNARequest,
+    signal?: AbortSignal
+  ) => Promise<LNAResult<LNAResponse, LNARequestFailure>>
+  ensurePermission: (
+    trigger: LNARequest,
+    signal?: AbortSignal
+  ) => Promise<LNAResult<EnsuredPermission, EnsurePermissionError>>
+}
+
+// What the permission state says about the prompt a request just triggered
+export type PromptOutcome = 'granted' | 'dismissed' | 'blocked'
+
+export type PermissionGuidePhase = 'idle' | 'explaining' | 'prompting' | PromptOutcome
+
+export type ResetInstructions = {
+  browser: string
+  steps: string[]
+  // Internal settings pages cannot be linked to, so this is shown for copying
+  settingsUrl?: string
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'
+
+export type BodyMode = 'none' | 'raw' | 'json' | 'form'
+
+export type KeyValueRow = {
+  key: string
+  value: string
+  enabled: boolean
+}
+
+export type RequestOptions = {
+  method?: HttpMethod
   headers?: Record<string, string>
+  body?: string
+  timeoutMs?: number
+}
+
+export type HistoryEntry = {
+  id: string
+  name?: string
+  pinned: boolean
+  url: string
+  targetAddressSpace: TargetAddressSpace
+  options: RequestOptions
+  response: FetchResponse
+  startedAt: number
+  durationMs: number
+  permissionState: PermissionState | null
+}
+
+export type MatrixMode = 'sequential' | 'parallel'
+
+export type ProbeOutcome = {
+  status: RequestStatus
+  durationMs?: number
+  httpStatus?: number
+  error?: FetchError
+  headers?: Record<string, string>
+}
+
+export type MatrixCell = ProbeOutcome & {
+  targetAddressSpace: TargetAddressSpace
+}
+
+export type UrlScheme = 'http' | 'https'
+
+export type SchemePorts = Record<UrlScheme, number>
+
+export type SchemeComparisonRow = ProbeOutcome & {
+  scheme: UrlScheme
+  url: string
+}
+
+export type AddressClassification = {
+  host: string
+  targetAddressSpace: TargetAddressSpace
+  reason: string
+}
+
+export type RequestPreset = {
+  url: string
+  targetAddressSpace?: TargetAddressSpace
+  options?: RequestOptions
+}
+
+export type RequestDraft = {
+  url: string
+  targetAddressSpace: TargetAddressSpace
+  method: HttpMethod
+  headerRows: KeyValueRow[]
+  bodyMode: BodyMode
+  bodyText: string
+  formRows: KeyValueRow[]
+  timeoutSeconds: string
+}
+
+export type ScanTarget = {
+  host: string
+  port: number
+  url: string
+  targetAddressSpace: TargetAddressSpace
+}
+
+export type ScanResult = ScanTarget & {
+  httpStatus?: number
+  durationMs: number
+  deviceName?: string
+  deviceId?: string
+}
+
+export type ScanSettings = {
+  concurrency: number
+  timeoutMs: number
+}
+
+export type ScanProgress = {
+  total: number
+  completed: number
+  responsive: number
+}
+
+export type DeviceRecord = {
+  id: string
+  name: string
+  hosts: string[]
+  lastHost: string
+  firstSeen: number
+  lastSeen: number
+  trusted: boolean
+}
+
+export type DeviceWarningKind = 'invalid-id' | 'invalid-name' | 'new-host' | 'name-changed'
+
+export type DeviceWarning = {
+  kind: DeviceWarningKind
+  deviceId: string
+  message: string
+  timestamp: number
+}
+
+export type DeviceObservation = {
+  host: string
+  id?: string
+  name?: string
+}
+
+export type ServerScenario = {
+  name: string
+  description?: string
+  status: number
+  delayMs: number
+  allowOrigin: string
+  allowPrivateNetwork: 'true' | 'false' | 'omit'
+  preflight: 'allow' | 'reject'
+  deviceHeaders: 'send' | 'omit'
+  contentType: string
+  redirect: string
+  stream: boolean
+}
+
+export type ScenarioOverrides = Partial<Omit<ServerScenario, 'name' | 'description'>>
+
+export type ServerExchange = {
+  id: number
+  timestamp: number
+  durationMs: number
+  scheme: UrlScheme
+  host: string
+  method: string
+  url: string
+  origin?: string
+  preflight: boolean
+  requestPrivateNetwork?: string
+  requestMethod?: string
+  requestHeaders: Record<string, string>
+  status: number
+  responseHeaders: Record<string, string>
+}
+
+export type ExchangeMatch = {
+  preflight?: ServerExchange
+  request?: ServerExchange
+}
+
+export type ExchangeLogConnection = 'disconnected' | 'connecting' | 'connected' | 'error'
+
+export type StreamTransport = 'websocket' | 'eventsource'
+
+export type RequestTransport = 'http' | StreamTransport
+
+export type StreamState = 'idle' | 'connecting' | 'open' | 'closed' | 'error'
+
+export type StreamLogKind = 'open' | 'sent' | 'received' | 'error' | 'close' | 'info'
+
+export type StreamLogEntry = {
+  id: number
+  timestamp: number
+  kind: StreamLogKind
+  text: string
+  eventName?: string
+}
+
+export type StreamClose = {
+  code: number
+  reason: string
+  wasClean: boolean
+}
+
+export type SubresourceKind = 'img' | 'iframe' | 'script' | 'stylesheet' | 'form' | 'popup'
+
+// 'opened' is for navigations whose result the page cannot observe (cross-origin popups)
+export type SubresourceOutcome = 'load' | 'error' | 'timeout' | 'blocked' | 'opened'
+
+export type SubresourceProbeResult = {
+  kind: SubresourceKind
+  status: RequestStatus
+  outcome?: SubresourceOutcome
+  durationMs?: number
+  detail?: string
+}
+
+export type ExecutionContextKind = 'main' | 'dedicated-worker' | 'shared-worker' | 'service-worker'
+
+export type ContextProbeRequest = {
+  id: string
+  url: string
+  targetAddressSpace: TargetAddressSpace
+  options: RequestOptions
+}
+
+// Streamed back from a worker: the permission state as soon as it is known, then the response
+export type ContextProbeMessage =
+  | { id: string; type: 'permission'; permission: LNAPermissionStatus }
+  | { id: string; type: 'response'; response: FetchResponse }
+
+export type ContextProbeResult = {
+  context: ExecutionContextKind
+  status: RequestStatus
+  permission?: LNAPermissionStatus
+  response?: FetchResponse
+  unavailable?: string
+}
+
+export type EmbedFrameSource = 'test-server' | 'explorer'
+
+export type EmbedFrameConfig = {
+  id: string
+  label: string
+  source: EmbedFrameSource
+  allow: string
+  // null leaves the sandbox attribute off entirely; '' applies every restriction
+  sandbox: string | null
+  permissionsPolicy: string
+}
+
+// Posted by each embedded probe page to its parent window
+export type EmbedProbeReport = {
+  source: 'lna-embed-probe'
+  frameId: string
+  // Echoes the harness run that loaded the frame, so late reports from a reload can be ignored
+  runKey: string
+  origin: string
+  isSecureContext: boolean
+  policyAllows: boolean | null
+  permission: { state: PermissionState | null; supported: boolean; error?: string }
+  fetch: {
+    status: 'success' | 'error'
+    httpStatus?: number
+    durationMs: number
+    error?: string
+    category?: FetchErrorCategory
+  } | null
+}
+
+export type ReportFormat = 'json' | 'markdown' | 'har'
+
+export type SessionReport = {
+  version: 1
+  generatedAt: string
+  page: { url: string; isSecureContext: boolean }
+  userAgent: string
+  browser: BrowserInfo
+  permission: LNAPermissionStatus | null
+  permissionHistory: PermissionTransition[]
+  // Oldest first
+  requests: HistoryEntry[]
+}
+
+export type JsonPathAssertion = {
+  // Dot/bracket subset of JSONPath: $.items[0].name, $['content-type']
+  path: string
+  equals?: unknown
+  exists?: boolean
+  // Regular expression tested against the value, stringified if it is not a string
+  matches?: string
+}
+
+export type SuiteExpectation = {
+  // 'success' or the error category the request must fail with; defaults to 'success'
+  outcome?: 'success' | FetchErrorCategory
+  status?: number
+  // true only requires the header to be present; a string must match the value exactly
+  headers?: Record<string, string | true>
+  json?: JsonPathAssertion[]
+}
+
+export type SuiteCase = {
+  name: string
+  // Resolved against the suite's baseUrl when relative
+  url: string
+  targetAddressSpace?: TargetAddressSpace
+  method?: HttpMethod
+  headers?: Record<string, string>
+  body?: string
+  timeoutMs?: number
+  expect?: SuiteExpectation
+}
+
+export type TestSuite = {
+  name: string
+  description?: string
+  baseUrl?: string
+  cases: SuiteCase[]
+}
+
+export type AssertionResult = {
+  label: string
+  passed: boolean
+  expected: string
+  actual: string
+}
+
+export type SuiteCaseStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped'
+
+export type SuiteCaseResult = {
+  name: string
+  url: string
+  method: HttpMethod
+  status: SuiteCaseStatus
+  assertions: AssertionResult[]
+  durationMs?: number
+  response?: FetchResponse
+}
+
+export type AutomationRequest = {
+  url: string
+  targetAddressSpace?: TargetAddressSpace
+  method?: HttpMethod
+  headers?: Record<string, string>
+  body?: string
+  timeoutMs?: number
+}
+
+export type AutomationResult = {
+  id: number
+  request: AutomationRequest
+  permissionBefore: PermissionState | null
+  permissionAfter: PermissionState | null
+  startedAt: number
+  response: FetchResponse
+}
+
+// runSuite's answer for suite text that does not parse, instead of a rejected page.evaluate
+export type AutomationSuiteError = { kind: 'invalid-suite'; message: string }
+
+// Exposed as window.__lnaExplorer on the /automation route; every value is JSON-serializable so
+// Playwright's page.evaluate can return it as is
+export type LNAExplorerAutomation = {
+  version: number
+  getPermissionStatus: () => Promise<LNAPermissionStatus>
+  getBrowserInfo: () => BrowserInfo
+  sendRequest: (request: AutomationRequest) => Promise<AutomationResult>
+  // Accepts a parsed suite or its YAML/JSON text
+  runSuite: (
+    suite: TestSuite | string
+  ) => Promise<LNAResult<SuiteCaseResult[], AutomationSuiteError>>
+  getResults: () => AutomationResult[]
+  clearResults: () => void
 }
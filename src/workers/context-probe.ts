@@ -0,0 +1,19 @@
+import type { ContextProbeMessage, ContextProbeRequest } from '@/types/lna'
+import { queryLNAPermission, runLocalNetworkRequest } from '@/lib/lna-permissions'
+
+// Shared body of every worker entry point: runs the same permission query and request as the
+// main thread and posts each result as soon as it is available
+export async function runContextProbe(
+  request: ContextProbeRequest,
+  post: (message: ContextProbeMessage) => void
+) {
+  const permission = await queryLNAPermission()
+  post({ id: request.id, type: 'permission', permission })
+
+  const response = await runLocalNetworkRequest(
+    request.url,
+    request.targetAddressSpace,
+    request.options
+  )
+  post({ id: request.id, type: 'response', response })
+}
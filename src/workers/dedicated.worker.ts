@@ -0,0 +1,6 @@
+import type { ContextProbeRequest } from '@/types/lna'
+import { runContextProbe } from './context-probe'
+
+self.addEventListener('message', (event: MessageEvent<ContextProbeRequest>) => {
+  runContextProbe(event.data, (message) => self.postMessage(message))
+})
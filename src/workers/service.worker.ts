@@ -0,0 +1,25 @@
+import type { ContextProbeRequest } from '@/types/lna'
+import { runContextProbe } from './context-probe'
+
+// The app is type-checked against the DOM lib, which has no ServiceWorkerGlobalScope
+type ExtendableMessageEvent = MessageEvent<ContextProbeRequest> & {
+  waitUntil: (promise: Promise<unknown>) => void
+}
+const scope = self as unknown as {
+  skipWaiting: () => Promise<void>
+  addEventListener: (type: string, listener: (event: ExtendableMessageEvent) => void) => void
+}
+
+// Activate immediately so a fresh registration can answer the first probe
+scope.addEventListener('install', () => {
+  scope.skipWaiting()
+})
+
+// Replies go to the MessagePort sent with the request; the page is never a controlled client.
+// waitUntil keeps the worker alive until the request settles.
+scope.addEventListener('message', (event) => {
+  const port = event.ports[0]
+  if (port) {
+    event.waitUntil(runContextProbe(event.data, (message) => port.postMessage(message)))
+  }
+})
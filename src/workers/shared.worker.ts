@@ -0,0 +1,13 @@
+import type { ContextProbeRequest } from '@/types/lna'
+import { runContextProbe } from './context-probe'
+
+// The app is type-checked against the DOM lib, which has no SharedWorkerGlobalScope
+const scope = self as unknown as { onconnect: ((event: MessageEvent) => void) | null }
+
+scope.onconnect = (event) => {
+  const port = event.ports[0]
+  port.addEventListener('message', (message: MessageEvent<ContextProbeRequest>) => {
+    runContextProbe(message.data, (reply) => port.postMessage(reply))
+  })
+  port.start()
+}
@@ -1,66 +1,846 @@
 const http = require('http')
+const https = require('https')
+const fs = require('fs')
+const os = require('os')
+const path = require('path')
+const crypto = require('crypto')
+const { execFileSync } = require('child_process')
+
+function argValue(name) {
+  const index = process.argv.indexOf(name)
+  return index !== -1 ? process.argv[index + 1] : undefined
+}
 
-const PORT = 8080
 const HOST = '0.0.0.0'
+const HTTP_PORT = Number(argValue('--http-port') || process.env.HTTP_PORT || 8080)
+const HTTPS_ENABLED =
+  process.argv.includes('--https') || !!argValue('--https-port') || !!process.env.HTTPS_PORT
+const HTTPS_PORT = Number(argValue('--https-port') || process.env.HTTPS_PORT || 8443)
+// Permissions-Policy sent with /__embed unless the request overrides it with ?policy=
+const EMBED_PERMISSIONS_POLICY =
+  argValue('--permissions-policy') || process.env.PERMISSIONS_POLICY || ''
+const CERT_DIR = path.resolve(argValue('--cert-dir') || path.join(__dirname, '.certs'))
 
-const server = http.createServer((req, res) => {
-  console.log(`${new Date().toISOString()} - ${req.method} ${req.url}`)
+const DEVICE_NAME = 'test-server'
+const DEVICE_ID = '00:11:22:33:44:55'
 
-  if (req.method === 'OPTIONS') {
-    res.setHeader('Access-Control-Allow-Origin', '*')
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS')
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
-    res.setHeader('Access-Control-Allow-Private-Network', 'true')
-    res.setHeader('Private-Network-Access-Name', 'test-server')
-    res.setHeader('Private-Network-Access-ID', '00:11:22:33:44:55')
-    res.writeHead(204)
+// 1x1 transparent PNG, used by the image content-type scenario
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+)
+
+// Every field can also be overridden per request with a query parameter of the same name,
+// e.g. /scenario/ok?status=503&delayMs=2000
+const DEFAULT_BEHAVIOR = {
+  status: 200,
+  delayMs: 0,
+  allowOrigin: '*', // '*', 'reflect', 'omit' or a literal origin
+  allowPrivateNetwork: 'true', // 'true', 'false' or 'omit'
+  preflight: 'allow', // 'allow' or 'reject'
+  deviceHeaders: 'send', // 'send' or 'omit'
+  contentType: 'application/json',
+  redirect: '',
+  stream: false,
+}
+
+const BUILTIN_SCENARIOS = [
+  { name: 'ok', description: 'Permissive LNA and CORS headers, JSON echo' },
+  {
+    name: 'no-private-network-header',
+    description: 'Omits Access-Control-Allow-Private-Network',
+    allowPrivateNetwork: 'omit',
+  },
+  {
+    name: 'private-network-false',
+    description: 'Sends Access-Control-Allow-Private-Network: false',
+    allowPrivateNetwork: 'false',
+  },
+  {
+    name: 'reject-preflight',
+    description: 'Answers OPTIONS preflights with 403 and no CORS headers',
+    preflight: 'reject',
+  },
+  { name: 'no-cors', description: 'Omits Access-Control-Allow-Origin', allowOrigin: 'omit' },
+  {
+    name: 'wrong-origin',
+    description: 'Allows only https://example.com',
+    allowOrigin: 'https://example.com',
+  },
+  {
+    name: 'reflect-origin',
+    description: 'Echoes the request Origin in Access-Control-Allow-Origin',
+    allowOrigin: 'reflect',
+  },
+  {
+    name: 'no-device-headers',
+    description: 'Omits Private-Network-Access-Name/ID',
+    deviceHeaders: 'omit',
+  },
+  { name: 'slow', description: 'Responds after 5 seconds', delayMs: 5000 },
+  { name: 'redirect', description: '302 redirect to /scenario/ok', redirect: '/scenario/ok' },
+  { name: 'stream', description: 'Streams 5 chunks, one per second', stream: true },
+  { name: 'text', description: 'Plain text body', contentType: 'text/plain' },
+  { name: 'html', description: 'HTML body', contentType: 'text/html' },
+  { name: 'image', description: '1x1 PNG image', contentType: 'image/png' },
+  { name: 'binary', description: '256 random bytes', contentType: 'application/octet-stream' },
+  { name: 'not-found', description: 'Returns 404', status: 404 },
+  { name: 'server-error', description: 'Returns 500', status: 500 },
+]
+
+// `node test-server.cjs --config my-scenarios.json` (or LNA_SCENARIOS=<path>) adds or replaces
+// scenarios by name; see test-server.scenarios.example.json
+function loadScenarios() {
+  const scenarios = new Map(BUILTIN_SCENARIOS.map((s) => [s.name, s]))
+  const configPath = argValue('--config') || process.env.LNA_SCENARIOS
+
+  if (configPath) {
+    const resolved = path.resolve(configPath)
+    const custom = JSON.parse(fs.readFileSync(resolved, 'utf8'))
+    if (!Array.isArray(custom)) {
+      throw new Error(`${resolved} must contain an array of scenarios`)
+    }
+    custom.forEach((s) => scenarios.set(s.name, s))
+    console.log(`Loaded ${custom.length} scenario(s) from ${resolved}`)
+  }
+
+  return scenarios
+}
+
+const scenarios = loadScenarios()
+
+// Thrown for a ?<field>= override the server cannot send, and answered with 400
+class OverrideError extends Error {}
+
+// What http.ServerResponse#setHeader accepts; anything else throws ERR_INVALID_CHAR
+const VALID_HEADER_VALUE = /^[\t\x20-\x7e\x80-\xff]*$/
+
+function parseOverride(key, value) {
+  const fallback = DEFAULT_BEHAVIOR[key]
+  if (key === 'status') {
+    const status = Number(value)
+    if (!Number.isInteger(status) || status < 200 || status > 599) {
+      throw new OverrideError('status must be an integer between 200 and 599')
+    }
+    return status
+  }
+  if (typeof fallback === 'number') {
+    const number = Number(value)
+    return Number.isFinite(number) ? number : fallback
+  }
+  if (typeof fallback === 'boolean') {
+    return value === '' || value === 'true' || value === '1'
+  }
+  // Every string field ends up in a response header
+  if (!VALID_HEADER_VALUE.test(value)) {
+    throw new OverrideError(`${key} must not contain line breaks or control characters`)
+  }
+  return value
+}
+
+function resolveBehavior(url) {
+  const match = url.pathname.match(/^\/scenario\/([^/]+)/)
+  const scenario = (match && scenarios.get(match[1])) || scenarios.get('ok')
+  const behavior = { ...DEFAULT_BEHAVIOR, ...scenario }
+
+  Object.keys(DEFAULT_BEHAVIOR).forEach((key) => {
+    if (url.searchParams.has(key)) {
+      behavior[key] = parseOverride(key, url.searchParams.get(key))
+    }
+  })
+  return behavior
+}
+
+// Keeps one bad request from taking the whole server down
+function safely(res, handle) {
+  try {
+    handle()
+  } catch (err) {
+    console.log('Request failed:', err)
+    if (res.headersSent) {
+      res.destroy()
+      return
+    }
+    res.writeHead(500, { 'Content-Type': 'text/plain' })
+    res.end(`${err.message}\n`)
+  }
+}
+
+function setCorsHeaders(req, res, behavior) {
+  if (behavior.allowOrigin === 'reflect') {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*')
+    res.setHeader('Vary', 'Origin')
+  } else if (behavior.allowOrigin !== 'omit') {
+    res.setHeader('Access-Control-Allow-Origin', behavior.allowOrigin)
+  }
+  if (behavior.allowPrivateNetwork !== 'omit') {
+    res.setHeader('Access-Control-Allow-Private-Network', behavior.allowPrivateNetwork)
+  }
+  if (behavior.deviceHeaders !== 'omit') {
+    res.setHeader('Private-Network-Access-Name', DEVICE_NAME)
+    res.setHeader('Private-Network-Access-ID', DEVICE_ID)
+  }
+}
+
+function buildBody(req, behavior, requestBody) {
+  const contentType = behavior.contentType
+  if (contentType.startsWith('image/')) {
+    return PIXEL_PNG
+  }
+  if (contentType === 'application/octet-stream') {
+    return crypto.randomBytes(256)
+  }
+  if (contentType === 'text/html') {
+    return `<!doctype html><title>${DEVICE_NAME}</title><h1>Hello from local network!</h1><p>${req.method} ${req.url}</p>`
+  }
+  if (!contentType.includes('json')) {
+    return `Hello from local network!\n${req.method} ${req.url}\n`
+  }
+
+  return JSON.stringify(
+    {
+      message: 'Hello from local network!',
+      timestamp: new Date().toISOString(),
+      path: req.url,
+      method: req.method,
+      headers: req.headers,
+      body: requestBody,
+      serverInfo: {
+        hostname: os.hostname(),
+        platform: os.platform(),
+        nodeVersion: process.version,
+      },
+    },
+    null,
+    2
+  )
+}
+
+function streamBody(res, chunks = 5) {
+  let sent = 0
+  const timer = setInterval(() => {
+    sent++
+    res.write(`chunk ${sent}/${chunks} at ${new Date().toISOString()}\n`)
+    if (sent === chunks) {
+      clearInterval(timer)
+      res.end()
+    }
+  }, 1000)
+  res.on('close', () => clearInterval(timer))
+}
+
+function handlePreflight(req, res, behavior) {
+  if (behavior.preflight === 'reject') {
+    res.writeHead(403)
+    res.end()
+    return
+  }
+  setCorsHeaders(req, res, behavior)
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS')
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    req.headers['access-control-request-headers'] || 'Content-Type'
+  )
+  res.writeHead(204)
+  res.end()
+}
+
+function handleRequest(req, res, behavior, requestBody) {
+  setCorsHeaders(req, res, behavior)
+  res.setHeader('Timing-Allow-Origin', '*')
+  res.setHeader(
+    'Access-Control-Expose-Headers',
+    'Access-Control-Allow-Private-Network, Private-Network-Access-Name, Private-Network-Access-ID'
+  )
+
+  if (behavior.redirect) {
+    res.setHeader('Location', behavior.redirect)
+    res.writeHead(302)
     res.end()
     return
   }
 
+  if (behavior.stream) {
+    res.setHeader('Content-Type', 'text/plain')
+    res.writeHead(behavior.status)
+    streamBody(res)
+    return
+  }
+
+  res.setHeader('Content-Type', behavior.contentType)
+  res.writeHead(behavior.status)
+  res.end(buildBody(req, behavior, requestBody))
+}
+
+// Headers for the server's own /__ endpoints, which always allow the explorer to read them
+function setInternalHeaders(res, contentType) {
   res.setHeader('Access-Control-Allow-Origin', '*')
   res.setHeader('Access-Control-Allow-Private-Network', 'true')
-  res.setHeader('Private-Network-Access-Name', 'test-server')
-  res.setHeader('Private-Network-Access-ID', '00:11:22:33:44:55')
-  res.setHeader('Content-Type', 'application/json')
-
-  const responseData = {
-    message: 'Hello from local network!',
-    timestamp: new Date().toISOString(),
-    path: req.url,
+  res.setHeader('Content-Type', contentType)
+}
+
+function listScenarios(req, res) {
+  setInternalHeaders(res, 'application/json')
+  res.writeHead(200)
+  res.end(
+    JSON.stringify(
+      {
+        defaults: DEFAULT_BEHAVIOR,
+        scenarios: [...scenarios.values()].map((s) => ({ ...DEFAULT_BEHAVIOR, ...s })),
+      },
+      null,
+      2
+    )
+  )
+}
+
+// Every request and preflight the server answered, newest last. The browser hides preflights
+// from page JavaScript, so this is the only way for the explorer to see them.
+const MAX_EXCHANGES = 500
+const exchanges = []
+const exchangeSubscribers = new Set()
+let nextExchangeId = 1
+
+function pushExchange(exchange) {
+  exchanges.push(exchange)
+  if (exchanges.length > MAX_EXCHANGES) {
+    exchanges.shift()
+  }
+  const message = `event: exchange\ndata: ${JSON.stringify(exchange)}\n\n`
+  exchangeSubscribers.forEach((subscriber) => subscriber.write(message))
+}
+
+function describeExchange(req, scheme, startedAt, status, responseHeaders) {
+  return {
+    id: nextExchangeId++,
+    timestamp: startedAt,
+    durationMs: Date.now() - startedAt,
+    scheme,
+    host: req.headers.host || '',
     method: req.method,
-    headers: req.headers,
-    serverInfo: {
-      hostname: require('os').hostname(),
-      platform: require('os').platform(),
-      nodeVersion: process.version,
-    },
+    url: req.url,
+    origin: req.headers.origin,
+    preflight: req.method === 'OPTIONS' && !!req.headers['access-control-request-method'],
+    requestPrivateNetwork: req.headers['access-control-request-private-network'],
+    requestMethod: req.headers['access-control-request-method'],
+    requestHeaders: req.headers,
+    status,
+    responseHeaders: Object.fromEntries(
+      Object.entries(responseHeaders).map(([key, value]) => [
+        key.toLowerCase(),
+        [value].flat().join(', '),
+      ])
+    ),
+  }
+}
+
+function recordExchange(req, res, scheme, startedAt) {
+  res.on('finish', () => {
+    pushExchange(describeExchange(req, scheme, startedAt, res.statusCode, res.getHeaders()))
+  })
+}
+
+function handleLog(req, res, url) {
+  if (url.pathname === '/__log/stream') {
+    setInternalHeaders(res, 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache')
+    res.writeHead(200)
+    res.write(': connected\n\n')
+    exchangeSubscribers.add(res)
+    req.on('close', () => exchangeSubscribers.delete(res))
+    return
   }
 
+  if (req.method === 'DELETE') {
+    exchanges.length = 0
+    setInternalHeaders(res, 'application/json')
+    res.writeHead(204)
+    res.end()
+    return
+  }
+
+  setInternalHeaders(res, 'application/json')
   res.writeHead(200)
-  res.end(JSON.stringify(responseData, null, 2))
-})
+  res.end(JSON.stringify({ exchanges }, null, 2))
+}
+
+// GET /sse (or /scenario/<name>/sse): server-sent events, tuned with ?interval=<ms>&count=<n>
+// (count=0 streams forever) and &event=<name>. Scenario CORS/LNA headers and status apply.
+function handleEventStream(req, res, url, behavior) {
+  setCorsHeaders(req, res, behavior)
+  if (behavior.status !== 200) {
+    res.writeHead(behavior.status)
+    res.end()
+    return
+  }
+
+  const interval = Math.max(50, Number(url.searchParams.get('interval')) || 1000)
+  const count = url.searchParams.has('count') ? Number(url.searchParams.get('count')) : 10
+  // A NaN count would never match sent >= count and stream forever
+  if (!Number.isInteger(count) || count < 0) {
+    res.writeHead(400, { 'Content-Type': 'text/plain' })
+    res.end('count must be a non-negative integer\n')
+    return
+  }
+  const eventName = url.searchParams.get('event') || 'tick'
+
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.writeHead(200)
+  res.write('retry: 3000\n')
+  res.write(`data: ${JSON.stringify({ device: DEVICE_NAME, interval, count })}\n\n`)
+
+  let sent = 0
+  const timer = setInterval(() => {
+    sent++
+    const data = JSON.stringify({ sequence: sent, timestamp: new Date().toISOString() })
+    res.write(`id: ${sent}\nevent: ${eventName}\ndata: ${data}\n\n`)
+    if (count > 0 && sent >= count) {
+      clearInterval(timer)
+      res.end('event: done\ndata: {}\n\n')
+    }
+  }, interval)
+  req.on('close', () => clearInterval(timer))
+}
+
+// Minimal RFC 6455 server for /ws (or /scenario/<name>/ws): echoes text frames, answers pings
+// and mirrors close codes. ?closeAfterMs=<n>&closeCode=<code> makes the server hang up, and a
+// scenario or ?status=<4xx|5xx> rejects the handshake with that HTTP status.
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length
+  const header =
+    length < 126
+      ? Buffer.from([0x80 | opcode, length])
+      : length < 65536
+        ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+        : Buffer.concat([Buffer.from([0x80 | opcode, 127]), bigEndian64(length)])
+  return Buffer.concat([header, payload])
+}
 
-server.listen(PORT, HOST, () => {
+function bigEndian64(value) {
+  const buffer = Buffer.alloc(8)
+  buffer.writeBigUInt64BE(BigInt(value))
+  return buffer
+}
+
+// Returns the parsed frame and the bytes it used, or null when the buffer holds a partial frame
+function decodeFrame(buffer) {
+  if (buffer.length < 2) {
+    return null
+  }
+  const opcode = buffer[0] & 0x0f
+  const masked = (buffer[1] & 0x80) !== 0
+  let length = buffer[1] & 0x7f
+  let offset = 2
+  if (length === 126) {
+    if (buffer.length < 4) {
+      return null
+    }
+    length = buffer.readUInt16BE(2)
+    offset = 4
+  } else if (length === 127) {
+    if (buffer.length < 10) {
+      return null
+    }
+    length = Number(buffer.readBigUInt64BE(2))
+    offset = 10
+  }
+  const maskOffset = offset
+  if (masked) {
+    offset += 4
+  }
+  if (buffer.length < offset + length) {
+    return null
+  }
+  const payload = Buffer.from(buffer.subarray(offset, offset + length))
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)]
+    }
+  }
+  return { fin: (buffer[0] & 0x80) !== 0, opcode, payload, size: offset + length }
+}
+
+function closePayload(code, reason = '') {
+  const payload = Buffer.alloc(2 + Buffer.byteLength(reason))
+  payload.writeUInt16BE(code, 0)
+  payload.write(reason, 2)
+  return payload
+}
+
+// Codes a server may put on the wire; 1004-1006 and 1015 are reserved and never sent
+function isSendableCloseCode(code) {
+  return (
+    Number.isInteger(code) &&
+    ((code >= 1000 && code <= 1003) ||
+      (code >= 1007 && code <= 1014) ||
+      (code >= 3000 && code <= 4999))
+  )
+}
+
+function handleUpgrade(req, socket, scheme) {
+  const startedAt = Date.now()
+  const url = new URL(req.url, `${scheme}://${req.headers.host || 'localhost'}`)
+  console.log(`${new Date().toISOString()} - [${scheme}] WS ${req.url}`)
+
+  const reject = (status) => {
+    socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status] || ''}\r\nConnection: close\r\n\r\n`)
+    pushExchange(describeExchange(req, scheme, startedAt, status, {}))
+  }
+
+  if (!/^\/(scenario\/[^/]+\/)?ws$/.test(url.pathname) || !req.headers['sec-websocket-key']) {
+    reject(404)
+    return
+  }
+
+  let behavior
+  try {
+    behavior = resolveBehavior(url)
+  } catch (err) {
+    if (!(err instanceof OverrideError)) {
+      throw err
+    }
+    reject(400)
+    return
+  }
+  if (
+    url.searchParams.has('closeCode') &&
+    !isSendableCloseCode(Number(url.searchParams.get('closeCode')))
+  ) {
+    reject(400)
+    return
+  }
+  if (behavior.status >= 400) {
+    setTimeout(() => reject(behavior.status), behavior.delayMs)
+    return
+  }
+
+  const accept = crypto
+    .createHash('sha1')
+    .update(req.headers['sec-websocket-key'] + WEBSOCKET_GUID)
+    .digest('base64')
+  const responseHeaders = {
+    Upgrade: 'websocket',
+    Connection: 'Upgrade',
+    'Sec-WebSocket-Accept': accept,
+  }
+  if (behavior.deviceHeaders !== 'omit') {
+    responseHeaders['Private-Network-Access-Name'] = DEVICE_NAME
+    responseHeaders['Private-Network-Access-ID'] = DEVICE_ID
+  }
+
+  setTimeout(() => {
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+        Object.entries(responseHeaders)
+          .map(([key, value]) => `${key}: ${value}\r\n`)
+          .join('') +
+        '\r\n'
+    )
+    pushExchange(describeExchange(req, scheme, startedAt, 101, responseHeaders))
+    runWebSocket(socket, url)
+  }, behavior.delayMs)
+}
+
+function runWebSocket(socket, url) {
+  let buffered = Buffer.alloc(0)
+  let fragments = []
+  let closed = false
+
+  const send = (opcode, payload) => {
+    if (!closed && socket.writable) {
+      socket.write(encodeFrame(opcode, payload))
+    }
+  }
+  const close = (code, reason) => {
+    send(0x8, code ? closePayload(code, reason) : Buffer.alloc(0))
+    closed = true
+    socket.end()
+  }
+
+  send(0x1, Buffer.from(JSON.stringify({ type: 'welcome', device: DEVICE_NAME, id: DEVICE_ID })))
+
+  const closeAfterMs = Number(url.searchParams.get('closeAfterMs'))
+  if (closeAfterMs > 0) {
+    const code = url.searchParams.has('closeCode')
+      ? Number(url.searchParams.get('closeCode'))
+      : 1000
+    const timer = setTimeout(() => close(code, 'Server closed the connection'), closeAfterMs)
+    socket.on('close', () => clearTimeout(timer))
+  }
+
+  socket.on('data', (chunk) => {
+    buffered = Buffer.concat([buffered, chunk])
+    let frame
+    while ((frame = decodeFrame(buffered))) {
+      buffered = buffered.subarray(frame.size)
+      if (frame.opcode === 0x8) {
+        const code = frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : 0
+        close(code, frame.payload.subarray(2).toString('utf8'))
+        return
+      }
+      if (frame.opcode === 0x9) {
+        send(0xa, frame.payload)
+        continue
+      }
+      if (frame.opcode === 0x0 || frame.opcode === 0x1 || frame.opcode === 0x2) {
+        fragments.push(frame.payload)
+        if (frame.fin) {
+          const message = Buffer.concat(fragments)
+          fragments = []
+          send(0x1, Buffer.from(`echo: ${message.toString('utf8')}`))
+        }
+      }
+    }
+  })
+  socket.on('error', () => socket.destroy())
+}
+
+// GET /__embed: a dependency-free probe page for the explorer's iframe harness. It queries the
+// LNA permission, fetches ?target= with ?targetAddressSpace= and posts both results to the parent
+// window tagged with ?frameId= and ?run=. ?policy= sets the Permissions-Policy header ('' sends none).
+const EMBED_PAGE = `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>LNA embed probe</title>
+<style>body{font:12px/1.4 monospace;margin:8px;color:#111}pre{white-space:pre-wrap;margin:0}</style>
+</head>
+<body>
+<pre id="out">Running...</pre>
+<script>
+(async () => {
+  const params = new URLSearchParams(location.search)
+  const report = {
+    source: 'lna-embed-probe',
+    frameId: params.get('frameId') || '',
+    runKey: params.get('run') || '',
+    origin: self.origin,
+    isSecureContext: self.isSecureContext,
+    policyAllows: null,
+    permission: { state: null, supported: false },
+    fetch: null,
+  }
+  const policy = document.permissionsPolicy || document.featurePolicy
+  if (policy && policy.allowsFeature) {
+    try { report.policyAllows = policy.allowsFeature('local-network-access') } catch (e) {}
+  }
+  try {
+    const status = await navigator.permissions.query({ name: 'local-network-access' })
+    report.permission = { state: status.state, supported: true }
+  } catch (error) {
+    report.permission = { state: null, supported: false, error: String(error) }
+  }
+  const target = params.get('target')
+  if (target) {
+    const options = {}
+    const space = params.get('targetAddressSpace')
+    if (space && space !== 'none') options.targetAddressSpace = space
+    const startedAt = performance.now()
+    try {
+      const response = await fetch(target, options)
+      report.fetch = {
+        status: response.ok ? 'success' : 'error',
+        httpStatus: response.status,
+        durationMs: Math.round(performance.now() - startedAt),
+      }
+    } catch (error) {
+      report.fetch = {
+        status: 'error',
+        durationMs: Math.round(performance.now() - startedAt),
+        error: (error && error.name ? error.name + ': ' : '') + (error && error.message),
+      }
+    }
+  }
+  document.getElementById('out').textContent = JSON.stringify(report, null, 2)
+  parent.postMessage(report, '*')
+})()
+</script>
+</body>
+</html>
+`
+
+function serveEmbedPage(req, res, url) {
+  const policy = url.searchParams.has('policy')
+    ? url.searchParams.get('policy')
+    : EMBED_PERMISSIONS_POLICY
+  if (policy) {
+    res.setHeader('Permissions-Policy', policy)
+  }
+  res.setHeader('Content-Type', 'text/html; charset=utf-8')
+  res.setHeader('Cache-Control', 'no-store')
+  res.writeHead(200)
+  res.end(EMBED_PAGE)
+}
+
+function lanAddresses() {
+  return Object.values(os.networkInterfaces())
+    .flat()
+    .filter((iface) => iface && !iface.internal)
+    .map((iface) => iface.address)
+}
+
+// Generates (once) a self-signed certificate covering localhost and every LAN address of this
+// machine. Browsers will still warn: open the HTTPS URL in a tab and accept it before testing.
+function loadCertificate() {
+  const keyPath = argValue('--key') || path.join(CERT_DIR, 'key.pem')
+  const certPath = argValue('--cert') || path.join(CERT_DIR, 'cert.pem')
+
+  if (!fs.existsSync(keyPath) || !fs.existsSync(certPath)) {
+    fs.mkdirSync(CERT_DIR, { recursive: true })
+    const altNames = ['DNS:localhost', 'IP:127.0.0.1', 'IP:::1']
+      .concat(lanAddresses().map((address) => `IP:${address}`))
+      .join(',')
+    console.log(`Generating self-signed certificate in ${CERT_DIR}`)
+    try {
+      execFileSync(
+        'openssl',
+        [
+          'req',
+          '-x509',
+          '-newkey',
+          'rsa:2048',
+          '-nodes',
+          '-days',
+          '365',
+          '-subj',
+          `/CN=${DEVICE_NAME}`,
+          '-addext',
+          `subjectAltName=${altNames}`,
+          '-keyout',
+          keyPath,
+          '-out',
+          certPath,
+        ],
+        { stdio: 'ignore' }
+      )
+    } catch (error) {
+      throw new Error(
+        `Could not run openssl to generate a certificate (${error.message}). ` +
+          'Install openssl or pass --key <file> --cert <file>.'
+      )
+    }
+  }
+
+  return { key: fs.readFileSync(keyPath), cert: fs.readFileSync(certPath) }
+}
+
+function handler(req, res) {
+  const scheme = req.socket.encrypted ? 'https' : 'http'
+  console.log(`${new Date().toISOString()} - [${scheme}] ${req.method} ${req.url}`)
+
+  const url = new URL(req.url, `${scheme}://${req.headers.host || 'localhost'}`)
+
+  if (url.pathname.startsWith('/__')) {
+    if (req.method === 'OPTIONS') {
+      handlePreflight(req, res, DEFAULT_BEHAVIOR)
+    } else if (url.pathname === '/__scenarios') {
+      listScenarios(req, res)
+    } else if (url.pathname === '/__log' || url.pathname === '/__log/stream') {
+      handleLog(req, res, url)
+    } else if (url.pathname === '/__embed') {
+      serveEmbedPage(req, res, url)
+    } else {
+      res.writeHead(404)
+      res.end()
+    }
+    return
+  }
+
+  recordExchange(req, res, scheme, Date.now())
+
+  let behavior
+  try {
+    behavior = resolveBehavior(url)
+  } catch (err) {
+    if (!(err instanceof OverrideError)) {
+      throw err
+    }
+    res.writeHead(400, { 'Content-Type': 'text/plain' })
+    res.end(`${err.message}\n`)
+    return
+  }
+
+  if (req.method === 'OPTIONS') {
+    safely(res, () => handlePreflight(req, res, behavior))
+    return
+  }
+
+  if (/^\/(scenario\/[^/]+\/)?sse$/.test(url.pathname)) {
+    safely(res, () => handleEventStream(req, res, url, behavior))
+    return
+  }
+
+  const chunks = []
+  req.on('data', (chunk) => chunks.push(chunk))
+  req.on('end', () => {
+    const requestBody = Buffer.concat(chunks).toString('utf8')
+    setTimeout(
+      () => safely(res, () => handleRequest(req, res, behavior, requestBody)),
+      behavior.delayMs
+    )
+  })
+}
+
+function printBanner() {
   console.log('='.repeat(60))
   console.log('LNA Test Server Running')
   console.log('='.repeat(60))
-  console.log(`Server: http://localhost:${PORT}`)
-  console.log(`Network: http://<your-local-ip>:${PORT}`)
+  console.log(`Server: http://localhost:${HTTP_PORT}`)
+  console.log(`Network: http://<your-local-ip>:${HTTP_PORT}`)
+  if (HTTPS_ENABLED) {
+    console.log(`HTTPS: https://localhost:${HTTPS_PORT} (self-signed, accept it in the browser)`)
+  }
   console.log('')
-  console.log('CORS and LNA headers configured:')
+  console.log('Default CORS and LNA headers:')
   console.log('  - Access-Control-Allow-Origin: *')
   console.log('  - Access-Control-Allow-Private-Network: true')
-  console.log('  - Private-Network-Access-Name: test-server')
-  console.log('  - Private-Network-Access-ID: 00:11:22:33:44:55')
+  console.log(`  - Private-Network-Access-Name: ${DEVICE_NAME}`)
+  console.log(`  - Private-Network-Access-ID: ${DEVICE_ID}`)
+  console.log('  - Timing-Allow-Origin: *')
+  console.log('')
+  console.log('Exchange log: GET /__log (JSON), GET /__log/stream (SSE), DELETE /__log')
+  console.log(`Embed probe page: http://localhost:${HTTP_PORT}/__embed?target=&policy=`)
+  console.log(`WebSocket: ws://localhost:${HTTP_PORT}/ws (echo; ?closeAfterMs=&closeCode=)`)
+  console.log(`EventSource: http://localhost:${HTTP_PORT}/sse (?interval=&count=&event=)`)
+  console.log('')
+  console.log('Scenarios (GET /__scenarios for details):')
+  scenarios.forEach((s) => console.log(`  /scenario/${s.name.padEnd(26)} ${s.description || ''}`))
+  console.log('')
+  console.log('Options: --http-port <n> --https [--https-port <n>] [--key <file> --cert <file>]')
+  console.log('         --config <file> --permissions-policy <header value for /__embed>')
   console.log('')
   console.log('Example requests:')
-  console.log(`  curl http://localhost:${PORT}`)
-  console.log(`  curl http://localhost:${PORT}/api/test`)
+  console.log(`  curl http://localhost:${HTTP_PORT}`)
+  console.log(`  curl http://localhost:${HTTP_PORT}/scenario/slow?delayMs=1500`)
+  console.log(
+    `  curl -i http://localhost:${HTTP_PORT}/scenario/ok?status=418&contentType=text/plain`
+  )
+  console.log(
+    `  curl -X POST -H 'Content-Type: application/json' -d '{"on":true}' http://localhost:${HTTP_PORT}/api/test`
+  )
+  if (HTTPS_ENABLED) {
+    console.log(`  curl -k https://localhost:${HTTPS_PORT}`)
+  }
   console.log('='.repeat(60))
-})
+}
 
-server.on('error', (err) => {
+function onServerError(err) {
   console.log('Server error:', err)
   process.exit(1)
+}
+
+const servers = [http.createServer(handler).listen(HTTP_PORT, HOST)]
+if (HTTPS_ENABLED) {
+  servers.push(https.createServer(loadCertificate(), handler).listen(HTTPS_PORT, HOST))
+}
+
+servers.forEach((server) => {
+  server.on('error', onServerError)
+  server.on('upgrade', (req, socket) =>
+    handleUpgrade(req, socket, server instanceof https.Server ? 'https' : 'http')
+  )
 })
+Promise.all(
+  servers.map((server) => new Promise((resolve) => server.on('listening', resolve)))
+).then(printBanner)